@@ -0,0 +1,106 @@
+// 19-10-26: Draw title card text literally so % and \ in tenant strings survive
+// 19-10-26: Created branded intro/outro title cards and the concat graph that joins them to the video
+// Phase 5: Tenant branding around every recording
+
+import { BrandingOptions } from './types';
+
+export const OUTRO_DURATION_MS = 4000;
+const MIN_INTRO_DURATION_MS = 3000;
+const INTRO_NARRATION_DELAY_MS = 500;
+const CARD_FADE_SECONDS = 0.5;
+const LOGO_HEIGHT = 160;
+
+export interface TitleCard {
+  kind: 'intro' | 'outro';
+  durationMs: number;
+  titleFile: string;               // drawtext textfile with the main line
+  subtitleFile?: string;           // drawtext textfile with the second line
+  narrationPath?: string;          // Intro narration, delayed slightly into the card
+}
+
+/**
+ * Intro lasts for its narration plus a short tail, and never less than MIN_INTRO_DURATION_MS
+ */
+export function introDurationMs(narrationDurationMs: number): number {
+  return Math.max(MIN_INTRO_DURATION_MS, INTRO_NARRATION_DELAY_MS + narrationDurationMs + 1000);
+}
+
+/**
+ * FFmpeg arguments that render a title card (video and audio) to outputPath.
+ * Text comes from files so tenant-provided strings need no filter-graph escaping (the
+ * files themselves are our own temp paths, safe inside single quotes), and expansion=none
+ * stops drawtext reading % and \ sequences in them.
+ */
+export function buildTitleCardArgs(
+  card: TitleCard,
+  branding: BrandingOptions,
+  width: number,
+  height: number,
+  fps: number,
+  outputPath: string
+): string[] {
+  const duration = (card.durationMs / 1000).toFixed(3);
+  const font = branding.fontFamily.replace(/'/g, '');
+  const showLogo = Boolean(branding.logoPath);
+
+  const inputs = [
+    '-f', 'lavfi', '-i', `color=c=${branding.backgroundColor}:s=${width}x${height}:r=${fps}:d=${duration}`,
+    ...(card.narrationPath
+      ? ['-i', card.narrationPath]
+      : ['-f', 'lavfi', '-i', 'anullsrc=r=48000:cl=stereo']),
+    ...(showLogo ? ['-i', branding.logoPath!] : []),
+  ];
+
+  // Text block sits slightly below centre when a logo is shown above it
+  const titleY = showLogo ? '(h/2)+20' : '(h-text_h)/2-30';
+  const video = [
+    `drawtext=font='${font}':textfile='${card.titleFile}':expansion=none:fontcolor=${branding.textColor}:fontsize=${card.kind === 'intro' ? 72 : 64}:x=(w-text_w)/2:y=${titleY}`,
+    `drawbox=x=(iw-240)/2:y=${showLogo ? 'ih/2+120' : 'ih/2+50'}:w=240:h=8:color=${branding.primaryColor}:t=fill`,
+    ...(card.subtitleFile
+      ? [`drawtext=font='${font}':textfile='${card.subtitleFile}':expansion=none:fontcolor=${branding.textColor}@0.8:fontsize=36:x=(w-text_w)/2:y=${showLogo ? 'h/2+160' : 'h/2+90'}`]
+      : []),
+    `fade=t=in:st=0:d=${CARD_FADE_SECONDS}`,
+    `fade=t=out:st=${(card.durationMs / 1000 - CARD_FADE_SECONDS).toFixed(3)}:d=${CARD_FADE_SECONDS}`,
+    'format=yuv420p',
+  ].join(',');
+
+  const delay = card.narrationPath ? `adelay=${INTRO_NARRATION_DELAY_MS}|${INTRO_NARRATION_DELAY_MS},` : '';
+  const filterParts = showLogo
+    ? [
+        `[2:v]scale=-1:${LOGO_HEIGHT}[logo]`,
+        `[0:v][logo]overlay=(W-w)/2:(H/2)-h-40[bg]`,
+        `[bg]${video}[v]`,
+      ]
+    : [`[0:v]${video}[v]`];
+  filterParts.push(`[1:a]aformat=sample_rates=48000:channel_layouts=stereo,${delay}apad,atrim=0:${duration}[a]`);
+
+  return [
+    ...inputs,
+    '-filter_complex', filterParts.join(';'),
+    '-map', '[v]',
+    '-map', '[a]',
+    '-t', duration,
+    '-c:v', 'libx264',
+    '-preset', 'fast',
+    '-r', String(fps),
+    '-c:a', 'aac',
+    '-ar', '48000',
+    '-y', outputPath,
+  ];
+}
+
+/**
+ * Filter graph joining [intro], main and [outro] inputs (in input order) into [v]/[a].
+ * Every segment is brought to the same frame rate, pixel format and sample rate first.
+ */
+export function buildBumperConcatFilter(segmentCount: number, width: number, height: number, fps: number): string {
+  const parts: string[] = [];
+  const labels: string[] = [];
+  for (let i = 0; i < segmentCount; i++) {
+    parts.push(`[${i}:v]scale=${width}:${height},setsar=1,fps=${fps},format=yuv420p[v${i}]`);
+    parts.push(`[${i}:a]aformat=sample_rates=48000:channel_layouts=stereo[a${i}]`);
+    labels.push(`[v${i}][a${i}]`);
+  }
+  parts.push(`${labels.join('')}concat=n=${segmentCount}:v=1:a=1[v][a]`);
+  return parts.join(';');
+}
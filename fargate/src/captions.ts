@@ -0,0 +1,126 @@
+// 19-10-26: Created caption cue builder with WebVTT/SRT writers
+// Phase 5: Captions from manifest narration and recorded step timings
+
+import { ManifestStep, StepTiming, SpeechMark, CaptionCue } from './types';
+
+const MAX_CUE_CHARS = 84;   // Two lines of ~42 characters
+const MIN_CUE_MS = 800;
+
+/**
+ * Split narration into cues using word speech marks when available,
+ * otherwise split by character count proportionally over the clip duration.
+ */
+function cuesForStep(
+  narration: string,
+  startMs: number,
+  durationMs: number,
+  stepId: number,
+  speechMarks?: SpeechMark[]
+): CaptionCue[] {
+  const words = speechMarks?.filter(mark => mark.type === 'word') || [];
+  const endMs = startMs + durationMs;
+  const cues: CaptionCue[] = [];
+
+  if (words.length > 0) {
+    let current: { start: number; text: string } | null = null;
+    for (const word of words) {
+      const wordStart = startMs + word.time;
+      if (current && (current.text + ' ' + word.value).length > MAX_CUE_CHARS) {
+        cues.push({ stepId, startMs: current.start, endMs: wordStart, text: current.text });
+        current = null;
+      }
+      current = current
+        ? { start: current.start, text: `${current.text} ${word.value}` }
+        : { start: wordStart, text: word.value };
+    }
+    if (current) {
+      cues.push({ stepId, startMs: current.start, endMs, text: current.text });
+    }
+    return cues;
+  }
+
+  // No speech marks: chunk on word boundaries and spread by character share
+  const chunks: string[] = [];
+  let chunk = '';
+  for (const word of narration.split(/\s+/).filter(Boolean)) {
+    if (chunk && (chunk + ' ' + word).length > MAX_CUE_CHARS) {
+      chunks.push(chunk);
+      chunk = word;
+    } else {
+      chunk = chunk ? `${chunk} ${word}` : word;
+    }
+  }
+  if (chunk) chunks.push(chunk);
+
+  const totalChars = chunks.reduce((sum, c) => sum + c.length, 0) || 1;
+  let cursor = startMs;
+  chunks.forEach((text, index) => {
+    const share = index === chunks.length - 1
+      ? endMs - cursor
+      : Math.max(MIN_CUE_MS, Math.round(durationMs * (text.length / totalChars)));
+    cues.push({ stepId, startMs: cursor, endMs: cursor + share, text });
+    cursor += share;
+  });
+  return cues;
+}
+
+/**
+ * Build caption cues for every recorded step.
+ * Cues never overlap: a cue is cut off where the next step's narration begins.
+ */
+export function buildCaptionCues(
+  manifest: ManifestStep[],
+  stepTimings: StepTiming[],
+  speechMarksByStep: Map<number, SpeechMark[]> = new Map()
+): CaptionCue[] {
+  const narrationById = new Map(manifest.map(step => [step.step_id, step.narration]));
+  const cues: CaptionCue[] = [];
+
+  const sortedTimings = [...stepTimings].sort((a, b) => a.startTimestamp - b.startTimestamp);
+  for (const timing of sortedTimings) {
+    const narration = narrationById.get(timing.stepId);
+    if (!narration || timing.audioDuration <= 0) continue;
+    cues.push(...cuesForStep(
+      narration,
+      timing.startTimestamp,
+      timing.audioDuration,
+      timing.stepId,
+      speechMarksByStep.get(timing.stepId)
+    ));
+  }
+
+  for (let i = 0; i < cues.length - 1; i++) {
+    cues[i].endMs = Math.min(cues[i].endMs, cues[i + 1].startMs);
+  }
+
+  return cues.filter(cue => cue.endMs > cue.startMs);
+}
+
+function formatTimestamp(ms: number, separator: '.' | ','): string {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor((total % 3600000) / 60000);
+  const seconds = Math.floor((total % 60000) / 1000);
+  const millis = total % 1000;
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(millis, 3)}`;
+}
+
+/**
+ * Serialize cues as WebVTT
+ */
+export function toWebVtt(cues: CaptionCue[]): string {
+  const body = cues.map((cue, index) =>
+    `${index + 1}\n${formatTimestamp(cue.startMs, '.')} --> ${formatTimestamp(cue.endMs, '.')}\n${cue.text}`
+  );
+  return ['WEBVTT', '', ...body.map(block => `${block}\n`)].join('\n');
+}
+
+/**
+ * Serialize cues as SubRip (SRT)
+ */
+export function toSrt(cues: CaptionCue[]): string {
+  return cues.map((cue, index) =>
+    `${index + 1}\n${formatTimestamp(cue.startMs, ',')} --> ${formatTimestamp(cue.endMs, ',')}\n${cue.text}\n`
+  ).join('\n');
+}
@@ -0,0 +1,90 @@
+// 19-10-26: Export the narration title helper for lower-third overlays
+// 19-10-26: Created chapter builder with FFmpeg metadata writer
+// Phase 5: Chapters from manifest steps and recorded step timings
+
+import { ManifestStep, StepTiming, Chapter, ChapterGrouping } from './types';
+
+const MAX_TITLE_CHARS = 60;
+
+/**
+ * Chapter title from narration: the first sentence, shortened on a word boundary
+ */
+export function titleFromNarration(narration: string, fallback: string): string {
+  const sentence = (narration.split(/(?<=[.!?])\s/)[0] || '').trim().replace(/[.!?]+$/, '');
+  if (!sentence) return fallback;
+  if (sentence.length <= MAX_TITLE_CHARS) return sentence;
+  const cut = sentence.slice(0, MAX_TITLE_CHARS);
+  return `${cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : MAX_TITLE_CHARS)}…`;
+}
+
+/**
+ * Group recorded steps into chapters. Each chapter runs until the next one
+ * starts; the last one runs to the end of the video.
+ */
+export function buildChapters(
+  manifest: ManifestStep[],
+  stepTimings: StepTiming[],
+  videoDurationMs: number,
+  stepGroups: Record<number, string> = {},
+  grouping: ChapterGrouping = 'auto'
+): Chapter[] {
+  const stepsById = new Map(manifest.map(step => [step.step_id, step]));
+  const sortedTimings = [...stepTimings].sort((a, b) => a.startTimestamp - b.startTimestamp);
+  const useTestSteps = grouping === 'test-step' || (grouping === 'auto' && Object.keys(stepGroups).length > 0);
+
+  const chapters: Chapter[] = [];
+  let currentGroup: string | undefined;
+  for (const timing of sortedTimings) {
+    const step = stepsById.get(timing.stepId);
+    const current = chapters[chapters.length - 1];
+    const narrationTitle = titleFromNarration(step?.narration || '', `Step ${timing.stepId}`);
+
+    let startsChapter: boolean;
+    let title: string;
+    if (useTestSteps) {
+      // Consecutive steps outside any test.step share one chapter named after the first of them
+      const group = stepGroups[timing.stepId] || '';
+      title = group || narrationTitle;
+      startsChapter = !current || currentGroup !== group;
+      currentGroup = group;
+    } else {
+      title = narrationTitle;
+      startsChapter = !current || step?.importance === 'high';
+    }
+
+    if (startsChapter) {
+      chapters.push({ title, startMs: timing.startTimestamp, endMs: 0, stepIds: [timing.stepId] });
+    } else {
+      current.stepIds.push(timing.stepId);
+    }
+  }
+
+  if (chapters.length > 0) {
+    // The first chapter starts with the video so the intro is not orphaned
+    chapters[0].startMs = 0;
+  }
+  chapters.forEach((chapter, index) => {
+    const next = chapters[index + 1];
+    chapter.endMs = next ? next.startMs : Math.max(videoDurationMs, chapter.startMs + 1);
+  });
+
+  return chapters.filter(chapter => chapter.endMs > chapter.startMs);
+}
+
+function escapeMetadata(value: string): string {
+  return value.replace(/[\\=;#\n]/g, match => `\\${match}`);
+}
+
+/**
+ * Serialize chapters in FFmpeg's FFMETADATA1 format (millisecond timebase)
+ */
+export function toFfmetadata(chapters: Chapter[]): string {
+  const blocks = chapters.map(chapter => [
+    '[CHAPTER]',
+    'TIMEBASE=1/1000',
+    `START=${Math.round(chapter.startMs)}`,
+    `END=${Math.round(chapter.endMs)}`,
+    `title=${escapeMetadata(chapter.title)}`,
+  ].join('\n'));
+  return [';FFMETADATA1', ...blocks, ''].join('\n');
+}
@@ -0,0 +1,96 @@
+// 19-10-26: Created cursor overlay (animated pointer, click ripples, element highlight) for recordings
+// Phase 5: Headless Chromium draws no mouse pointer, so one is rendered into the page
+
+// Browser-side script installed with page.addInitScript on every document.
+// Kept free of template literals so it can be embedded in the injected helper as a JSON string.
+const OVERLAY_SCRIPT = `
+(() => {
+  if (window.__pwCursorInstalled) return;
+  window.__pwCursorInstalled = true;
+
+  const install = () => {
+    const style = document.createElement('style');
+    style.textContent = [
+      '#__pw-cursor { position: fixed; top: 0; left: 0; width: 22px; height: 22px; margin: -3px 0 0 -3px;',
+      '  z-index: 2147483647; pointer-events: none; opacity: 0; transition: opacity 150ms;',
+      '  background: no-repeat center/contain url("data:image/svg+xml,' +
+        encodeURIComponent('<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><path d="M4 2l16 10-7 1.5L9.5 21z" fill="#111" stroke="#fff" stroke-width="1.5"/></svg>') + '"); }',
+      '#__pw-cursor.visible { opacity: 1; }',
+      '#__pw-cursor.down { transform-origin: 3px 3px; scale: 0.85; }',
+      '.__pw-ripple { position: fixed; width: 36px; height: 36px; margin: -18px 0 0 -18px; border-radius: 50%;',
+      '  border: 3px solid rgba(37, 99, 235, 0.9); z-index: 2147483646; pointer-events: none;',
+      '  animation: __pw-ripple 500ms ease-out forwards; }',
+      '@keyframes __pw-ripple { from { transform: scale(0.3); opacity: 1; } to { transform: scale(1.6); opacity: 0; } }',
+      '.__pw-highlight { position: fixed; border: 3px solid #f59e0b; border-radius: 6px; z-index: 2147483645;',
+      '  pointer-events: none; box-shadow: 0 0 0 4px rgba(245, 158, 11, 0.25); transition: opacity 300ms; }',
+    ].join('\\n');
+    document.documentElement.appendChild(style);
+
+    const cursor = document.createElement('div');
+    cursor.id = '__pw-cursor';
+    document.documentElement.appendChild(cursor);
+
+    document.addEventListener('mousemove', (event) => {
+      cursor.style.left = event.clientX + 'px';
+      cursor.style.top = event.clientY + 'px';
+      cursor.classList.add('visible');
+    }, true);
+
+    document.addEventListener('mousedown', (event) => {
+      cursor.classList.add('down');
+      const ripple = document.createElement('div');
+      ripple.className = '__pw-ripple';
+      ripple.style.left = event.clientX + 'px';
+      ripple.style.top = event.clientY + 'px';
+      document.documentElement.appendChild(ripple);
+      setTimeout(() => ripple.remove(), 600);
+    }, true);
+
+    document.addEventListener('mouseup', () => cursor.classList.remove('down'), true);
+  };
+
+  if (document.documentElement) install();
+  else document.addEventListener('DOMContentLoaded', install);
+})();
+`;
+
+/**
+ * Helper code injected into the test file when the cursor overlay is enabled.
+ * `_pointAt` glides the pointer to the target box before the action runs and
+ * outlines the element for highlighted steps.
+ */
+export function buildCursorHelperCode(highlightStepIds: number[]): string {
+  return `
+// === INJECTED CURSOR OVERLAY ===
+const _cursorOverlayScript = ${JSON.stringify(OVERLAY_SCRIPT)};
+const _highlightSteps = new Set<number>(${JSON.stringify(highlightStepIds)});
+
+_injectedPwTest.beforeEach(async ({ page }) => {
+    await page.addInitScript(_cursorOverlayScript);
+});
+
+async function _pointAt(page: any, box: any) {
+    try {
+        if (_highlightSteps.has(_currentStepId)) {
+            await page.evaluate((rect: any) => {
+                const outline = document.createElement('div');
+                outline.className = '__pw-highlight';
+                outline.style.left = (rect.x - 6) + 'px';
+                outline.style.top = (rect.y - 6) + 'px';
+                outline.style.width = (rect.width + 12) + 'px';
+                outline.style.height = (rect.height + 12) + 'px';
+                document.documentElement.appendChild(outline);
+                setTimeout(() => { outline.style.opacity = '0'; }, 1500);
+                setTimeout(() => outline.remove(), 1800);
+            }, box);
+        }
+
+        await page.mouse.move(box.x + box.width / 2, box.y + box.height / 2, { steps: 25 });
+        await page.waitForTimeout(150);
+    } catch {
+        // The pointer is cosmetic - never fail the recording because of it
+    }
+}
+// === END INJECTED CURSOR OVERLAY ===
+`;
+}
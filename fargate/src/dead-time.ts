@@ -0,0 +1,135 @@
+// 19-10-26: Created dead-time planning and timeline re-mapping for static stretches
+// Phase 5: Tighten page loads and waits that leave nothing happening on screen
+
+import { StepTiming, StepTarget, DeadTimeEdit, DeadTimeMode } from './types';
+
+export const MIN_DEAD_TIME_MS = 1500;   // Shorter still stretches read as natural pauses
+export const FREEZE_NOISE_DB = -60;     // freezedetect: frames differing less than this are "frozen"
+const KEEP_STILL_MS = 500;              // Still picture left where a stretch is cut
+const SPEED_FACTOR = 8;
+const NARRATION_MARGIN_MS = 250;        // Picture stays untouched just before and after narration
+
+export interface FrozenSpan {
+  startMs: number;
+  endMs: number;
+}
+
+/**
+ * Frozen spans from FFmpeg's freezedetect log. A freeze still running when the
+ * video ends has no freeze_end and is closed at the video duration.
+ */
+export function parseFreezeDetectOutput(output: string, videoDurationMs: number): FrozenSpan[] {
+  const spans: FrozenSpan[] = [];
+  let startMs: number | null = null;
+  for (const match of output.matchAll(/lavfi\.freezedetect\.freeze_(start|end): ([\d.]+)/g)) {
+    const ms = Math.round(parseFloat(match[2]) * 1000);
+    if (match[1] === 'start') {
+      startMs = ms;
+    } else if (startMs !== null) {
+      spans.push({ startMs, endMs: ms });
+      startMs = null;
+    }
+  }
+  if (startMs !== null && videoDurationMs > startMs) spans.push({ startMs, endMs: videoDurationMs });
+  return spans;
+}
+
+/**
+ * Edits for the parts of each frozen span that no narration plays over. Cut stretches
+ * keep KEEP_STILL_MS of the still picture; sped-up ones play SPEED_FACTOR times faster.
+ */
+export function planDeadTimeEdits(frozen: FrozenSpan[], stepTimings: StepTiming[], mode: DeadTimeMode): DeadTimeEdit[] {
+  const narration = stepTimings
+    .filter(timing => timing.audioDuration > 0)
+    .map(timing => ({
+      startMs: timing.startTimestamp - NARRATION_MARGIN_MS,
+      endMs: timing.startTimestamp + timing.audioDuration + NARRATION_MARGIN_MS,
+    }))
+    .sort((a, b) => a.startMs - b.startMs);
+
+  const edits: DeadTimeEdit[] = [];
+  for (const span of [...frozen].sort((a, b) => a.startMs - b.startMs)) {
+    // Subtract every narration span from the frozen span
+    let cursor = span.startMs;
+    const free: FrozenSpan[] = [];
+    for (const spoken of narration) {
+      if (spoken.endMs <= cursor || spoken.startMs >= span.endMs) continue;
+      if (spoken.startMs > cursor) free.push({ startMs: cursor, endMs: spoken.startMs });
+      cursor = Math.max(cursor, spoken.endMs);
+    }
+    if (cursor < span.endMs) free.push({ startMs: cursor, endMs: span.endMs });
+
+    for (const piece of free) {
+      const lengthMs = piece.endMs - piece.startMs;
+      if (lengthMs < MIN_DEAD_TIME_MS) continue;
+      const outputMs = mode === 'cut' ? KEEP_STILL_MS : Math.max(KEEP_STILL_MS, Math.round(lengthMs / SPEED_FACTOR));
+      edits.push({ mode, startMs: piece.startMs, endMs: piece.endMs, outputMs });
+    }
+  }
+  return edits;
+}
+
+/**
+ * Position on the edited timeline of a moment in the recording. Moments inside a cut
+ * stretch land on its kept still; inside a sped-up stretch they scale with it.
+ */
+export function remapTimestamp(ms: number, edits: DeadTimeEdit[]): number {
+  let removedMs = 0;
+  for (const edit of edits) {
+    if (ms <= edit.startMs) break;
+    const lengthMs = edit.endMs - edit.startMs;
+    if (ms >= edit.endMs) {
+      removedMs += lengthMs - edit.outputMs;
+      continue;
+    }
+    const intoMs = ms - edit.startMs;
+    const mappedMs = edit.mode === 'cut' ? Math.min(intoMs, edit.outputMs) : (intoMs * edit.outputMs) / lengthMs;
+    return Math.round(edit.startMs - removedMs + mappedMs);
+  }
+  return ms - removedMs;
+}
+
+/**
+ * Move step timings and targets onto the edited timeline. Durations stay as
+ * measured: actionDuration is how long the action took in the browser.
+ */
+export function remapToDeadTimeEdits(stepTimings: StepTiming[], stepTargets: StepTarget[], edits: DeadTimeEdit[]): void {
+  for (const timing of stepTimings) {
+    timing.startTimestamp = remapTimestamp(timing.startTimestamp, edits);
+    timing.endTimestamp = remapTimestamp(timing.endTimestamp, edits);
+    if (timing.actionTimestamp !== undefined) timing.actionTimestamp = remapTimestamp(timing.actionTimestamp, edits);
+  }
+  for (const target of stepTargets) {
+    target.timestamp = remapTimestamp(target.timestamp, edits);
+  }
+}
+
+/**
+ * Filter graph cutting the video into untouched pieces and edited stretches and
+ * joining them into [vout]. Sped-up pieces are brought back to the output frame rate.
+ */
+export function buildDeadTimeFilter(edits: DeadTimeEdit[], fps: number, videoDurationMs: number): string {
+  const seconds = (ms: number) => (ms / 1000).toFixed(3);
+  const pieces: string[] = [];
+  let cursor = 0;
+  for (const edit of edits) {
+    if (edit.startMs > cursor) {
+      pieces.push(`trim=start=${seconds(cursor)}:end=${seconds(edit.startMs)},setpts=PTS-STARTPTS`);
+    }
+    pieces.push(edit.mode === 'cut'
+      ? `trim=start=${seconds(edit.startMs)}:end=${seconds(edit.startMs + edit.outputMs)},setpts=PTS-STARTPTS`
+      : `trim=start=${seconds(edit.startMs)}:end=${seconds(edit.endMs)},setpts=(PTS-STARTPTS)*${(edit.outputMs / (edit.endMs - edit.startMs)).toFixed(4)}`);
+    cursor = edit.endMs;
+  }
+  // A still stretch running to the end of the video leaves nothing after it
+  if (cursor < videoDurationMs - 1000 / fps) {
+    pieces.push(`trim=start=${seconds(cursor)},setpts=PTS-STARTPTS`);
+  }
+
+  const labels = pieces.map((_, i) => `[p${i}]`);
+  return [
+    `[0:v]split=${pieces.length}${pieces.map((_, i) => `[s${i}]`).join('')}`,
+    ...pieces.map((piece, i) => `[s${i}]${piece},fps=${fps}${labels[i]}`),
+    `${labels.join('')}concat=n=${pieces.length}:v=1:a=0[vout]`,
+  ].join(';');
+}
@@ -1,3 +1,25 @@
+// 19-10-26: Clear the previous render's locale variants before uploading new ones
+// 19-10-26: Upload previews before the video, replacing those of an earlier render
+// 19-10-26: Replace the renditions and HLS output of an earlier render instead of adding to it
+// 19-10-26: Remove chapters left by an earlier render when this one uploads none
+// 19-10-26: Remove caption tracks left by an earlier render when this one uploads none
+// 19-10-26: No fallback upload of arbitrary videos when redactions are configured
+// 19-10-26: Compare step screenshots with the previous successful render and store them per render
+// 19-10-26: Pass the dead-time trimming mode
+// 19-10-26: Upload the step timings JSON next to the video
+// 19-10-26: Render localized variants for the project's extra locales and upload them
+// 19-10-26: Pass lower-third and step callout overlay options
+// 19-10-26: Build intro/outro branding from the tenant's branding settings
+// 19-10-26: Upload poster, sprite sheet and animated preview
+// 19-10-26: Pass configured renditions and upload renditions/HLS output
+// 19-10-26: Pass the loudness target and upload the measured loudness report
+// 19-10-26: Download the project's music bed and pass its volume/fade settings
+// 19-10-26: Read project redaction rules
+// 19-10-26: Enable typing animation with sensitive steps masked
+// 19-10-26: Pass the automatic zoom option
+// 19-10-26: Enable the cursor overlay and highlight high-importance steps
+// 19-10-26: Upload chapters JSON and pass the chapter grouping option
+// 19-10-26: Pass the manifest to the recorder and upload WebVTT/SRT captions
 // 08-12-25: Add extensive logging for debugging container exits
 // 08-12-25: Make audio playback optional and fix upload key selection
 // 07-12-25: Created main entry point for video recording container
@@ -5,11 +27,12 @@
 
 import express from 'express';
 import { SFNClient, SendTaskSuccessCommand, SendTaskFailureCommand } from '@aws-sdk/client-sfn';
-import { downloadFromS3, downloadAudioFiles, uploadToS3, getTextFromS3 } from './s3-utils';
+import { downloadFromS3, downloadAudioFiles, uploadToS3, uploadDirectoryToS3, getTextFromS3, deleteFromS3, deletePrefixFromS3 } from './s3-utils';
 import { recordVideo, recordVideoSimple } from './video-recorder';
-import { VideoRecordingConfig, RecordingResult, HealthStatus } from './types';
+import { VideoRecordingConfig, RecordingResult, HealthStatus, ManifestStep, ChapterGrouping, RedactionRule, RenditionName, BrandingOptions, VisualDiffOptions, StepScreenshot } from './types';
+import { DEFAULT_VISUAL_DIFF_THRESHOLD } from './visual-diff';
 import path from 'path';
-import { mkdir, access, readdir, stat } from 'fs/promises';
+import { mkdir, access, readdir, stat, writeFile } from 'fs/promises';
 
 function log(message: string): void {
   console.log(`[${new Date().toISOString()}] [main] ${message}`);
@@ -33,15 +56,39 @@ const TENANT_ID = process.env.TENANT_ID || '';
 const S3_BUCKET = process.env.S3_BUCKET || '';
 const SYNCED_SCRIPT_S3_KEY = process.env.SYNCED_SCRIPT_S3_KEY || '';
 const AUDIO_S3_PREFIX = process.env.AUDIO_S3_PREFIX || '';
+const MANIFEST_S3_KEY = process.env.MANIFEST_S3_KEY || '';
 const TASK_TOKEN = process.env.TASK_TOKEN || '';
 const AWS_REGION = process.env.AWS_REGION || 'us-east-1';
 const USE_SIMPLE_RECORDING = process.env.USE_SIMPLE_RECORDING !== 'false';
 const ENABLE_AUDIO_PLAYBACK = process.env.ENABLE_AUDIO_PLAYBACK === 'true';
+const BURN_CAPTIONS = process.env.BURN_CAPTIONS === 'true';
+const CURSOR_OVERLAY = process.env.CURSOR_OVERLAY === 'true';
+const HIGHLIGHT_HIGH_IMPORTANCE = process.env.HIGHLIGHT_HIGH_IMPORTANCE === 'true';
+const AUTO_ZOOM = process.env.AUTO_ZOOM === 'true';
+const TYPING_ANIMATION = process.env.TYPING_ANIMATION === 'true';
+const LOWER_THIRDS = process.env.LOWER_THIRDS === 'true';
+const STEP_CALLOUTS = process.env.STEP_CALLOUTS === 'true';
+const REDACTIONS = process.env.REDACTIONS || '';
+const LOUDNESS_TARGET = process.env.LOUDNESS_TARGET ? parseFloat(process.env.LOUDNESS_TARGET) : undefined;
+const RENDITIONS = (process.env.RENDITIONS || '').split(',').filter(name => name.trim()) as RenditionName[];
+const DEAD_TIME = process.env.DEAD_TIME === 'cut' || process.env.DEAD_TIME === 'speed' ? process.env.DEAD_TIME : undefined;
+const VISUAL_DIFF_THRESHOLD = parseFloat(process.env.VISUAL_DIFF_THRESHOLD || String(DEFAULT_VISUAL_DIFF_THRESHOLD));
+const LOCALES = (process.env.LOCALES || '').split(',').map(locale => locale.trim()).filter(Boolean);
+const BRANDING = process.env.BRANDING || '';
+const PROJECT_NAME = process.env.PROJECT_NAME || '';
+const MUSIC_S3_KEY = process.env.MUSIC_S3_KEY || '';
+const MUSIC_VOLUME = parseFloat(process.env.MUSIC_VOLUME || '0.15');
+const MUSIC_FADE_IN_MS = parseInt(process.env.MUSIC_FADE_IN_MS || '1500', 10);
+const MUSIC_FADE_OUT_MS = parseInt(process.env.MUSIC_FADE_OUT_MS || '3000', 10);
+const CHAPTER_GROUPING = (process.env.CHAPTER_GROUPING || 'auto') as ChapterGrouping;
 
 // Paths
 const AUDIO_DIR = process.env.AUDIO_PATH || '/tmp/audio';
 const VIDEO_DIR = process.env.VIDEO_PATH || '/tmp/video';
 const SCRIPT_DIR = process.env.SCRIPT_PATH || '/tmp/script';
+const MUSIC_DIR = process.env.MUSIC_PATH || '/tmp/music';
+const BRANDING_DIR = process.env.BRANDING_PATH || '/tmp/branding';
+const BASELINE_DIR = process.env.BASELINE_PATH || '/tmp/baseline';
 
 // Clients
 const sfnClient = new SFNClient({ region: AWS_REGION });
@@ -127,6 +174,20 @@ async function runVideoRecording(): Promise<void> {
   log(`Audio Prefix: ${AUDIO_S3_PREFIX}`);
   log(`Use simple recording: ${USE_SIMPLE_RECORDING}`);
   log(`Enable audio playback: ${ENABLE_AUDIO_PLAYBACK}`);
+  log(`Manifest Key: ${MANIFEST_S3_KEY}`);
+  log(`Burn captions: ${BURN_CAPTIONS}`);
+  log(`Chapter grouping: ${CHAPTER_GROUPING}`);
+  log(`Auto zoom: ${AUTO_ZOOM}`);
+  log(`Typing animation: ${TYPING_ANIMATION}`);
+  log(`Lower thirds: ${LOWER_THIRDS}, step callouts: ${STEP_CALLOUTS}`);
+  log(`Music bed: ${MUSIC_S3_KEY || 'none'}`);
+  log(`Loudness target: ${LOUDNESS_TARGET ?? 'default'} LUFS`);
+  log(`Renditions: ${RENDITIONS.join(', ') || 'none'}`);
+  log(`Extra locales: ${LOCALES.join(', ') || 'none'}`);
+  log(`Dead-time trimming: ${DEAD_TIME || 'off'}`);
+  log(`Visual diff threshold: ${VISUAL_DIFF_THRESHOLD}`);
+  log(`Branded bumpers: ${BRANDING ? 'yes' : 'no'}`);
+  log(`Cursor overlay: ${CURSOR_OVERLAY} (highlight high importance: ${HIGHLIGHT_HIGH_IMPORTANCE})`);
   log(`Node version: ${process.version}`);
   log(`Platform: ${process.platform}`);
   log(`Memory usage: ${JSON.stringify(process.memoryUsage())}`);
@@ -180,11 +241,110 @@ async function runVideoRecording(): Promise<void> {
       log('No audio prefix provided, skipping audio download');
     }
 
+    // Download manifest (narration text for captions)
+    let manifest: ManifestStep[] = [];
+    if (MANIFEST_S3_KEY) {
+      log('Downloading manifest from S3...');
+      try {
+        manifest = JSON.parse(await getTextFromS3(S3_BUCKET, MANIFEST_S3_KEY));
+        log(`Downloaded manifest (${manifest.length} steps)`);
+      } catch (manifestError) {
+        log(`Failed to download manifest: ${manifestError}`);
+        log('Continuing without captions');
+      }
+    } else {
+      log('No manifest key provided, captions will be skipped');
+    }
+
+    // Redaction rules - refuse to record if they cannot be read
+    let redactions: RedactionRule[] = [];
+    if (REDACTIONS) {
+      try {
+        redactions = JSON.parse(REDACTIONS);
+        log(`Loaded ${redactions.length} redaction rules`);
+      } catch (redactionError) {
+        throw new Error(`Invalid REDACTIONS: ${redactionError}`);
+      }
+    }
+
+    // Download the music bed - the video is still usable without it
+    let musicPath = '';
+    if (MUSIC_S3_KEY) {
+      log('Downloading music bed from S3...');
+      try {
+        musicPath = path.join(MUSIC_DIR, path.basename(MUSIC_S3_KEY));
+        await downloadFromS3(S3_BUCKET, MUSIC_S3_KEY, musicPath);
+        log(`Downloaded music bed to ${musicPath}`);
+      } catch (musicError) {
+        log(`Failed to download music bed: ${musicError}`);
+        log('Continuing without music');
+        musicPath = '';
+      }
+    }
+
+    // Branding for the intro/outro cards - the video is still usable without them
+    let branding: BrandingOptions | undefined;
+    if (BRANDING) {
+      try {
+        const settings = JSON.parse(BRANDING);
+        branding = {
+          title: PROJECT_NAME || 'Walkthrough',
+          primaryColor: settings.primaryColor,
+          backgroundColor: settings.backgroundColor,
+          textColor: settings.textColor,
+          fontFamily: settings.fontFamily,
+          outroText: settings.outroText,
+          outroSubtext: settings.outroSubtext || undefined,
+        };
+        if (settings.logoS3Key) {
+          const logoPath = path.join(BRANDING_DIR, path.basename(settings.logoS3Key));
+          try {
+            await downloadFromS3(S3_BUCKET, settings.logoS3Key, logoPath);
+            branding.logoPath = logoPath;
+          } catch (logoError) {
+            log(`Failed to download logo: ${logoError}`);
+          }
+        }
+        if (settings.introNarration) {
+          const introNarrationPath = path.join(AUDIO_DIR, 'intro.mp3');
+          try {
+            await access(introNarrationPath);
+            branding.introNarrationPath = introNarrationPath;
+          } catch {
+            log('No intro narration, intro card will be silent');
+          }
+        }
+        log(`Loaded branding (logo: ${branding.logoPath ? 'yes' : 'no'})`);
+      } catch (brandingError) {
+        log(`Invalid BRANDING, continuing without bumpers: ${brandingError}`);
+        branding = undefined;
+      }
+    }
+
     // Prepare recording config
     const cleanTenantId = TENANT_ID.replace('TENANT#', '');
     const outputVideoS3Key = `videos/${cleanTenantId}/${PROJECT_ID}/recording.mp4`;
     log(`Output video S3 key: ${outputVideoS3Key}`);
 
+    // Screenshots of the previous successful render - without them this render becomes the first baseline
+    const rendersPrefix = `videos/${cleanTenantId}/${PROJECT_ID}/renders`;
+    const visualDiff: VisualDiffOptions = {
+      renderId: new Date().toISOString().replace(/[:.]/g, '-'),
+      threshold: Number.isFinite(VISUAL_DIFF_THRESHOLD) ? VISUAL_DIFF_THRESHOLD : DEFAULT_VISUAL_DIFF_THRESHOLD,
+    };
+    try {
+      const { renderId: baselineRenderId } = JSON.parse(await getTextFromS3(S3_BUCKET, `${rendersPrefix}/latest.json`));
+      const screenshots: StepScreenshot[] = JSON.parse(await getTextFromS3(S3_BUCKET, `${rendersPrefix}/${baselineRenderId}/screenshots.json`));
+      for (const screenshot of screenshots) {
+        await downloadFromS3(S3_BUCKET, `${rendersPrefix}/${baselineRenderId}/${screenshot.file}`, path.join(BASELINE_DIR, screenshot.file));
+      }
+      visualDiff.baselineDir = BASELINE_DIR;
+      visualDiff.baselineRenderId = baselineRenderId;
+      log(`Downloaded ${screenshots.length} baseline screenshots from render ${baselineRenderId}`);
+    } catch (baselineError) {
+      log(`No baseline screenshots, skipping the visual comparison: ${baselineError}`);
+    }
+
     const config: VideoRecordingConfig = {
       projectId: PROJECT_ID,
       tenantId: TENANT_ID,
@@ -197,6 +357,37 @@ async function runVideoRecording(): Promise<void> {
       height: 1080,
       fps: 30,
       enableAudioPlayback: ENABLE_AUDIO_PLAYBACK,
+      burnCaptions: BURN_CAPTIONS,
+      chapterGrouping: CHAPTER_GROUPING,
+      cursorOverlay: CURSOR_OVERLAY
+        ? {
+            highlightStepIds: HIGHLIGHT_HIGH_IMPORTANCE
+              ? manifest.filter(step => step.importance === 'high').map(step => step.step_id)
+              : [],
+          }
+        : undefined,
+      autoZoom: AUTO_ZOOM,
+      typing: TYPING_ANIMATION
+        ? { sensitiveStepIds: manifest.filter(step => step.sensitive).map(step => step.step_id) }
+        : undefined,
+      redactions,
+      music: musicPath
+        ? {
+            localPath: musicPath,
+            volume: Number.isFinite(MUSIC_VOLUME) ? MUSIC_VOLUME : 0.15,
+            fadeInMs: Number.isFinite(MUSIC_FADE_IN_MS) ? MUSIC_FADE_IN_MS : 1500,
+            fadeOutMs: Number.isFinite(MUSIC_FADE_OUT_MS) ? MUSIC_FADE_OUT_MS : 3000,
+          }
+        : undefined,
+      renditions: RENDITIONS,
+      locales: LOCALES,
+      deadTime: DEAD_TIME,
+      visualDiff,
+      branding,
+      overlays: LOWER_THIRDS || STEP_CALLOUTS
+        ? { lowerThirds: LOWER_THIRDS, callouts: STEP_CALLOUTS, accentColor: branding?.primaryColor }
+        : undefined,
+      loudnessTarget: LOUDNESS_TARGET !== undefined && Number.isFinite(LOUDNESS_TARGET) ? LOUDNESS_TARGET : undefined,
     };
 
     // Set synced script in environment for the recorder
@@ -213,7 +404,7 @@ async function runVideoRecording(): Promise<void> {
 
     if (USE_SIMPLE_RECORDING) {
       log('Using SIMPLE recording mode');
-      result = await recordVideoSimple(config, syncedScript);
+      result = await recordVideoSimple(config, syncedScript, manifest);
     } else {
       log('Using FULL recording mode');
       try {
@@ -221,7 +412,7 @@ async function runVideoRecording(): Promise<void> {
       } catch (primaryError) {
         log(`Full recording failed: ${primaryError}`);
         log('Attempting simple fallback...');
-        result = await recordVideoSimple(config, syncedScript);
+        result = await recordVideoSimple(config, syncedScript, manifest);
       }
     }
 
@@ -255,6 +446,42 @@ async function runVideoRecording(): Promise<void> {
     // Upload video to S3
     if (result.success) {
       log('Recording successful, preparing upload...');
+
+      // Screenshots and the visual diff go first: the project is marked complete as soon as the video appears
+      const visualDiffKey = `videos/${cleanTenantId}/${PROJECT_ID}/visual-diff.json`;
+      if (result.renderDir) {
+        try {
+          const uploadedKeys = await uploadDirectoryToS3(result.renderDir, S3_BUCKET, `${rendersPrefix}/${visualDiff.renderId}`);
+          await uploadToS3(path.join(result.renderDir, 'visual-diff.json'), S3_BUCKET, visualDiffKey, 'application/json');
+          log(`Uploaded ${uploadedKeys.length} render files to: s3://${S3_BUCKET}/${rendersPrefix}/${visualDiff.renderId}/`);
+        } catch (renderError) {
+          log(`Render screenshots upload failed: ${renderError}`);
+          result.renderDir = undefined;
+        }
+      }
+      // Without a report of its own, an earlier render's would be stored as this one's
+      if (!result.renderDir) {
+        try {
+          await deleteFromS3(S3_BUCKET, visualDiffKey);
+        } catch (deleteError) {
+          log(`Could not remove the previous visual diff: ${deleteError}`);
+        }
+      }
+
+      // Poster, sprite sheet and animated preview also go before the video: the project
+      // records whether previews exist when it is marked complete
+      const previewsPrefix = `videos/${cleanTenantId}/${PROJECT_ID}`;
+      await removeStaleArtifacts('previews', [], [`${previewsPrefix}/previews/`]);
+      if (result.previewsDir) {
+        try {
+          const uploadedKeys = await uploadDirectoryToS3(result.previewsDir, S3_BUCKET, previewsPrefix);
+          log(`Uploaded ${uploadedKeys.length} preview files to: s3://${S3_BUCKET}/${previewsPrefix}/previews/`);
+        } catch (previewsError) {
+          log(`Previews upload failed: ${previewsError}`);
+          await removeStaleArtifacts('previews', [], [`${previewsPrefix}/previews/`]);
+        }
+      }
+
       const fallbackMp4 = path.join(VIDEO_DIR, `${PROJECT_ID}_raw.mp4`);
       const fallbackWebm = path.join(VIDEO_DIR, `${PROJECT_ID}_raw.webm`);
       
@@ -267,6 +494,7 @@ async function runVideoRecording(): Promise<void> {
         : outputVideoS3Key;
       const contentType = hasWebmExt ? 'video/webm' : 'video/mp4';
 
+      let videoUploaded = false;
       log(`Attempting upload from: ${localVideoPath}`);
       log(`Upload key: ${uploadKey}`);
       log(`Content type: ${contentType}`);
@@ -280,33 +508,143 @@ async function runVideoRecording(): Promise<void> {
         log('Starting S3 upload...');
         await uploadToS3(localVideoPath, S3_BUCKET, uploadKey, contentType);
         result.videoS3Key = uploadKey;
+        videoUploaded = true;
         log(`Video uploaded to: s3://${S3_BUCKET}/${uploadKey}`);
       } catch (uploadError) {
         log(`Primary upload failed from ${localVideoPath}: ${uploadError}`);
         
-        // Try to find any video file in the directory
-        log('Searching for any video file in directory...');
-        try {
-          const videoFiles = await readdir(VIDEO_DIR);
-          const anyVideo = videoFiles.find(f => f.endsWith('.webm') || f.endsWith('.mp4'));
-          if (anyVideo) {
-            const anyVideoPath = path.join(VIDEO_DIR, anyVideo);
-            const isWebm = anyVideo.endsWith('.webm');
-            const finalKey = isWebm ? outputVideoS3Key.replace(/\.mp4$/, '.webm') : outputVideoS3Key;
-            const finalContentType = isWebm ? 'video/webm' : 'video/mp4';
+        // Try to find any video file in the directory - unless a leftover could be unredacted
+        if (redactions.length > 0) {
+          log('Redactions are configured, not falling back to other video files');
+        } else {
+          log('Searching for any video file in directory...');
+          try {
+            const videoFiles = await readdir(VIDEO_DIR);
+            const anyVideo = videoFiles.find(f => f.endsWith('.webm') || f.endsWith('.mp4'));
+            if (anyVideo) {
+              const anyVideoPath = path.join(VIDEO_DIR, anyVideo);
+              const isWebm = anyVideo.endsWith('.webm');
+              const finalKey = isWebm ? outputVideoS3Key.replace(/\.mp4$/, '.webm') : outputVideoS3Key;
+              const finalContentType = isWebm ? 'video/webm' : 'video/mp4';
             
-            log(`Found video file: ${anyVideoPath}`);
-            const fileStat = await stat(anyVideoPath);
-            log(`File size: ${fileStat.size} bytes`);
+              log(`Found video file: ${anyVideoPath}`);
+              const fileStat = await stat(anyVideoPath);
+              log(`File size: ${fileStat.size} bytes`);
             
-            await uploadToS3(anyVideoPath, S3_BUCKET, finalKey, finalContentType);
-            result.videoS3Key = finalKey;
-            log(`Uploaded discovered video to: s3://${S3_BUCKET}/${finalKey}`);
-          } else {
-            log('No video files found in directory');
+              await uploadToS3(anyVideoPath, S3_BUCKET, finalKey, finalContentType);
+              result.videoS3Key = finalKey;
+              videoUploaded = true;
+              log(`Uploaded discovered video to: s3://${S3_BUCKET}/${finalKey}`);
+            } else {
+              log('No video files found in directory');
+            }
+          } catch (fallbackError) {
+            log(`Fallback upload also failed: ${fallbackError}`);
           }
-        } catch (fallbackError) {
-          log(`Fallback upload also failed: ${fallbackError}`);
+        }
+      }
+
+      // This render becomes the baseline for the next one once its video is stored
+      if (result.renderDir && videoUploaded) {
+        const pointerPath = path.join(result.renderDir, 'latest.json');
+        try {
+          await writeFile(pointerPath, JSON.stringify({ renderId: visualDiff.renderId }), 'utf-8');
+          await uploadToS3(pointerPath, S3_BUCKET, `${rendersPrefix}/latest.json`, 'application/json');
+        } catch (pointerError) {
+          log(`Could not update the baseline render: ${pointerError}`);
+        }
+      }
+
+      // Upload caption tracks next to the video
+      const captionPrefix = `videos/${cleanTenantId}/${PROJECT_ID}`;
+      let captionsUploaded = false;
+      if (result.captionFiles) {
+        try {
+          await uploadToS3(result.captionFiles.vtt, S3_BUCKET, `${captionPrefix}/captions.vtt`, 'text/vtt');
+          await uploadToS3(result.captionFiles.srt, S3_BUCKET, `${captionPrefix}/captions.srt`, 'application/x-subrip');
+          captionsUploaded = true;
+          log(`Captions uploaded to: s3://${S3_BUCKET}/${captionPrefix}/captions.{vtt,srt}`);
+        } catch (captionError) {
+          log(`Caption upload failed: ${captionError}`);
+        }
+      }
+      if (!captionsUploaded) {
+        await removeStaleArtifacts('captions', [`${captionPrefix}/captions.vtt`, `${captionPrefix}/captions.srt`]);
+      }
+
+      // Upload chapters for the player's table of contents
+      const chaptersKey = `videos/${cleanTenantId}/${PROJECT_ID}/chapters.json`;
+      let chaptersUploaded = false;
+      if (result.chaptersFile) {
+        try {
+          await uploadToS3(result.chaptersFile, S3_BUCKET, chaptersKey, 'application/json');
+          chaptersUploaded = true;
+          log(`Chapters uploaded to: s3://${S3_BUCKET}/${chaptersKey}`);
+        } catch (chaptersError) {
+          log(`Chapters upload failed: ${chaptersError}`);
+        }
+      }
+      if (!chaptersUploaded) {
+        await removeStaleArtifacts('chapters', [chaptersKey]);
+      }
+
+      // Upload step timings for diagnosing slow steps and narration overlap
+      if (result.timingsFile) {
+        const timingsKey = `videos/${cleanTenantId}/${PROJECT_ID}/timings.json`;
+        try {
+          await uploadToS3(result.timingsFile, S3_BUCKET, timingsKey, 'application/json');
+          log(`Step timings uploaded to: s3://${S3_BUCKET}/${timingsKey}`);
+        } catch (timingsError) {
+          log(`Step timings upload failed: ${timingsError}`);
+        }
+      }
+
+      // Upload the loudness report shown in the project
+      if (result.loudnessFile) {
+        const loudnessKey = `videos/${cleanTenantId}/${PROJECT_ID}/loudness.json`;
+        try {
+          await uploadToS3(result.loudnessFile, S3_BUCKET, loudnessKey, 'application/json');
+          log(`Loudness report uploaded to: s3://${S3_BUCKET}/${loudnessKey}`);
+        } catch (loudnessError) {
+          log(`Loudness report upload failed: ${loudnessError}`);
+        }
+      }
+
+      // Upload renditions, HLS playlists/segments and their index. The earlier render's
+      // go first: its segment names would otherwise survive next to the new playlists.
+      const renditionsPrefix = `videos/${cleanTenantId}/${PROJECT_ID}`;
+      const removeRenditions = () => removeStaleArtifacts(
+        'renditions',
+        [`${renditionsPrefix}/renditions.json`],
+        [`${renditionsPrefix}/renditions/`, `${renditionsPrefix}/hls/`]
+      );
+      await removeRenditions();
+      if (result.renditionsDir) {
+        try {
+          const uploadedKeys = await uploadDirectoryToS3(result.renditionsDir, S3_BUCKET, renditionsPrefix);
+          log(`Uploaded ${uploadedKeys.length} rendition files to: s3://${S3_BUCKET}/${renditionsPrefix}/`);
+        } catch (renditionsError) {
+          log(`Renditions upload failed: ${renditionsError}`);
+          await removeRenditions();
+        }
+      }
+
+      // Upload localized variants (video, captions, chapters) and their index, in place of
+      // the earlier render's: a locale dropped from the project must not stay listed
+      const localesPrefix = `videos/${cleanTenantId}/${PROJECT_ID}`;
+      const removeLocales = () => removeStaleArtifacts(
+        'locale variants',
+        [`${localesPrefix}/locales.json`],
+        [`${localesPrefix}/locales/`]
+      );
+      await removeLocales();
+      if (result.localesDir) {
+        try {
+          const uploadedKeys = await uploadDirectoryToS3(result.localesDir, S3_BUCKET, localesPrefix);
+          log(`Uploaded ${uploadedKeys.length} locale files to: s3://${S3_BUCKET}/${localesPrefix}/locales/`);
+        } catch (localesError) {
+          log(`Locale variants upload failed: ${localesError}`);
+          await removeLocales();
         }
       }
     } else {
@@ -343,6 +681,19 @@ async function runVideoRecording(): Promise<void> {
   }
 }
 
+/**
+ * Remove artifacts an earlier render left at keys (or under prefixes) this render does
+ * not write, so the project never serves output that belongs to another video
+ */
+async function removeStaleArtifacts(label: string, keys: string[], prefixes: string[] = []): Promise<void> {
+  try {
+    for (const key of keys) await deleteFromS3(S3_BUCKET, key);
+    for (const prefix of prefixes) await deletePrefixFromS3(S3_BUCKET, prefix);
+  } catch (error) {
+    log(`Could not remove stale ${label}: ${error}`);
+  }
+}
+
 /**
  * Demo script for testing without S3
  */
@@ -0,0 +1,73 @@
+// 19-10-26: Created EBU R128 loudness normalisation helpers (two-pass loudnorm)
+// Phase 5: Every video plays back at the same level regardless of step count
+
+import { LoudnessReport } from './types';
+
+export const DEFAULT_LOUDNESS_TARGET = -16;  // LUFS, common for web/podcast delivery
+const TRUE_PEAK_DB = -1.5;
+const LOUDNESS_RANGE = 11;
+
+/**
+ * Values printed by loudnorm with print_format=json (ffmpeg prints them as strings)
+ */
+export interface LoudnormMeasurement {
+  input_i: string;
+  input_tp: string;
+  input_lra: string;
+  input_thresh: string;
+  output_i: string;
+  output_tp: string;
+  output_lra: string;
+  target_offset: string;
+}
+
+/**
+ * loudnorm filter for the analysis pass, or - given the first pass's
+ * measurement - the linear correction pass
+ */
+export function buildLoudnormFilter(targetLufs: number, measured?: LoudnormMeasurement): string {
+  const params = [`I=${targetLufs}`, `TP=${TRUE_PEAK_DB}`, `LRA=${LOUDNESS_RANGE}`];
+  if (measured) {
+    params.push(
+      `measured_I=${measured.input_i}`,
+      `measured_TP=${measured.input_tp}`,
+      `measured_LRA=${measured.input_lra}`,
+      `measured_thresh=${measured.input_thresh}`,
+      `offset=${measured.target_offset}`,
+      'linear=true'
+    );
+  }
+  params.push('print_format=json');
+  return `loudnorm=${params.join(':')}`;
+}
+
+/**
+ * Extract the JSON block loudnorm prints at the end of FFmpeg's stderr
+ */
+export function parseLoudnormOutput(stderr: string): LoudnormMeasurement {
+  const start = stderr.lastIndexOf('{');
+  const end = stderr.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    throw new Error('No loudnorm measurement in FFmpeg output');
+  }
+  const measurement = JSON.parse(stderr.slice(start, end + 1)) as LoudnormMeasurement;
+  if (!Number.isFinite(parseFloat(measurement.input_i))) {
+    // Silent input measures as -inf and cannot be normalised
+    throw new Error(`Unmeasurable loudness: ${measurement.input_i}`);
+  }
+  return measurement;
+}
+
+/**
+ * Loudness report from the correction pass (its input_* values are the first pass's
+ * measurement, its output_* values the mastered result)
+ */
+export function toLoudnessReport(targetLufs: number, measured: LoudnormMeasurement): LoudnessReport {
+  return {
+    targetLufs,
+    integratedLufs: parseFloat(measured.output_i),
+    truePeakDb: parseFloat(measured.output_tp),
+    loudnessRange: parseFloat(measured.output_lra),
+    inputIntegratedLufs: parseFloat(measured.input_i),
+  };
+}
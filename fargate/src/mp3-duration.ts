@@ -0,0 +1,173 @@
+// 19-10-26: Created MP3 frame parser for exact narration durations (shared logic with the frontend audio route)
+// Copy of frontend/lib/mp3-duration.ts (the packages share no code): keep both files in sync
+
+export interface Mp3Info {
+  durationMs: number;
+  sampleRate: number;
+  frameCount: number;
+  method: 'xing' | 'vbri' | 'frames';
+}
+
+interface FrameHeader {
+  versionIndex: number;   // 0 = MPEG 2.5, 2 = MPEG 2, 3 = MPEG 1
+  layer: number;          // 1, 2 or 3
+  bitrate: number;        // bits per second
+  sampleRate: number;
+  samplesPerFrame: number;
+  frameLength: number;    // bytes, including header
+  channelMode: number;    // 3 = mono
+}
+
+// Bitrates in kbps indexed by [table][bitrateIndex]
+const BITRATES: number[][] = [
+  [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],  // MPEG 1 Layer 1
+  [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],     // MPEG 1 Layer 2
+  [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],      // MPEG 1 Layer 3
+  [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],     // MPEG 2/2.5 Layer 1
+  [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],          // MPEG 2/2.5 Layer 2 & 3
+];
+
+// Sample rates indexed by [versionIndex][sampleRateIndex]
+const SAMPLE_RATES: Record<number, number[]> = {
+  0: [11025, 12000, 8000],
+  2: [22050, 24000, 16000],
+  3: [44100, 48000, 32000],
+};
+
+function parseFrameHeader(data: Uint8Array, offset: number): FrameHeader | null {
+  if (offset + 4 > data.length) return null;
+  if (data[offset] !== 0xff || (data[offset + 1] & 0xe0) !== 0xe0) return null;
+
+  const versionIndex = (data[offset + 1] >> 3) & 0x03;
+  const layerIndex = (data[offset + 1] >> 1) & 0x03;
+  const bitrateIndex = (data[offset + 2] >> 4) & 0x0f;
+  const sampleRateIndex = (data[offset + 2] >> 2) & 0x03;
+  const padding = (data[offset + 2] >> 1) & 0x01;
+  const channelMode = (data[offset + 3] >> 6) & 0x03;
+
+  // Reserved / free-format values cannot be measured
+  if (versionIndex === 1 || layerIndex === 0 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null;
+  }
+
+  const layer = 4 - layerIndex;
+  const isMpeg1 = versionIndex === 3;
+  const table = isMpeg1 ? layer - 1 : layer === 1 ? 3 : 4;
+  const bitrate = BITRATES[table][bitrateIndex] * 1000;
+  const sampleRate = SAMPLE_RATES[versionIndex][sampleRateIndex];
+
+  let samplesPerFrame: number;
+  let frameLength: number;
+  if (layer === 1) {
+    samplesPerFrame = 384;
+    frameLength = (Math.floor((12 * bitrate) / sampleRate) + padding) * 4;
+  } else {
+    samplesPerFrame = layer === 3 && !isMpeg1 ? 576 : 1152;
+    frameLength = Math.floor((samplesPerFrame / 8) * bitrate / sampleRate) + padding;
+  }
+
+  return { versionIndex, layer, bitrate, sampleRate, samplesPerFrame, frameLength, channelMode };
+}
+
+function readUint32(data: Uint8Array, offset: number): number {
+  return ((data[offset] << 24) | (data[offset + 1] << 16) | (data[offset + 2] << 8) | data[offset + 3]) >>> 0;
+}
+
+function matchesTag(data: Uint8Array, offset: number, tag: string): boolean {
+  if (offset + tag.length > data.length) return false;
+  for (let i = 0; i < tag.length; i++) {
+    if (data[offset + i] !== tag.charCodeAt(i)) return false;
+  }
+  return true;
+}
+
+// Skip an ID3v2 tag at the start of the file, if present
+function skipId3v2(data: Uint8Array): number {
+  if (!matchesTag(data, 0, 'ID3') || data.length < 10) return 0;
+  const size = ((data[6] & 0x7f) << 21) | ((data[7] & 0x7f) << 14) | ((data[8] & 0x7f) << 7) | (data[9] & 0x7f);
+  const hasFooter = (data[5] & 0x10) !== 0;
+  return 10 + size + (hasFooter ? 10 : 0);
+}
+
+// Find the first frame that is followed by another valid frame to avoid false syncs
+function findFirstFrame(data: Uint8Array, start: number): { offset: number; header: FrameHeader } | null {
+  for (let offset = start; offset < data.length - 4; offset++) {
+    const header = parseFrameHeader(data, offset);
+    if (!header) continue;
+    const nextOffset = offset + header.frameLength;
+    if (nextOffset >= data.length || parseFrameHeader(data, nextOffset)) {
+      return { offset, header };
+    }
+  }
+  return null;
+}
+
+function toInfo(frameCount: number, header: FrameHeader, method: Mp3Info['method']): Mp3Info {
+  return {
+    durationMs: Math.round((frameCount * header.samplesPerFrame * 1000) / header.sampleRate),
+    sampleRate: header.sampleRate,
+    frameCount,
+    method,
+  };
+}
+
+/**
+ * Measure an MP3 stream. Uses the Xing/Info or VBRI header frame count when
+ * present, otherwise walks every frame.
+ */
+export function parseMp3(data: Uint8Array): Mp3Info {
+  const first = findFirstFrame(data, skipId3v2(data));
+  if (!first) {
+    throw new Error('No MPEG audio frames found');
+  }
+  const { offset, header } = first;
+
+  // Xing/Info header sits after the side information of the first frame
+  const isMono = header.channelMode === 3;
+  const sideInfoSize = header.versionIndex === 3 ? (isMono ? 17 : 32) : (isMono ? 9 : 17);
+  const xingOffset = offset + 4 + sideInfoSize;
+  if (matchesTag(data, xingOffset, 'Xing') || matchesTag(data, xingOffset, 'Info')) {
+    const flags = readUint32(data, xingOffset + 4);
+    if (flags & 0x01) {
+      const frameCount = readUint32(data, xingOffset + 8);
+      if (frameCount > 0) return toInfo(frameCount, header, 'xing');
+    }
+  }
+
+  // VBRI header is always 32 bytes after the frame header
+  const vbriOffset = offset + 4 + 32;
+  if (matchesTag(data, vbriOffset, 'VBRI')) {
+    const frameCount = readUint32(data, vbriOffset + 14);
+    if (frameCount > 0) return toInfo(frameCount, header, 'vbri');
+  }
+
+  // Frame-by-frame fallback; resync on garbage and stop at an ID3v1 tag
+  let frameCount = 0;
+  let totalMs = 0;
+  let position = offset;
+  while (position < data.length - 4) {
+    if (matchesTag(data, position, 'TAG')) break;
+    const frame = parseFrameHeader(data, position);
+    if (!frame) {
+      position++;
+      continue;
+    }
+    frameCount++;
+    totalMs += (frame.samplesPerFrame * 1000) / frame.sampleRate;
+    position += frame.frameLength;
+  }
+
+  return {
+    durationMs: Math.round(totalMs),
+    sampleRate: header.sampleRate,
+    frameCount,
+    method: 'frames',
+  };
+}
+
+/**
+ * Exact duration of an MP3 buffer in milliseconds
+ */
+export function getMp3DurationMs(data: Uint8Array): number {
+  return parseMp3(data).durationMs;
+}
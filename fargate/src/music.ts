@@ -0,0 +1,51 @@
+// 19-10-26: Sum narration clips without per-input attenuation
+// 19-10-26: Created background music bed with sidechain ducking under narration
+// Phase 5: Fills the silence between narration clips
+
+import { MusicBedOptions } from './types';
+
+const BED_FORMAT = 'aformat=sample_rates=44100:channel_layouts=stereo';
+
+// Compressor keyed by the narration: pulls the bed down hard while someone is speaking
+const DUCKING = 'threshold=0.015:ratio=8:attack=30:release=600';
+
+/**
+ * Filter graph parts that loop the music bed for the whole video, fade it in
+ * and out, duck it under the narration and mix both into [aout].
+ *
+ * @param narrationLabels - Delayed narration streams (e.g. [a1][a2]); may be empty
+ * @param musicInputIndex - FFmpeg input index of the looped music track
+ * @param totalMs - Length of the finished video
+ */
+export function buildMusicBedFilter(
+  narrationLabels: string[],
+  musicInputIndex: number,
+  options: MusicBedOptions,
+  totalMs: number
+): string[] {
+  const total = Math.max(totalMs, 1) / 1000;
+  const fadeIn = Math.min(options.fadeInMs, totalMs / 2) / 1000;
+  const fadeOut = Math.min(options.fadeOutMs, totalMs / 2) / 1000;
+  const volume = Math.min(1, Math.max(0, options.volume));
+
+  const bed = [
+    BED_FORMAT,
+    `volume=${volume.toFixed(3)}`,
+    `atrim=0:${total.toFixed(3)}`,
+    ...(fadeIn > 0 ? [`afade=t=in:st=0:d=${fadeIn.toFixed(3)}`] : []),
+    ...(fadeOut > 0 ? [`afade=t=out:st=${(total - fadeOut).toFixed(3)}:d=${fadeOut.toFixed(3)}`] : []),
+  ].join(',');
+
+  if (narrationLabels.length === 0) {
+    return [`[${musicInputIndex}:a]${bed}[aout]`];
+  }
+
+  return [
+    `[${musicInputIndex}:a]${bed}[bed]`,
+    `${narrationLabels.join('')}amix=inputs=${narrationLabels.length}:duration=longest:normalize=0,${BED_FORMAT},asplit=2[narr][key]`,
+    // The key must last as long as the bed, otherwise the compressor stops at the last clip
+    `[key]apad=whole_dur=${total.toFixed(3)}[keypad]`,
+    `[bed][keypad]sidechaincompress=${DUCKING}[ducked]`,
+    `[narr][ducked]amix=inputs=2:duration=longest:normalize=0[aout]`,
+  ];
+}
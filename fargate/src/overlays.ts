@@ -0,0 +1,158 @@
+// 19-10-26: Draw lower-third text literally so % and \ in narration survive
+// 19-10-26: Localize the step label for narration languages other than English
+// 19-10-26: Created lower-third step titles and arrow callouts timed from step timings
+// Phase 5: Step context drawn over the recording
+
+import { ManifestStep, StepTiming, StepTarget, LowerThirdCue, CalloutCue } from './types';
+import { titleFromNarration } from './chapters';
+
+const OVERLAY_FONT = 'DejaVu Sans';   // Has the arrow glyphs; installed in the recorder image
+const DEFAULT_ACCENT = '#2563eb';
+const LOWER_THIRD_MAX_MS = 5000;
+const LOWER_THIRD_MIN_MS = 1500;
+const LOWER_THIRD_FONT_SIZE = 40;
+const LOWER_THIRD_BOTTOM = 200;       // Text baseline area sits above burned-in captions
+const CALLOUT_LEAD_MS = 300;          // Arrow appears just before the action lands
+const CALLOUT_HOLD_MS = 2500;
+const CALLOUT_PADDING = 12;
+const ARROW_FONT_SIZE = 96;
+
+// "Step 3 of 12" per narration language, keyed by the primary language subtag
+const STEP_LABELS: Record<string, (position: number, total: number) => string> = {
+  en: (position, total) => `Step ${position} of ${total}`,
+  es: (position, total) => `Paso ${position} de ${total}`,
+  fr: (position, total) => `Étape ${position} sur ${total}`,
+  de: (position, total) => `Schritt ${position} von ${total}`,
+  it: (position, total) => `Passo ${position} di ${total}`,
+  pt: (position, total) => `Passo ${position} de ${total}`,
+};
+
+/**
+ * One lower third per recorded step, shown from the step's start for up to
+ * LOWER_THIRD_MAX_MS (or until the next step starts). Step numbers follow the
+ * manifest order so skipped steps do not renumber the rest; the label follows
+ * the narration language.
+ */
+export function buildLowerThirdCues(manifest: ManifestStep[], stepTimings: StepTiming[], locale = 'en'): LowerThirdCue[] {
+  const stepLabel = STEP_LABELS[locale.split('-')[0].toLowerCase()] || STEP_LABELS.en;
+  const stepsById = new Map(manifest.map(step => [step.step_id, step]));
+  const sortedTimings = [...stepTimings].sort((a, b) => a.startTimestamp - b.startTimestamp);
+  const order = manifest.length > 0 ? manifest.map(step => step.step_id) : sortedTimings.map(timing => timing.stepId);
+  const cues: LowerThirdCue[] = [];
+
+  sortedTimings.forEach((timing, index) => {
+    const next = sortedTimings[index + 1];
+    const stepEnd = next ? next.startTimestamp : timing.startTimestamp + Math.max(timing.audioDuration, LOWER_THIRD_MAX_MS);
+    const endMs = Math.min(stepEnd, timing.startTimestamp + LOWER_THIRD_MAX_MS);
+    if (endMs - timing.startTimestamp < LOWER_THIRD_MIN_MS) return;
+
+    const position = order.indexOf(timing.stepId);
+    const label = stepLabel(position === -1 ? index + 1 : position + 1, order.length);
+    const title = titleFromNarration(stepsById.get(timing.stepId)?.narration || '', '');
+    cues.push({
+      stepId: timing.stepId,
+      startMs: timing.startTimestamp,
+      endMs,
+      text: title ? `${label} — ${title}` : label,
+    });
+  });
+
+  return cues;
+}
+
+/**
+ * Arrow callouts for high-importance steps whose target was located during
+ * recording. The arrow sits on whichever side of the target has more room.
+ */
+export function buildCalloutCues(
+  manifest: ManifestStep[],
+  stepTimings: StepTiming[],
+  targets: StepTarget[],
+  options: { viewportWidth: number; viewportHeight: number; videoWidth: number; videoHeight: number }
+): CalloutCue[] {
+  const highImportance = new Set(manifest.filter(step => step.importance === 'high').map(step => step.step_id));
+  const targetsByStep = new Map<number, StepTarget>();
+  for (const target of targets) {
+    if (!targetsByStep.has(target.stepId)) targetsByStep.set(target.stepId, target);
+  }
+
+  const scaleX = options.videoWidth / options.viewportWidth;
+  const scaleY = options.videoHeight / options.viewportHeight;
+  const sortedTimings = [...stepTimings].sort((a, b) => a.startTimestamp - b.startTimestamp);
+  const cues: CalloutCue[] = [];
+
+  sortedTimings.forEach((timing, index) => {
+    const target = targetsByStep.get(timing.stepId);
+    if (!highImportance.has(timing.stepId) || !target || target.box.width <= 0 || target.box.height <= 0) return;
+
+    const next = sortedTimings[index + 1];
+    const startMs = Math.max(timing.startTimestamp, target.timestamp - CALLOUT_LEAD_MS);
+    const endMs = next ? Math.min(startMs + CALLOUT_HOLD_MS, next.startTimestamp) : startMs + CALLOUT_HOLD_MS;
+    if (endMs <= startMs) return;
+
+    const box = {
+      x: Math.round(target.box.x * scaleX),
+      y: Math.round(target.box.y * scaleY),
+      width: Math.round(target.box.width * scaleX),
+      height: Math.round(target.box.height * scaleY),
+    };
+    const roomLeft = box.x;
+    const roomRight = options.videoWidth - (box.x + box.width);
+    cues.push({ stepId: timing.stepId, startMs, endMs, box, side: roomLeft >= roomRight ? 'left' : 'right' });
+  });
+
+  return cues;
+}
+
+function enableBetween(startMs: number, endMs: number): string {
+  return `enable='between(t,${(startMs / 1000).toFixed(3)},${(endMs / 1000).toFixed(3)})'`;
+}
+
+/**
+ * Video filter drawing the callouts: an outline around the target and an arrow
+ * pointing at it. Applied before zoom so both follow the zoomed content.
+ */
+export function buildCalloutFilter(cues: CalloutCue[], width: number, height: number, accentColor = DEFAULT_ACCENT): string {
+  return cues.flatMap(cue => {
+    const enable = enableBetween(cue.startMs, cue.endMs);
+    const outline = {
+      x: Math.max(0, cue.box.x - CALLOUT_PADDING),
+      y: Math.max(0, cue.box.y - CALLOUT_PADDING),
+      width: Math.min(width, cue.box.width + CALLOUT_PADDING * 2),
+      height: Math.min(height, cue.box.height + CALLOUT_PADDING * 2),
+    };
+    const arrowY = Math.min(height - ARROW_FONT_SIZE, Math.max(0, Math.round(cue.box.y + cue.box.height / 2 - ARROW_FONT_SIZE / 2)));
+    const arrowX = cue.side === 'left'
+      ? `'max(0,${outline.x - 8}-text_w)'`
+      : `${Math.min(width - ARROW_FONT_SIZE, outline.x + outline.width + 8)}`;
+    return [
+      `drawbox=x=${outline.x}:y=${outline.y}:w=${outline.width}:h=${outline.height}:color=${accentColor}:t=6:${enable}`,
+      `drawtext=font='${OVERLAY_FONT}':text='${cue.side === 'left' ? '→' : '←'}':fontsize=${ARROW_FONT_SIZE}` +
+        `:fontcolor=${accentColor}:borderw=4:bordercolor=white:x=${arrowX}:y=${arrowY}:${enable}`,
+    ];
+  }).join(',');
+}
+
+/**
+ * Video filter drawing the lower thirds in the bottom-left corner. Text is read from
+ * files (one per cue, keyed by step) so narration needs no filter-graph escaping, and
+ * expansion=none stops drawtext reading % and \ sequences in it.
+ */
+export function buildLowerThirdFilter(
+  cues: LowerThirdCue[],
+  textFiles: Map<number, string>,
+  height: number,
+  accentColor = DEFAULT_ACCENT
+): string {
+  const textY = height - LOWER_THIRD_BOTTOM;
+  return cues.flatMap(cue => {
+    const textFile = textFiles.get(cue.stepId);
+    if (!textFile) return [];
+    const enable = enableBetween(cue.startMs, cue.endMs);
+    return [
+      `drawtext=font='${OVERLAY_FONT}':textfile='${textFile}':expansion=none:fontsize=${LOWER_THIRD_FONT_SIZE}:fontcolor=white` +
+        `:box=1:boxcolor=black@0.65:boxborderw=20:x=84:y=${textY}:${enable}`,
+      `drawbox=x=56:y=${textY - 20}:w=8:h=${LOWER_THIRD_FONT_SIZE + 40}:color=${accentColor}:t=fill:${enable}`,
+    ];
+  }).join(',');
+}
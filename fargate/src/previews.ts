@@ -0,0 +1,77 @@
+// 19-10-26: Created poster frame, scrubbing sprite sheet and animated preview planning
+// Phase 5: Visual previews for the projects list and completion screen
+
+import { ManifestStep, StepTiming, PreviewInfo } from './types';
+
+const IMPORTANCE_RANK: Record<ManifestStep['importance'], number> = { high: 3, medium: 2, low: 1 };
+
+const POSTER_OFFSET_MS = 1000;         // Into the step, after the page has reacted to the action
+const SPRITE_TILE_WIDTH = 160;
+const SPRITE_TILE_HEIGHT = 90;
+const SPRITE_COLUMNS = 10;
+const SPRITE_MAX_TILES = 100;
+const SPRITE_MIN_INTERVAL_MS = 2000;
+const PREVIEW_FRAMES = 48;
+export const PREVIEW_FPS = 8;          // 48 frames play back in 6 seconds
+const PREVIEW_WIDTH = 480;
+
+/**
+ * Poster timestamp: shortly into the highest-importance step (earliest on ties),
+ * kept inside the video
+ */
+export function selectPosterTimestamp(
+  manifest: ManifestStep[],
+  stepTimings: StepTiming[],
+  videoDurationMs: number
+): { stepId?: number; timestampMs: number } {
+  const importance = new Map(manifest.map(step => [step.step_id, IMPORTANCE_RANK[step.importance] || 0]));
+  const best = [...stepTimings]
+    .sort((a, b) => (importance.get(b.stepId) || 0) - (importance.get(a.stepId) || 0) || a.startTimestamp - b.startTimestamp)[0];
+
+  const lastFrameMs = Math.max(0, videoDurationMs - 100);
+  if (!best) return { timestampMs: Math.min(POSTER_OFFSET_MS, lastFrameMs) };
+
+  const offset = Math.min(POSTER_OFFSET_MS, best.audioDuration > 0 ? best.audioDuration / 2 : POSTER_OFFSET_MS);
+  return { stepId: best.stepId, timestampMs: Math.round(Math.min(best.startTimestamp + offset, lastFrameMs)) };
+}
+
+/**
+ * Sprite sheet layout: one tile per interval, at most SPRITE_MAX_TILES tiles
+ */
+export function planSpriteSheet(videoDurationMs: number): Omit<PreviewInfo, 'posterTimestampMs' | 'posterStepId'> {
+  const intervalMs = Math.max(SPRITE_MIN_INTERVAL_MS, Math.ceil(videoDurationMs / SPRITE_MAX_TILES / 1000) * 1000);
+  const tileCount = Math.max(1, Math.ceil(videoDurationMs / intervalMs));
+  return {
+    intervalMs,
+    tileCount,
+    columns: Math.min(SPRITE_COLUMNS, tileCount),
+    rows: Math.ceil(tileCount / SPRITE_COLUMNS),
+    tileWidth: SPRITE_TILE_WIDTH,
+    tileHeight: SPRITE_TILE_HEIGHT,
+  };
+}
+
+/**
+ * Video filter producing the sprite sheet as a single image
+ */
+export function buildSpriteFilter(sprite: ReturnType<typeof planSpriteSheet>): string {
+  return [
+    `fps=1000/${sprite.intervalMs}`,
+    `scale=${sprite.tileWidth}:${sprite.tileHeight}:force_original_aspect_ratio=decrease`,
+    `pad=${sprite.tileWidth}:${sprite.tileHeight}:(ow-iw)/2:(oh-ih)/2`,
+    `tile=${sprite.columns}x${sprite.rows}`,
+  ].join(',');
+}
+
+/**
+ * Video filter for the animated preview: a time-lapse of evenly spaced frames
+ * across the whole video
+ */
+export function buildPreviewFilter(videoDurationMs: number): string {
+  const sampleFps = PREVIEW_FRAMES / Math.max(videoDurationMs / 1000, 1);
+  return [
+    `fps=${sampleFps.toFixed(4)}`,
+    `setpts=N/(${PREVIEW_FPS}*TB)`,
+    `scale=${PREVIEW_WIDTH}:-2:flags=lanczos`,
+  ].join(',');
+}
@@ -0,0 +1,168 @@
+// 19-10-26: Created redaction of sensitive data (in-page blur while recording, region blur in post-processing)
+// Phase 5: Recordings are shared externally, so credentials and customer data must not be readable
+
+import { RedactionRule, RedactionWindow, StepTiming } from './types';
+
+const BLUR_CLASS = '__pw-redact';
+
+/**
+ * Browser-side script that blurs elements matching the selector rules and any
+ * text or input value matching the text rules, including content added later.
+ */
+function buildRedactionScript(rules: RedactionRule[]): string {
+  const selectors = rules.flatMap(rule => rule.type === 'selector' ? [rule.selector] : []);
+  const patterns = rules.flatMap(rule => rule.type === 'text' ? [{ source: rule.pattern, flags: rule.flags || '' }] : []);
+
+  return `
+(() => {
+  if (window.__pwRedactInstalled) return;
+  window.__pwRedactInstalled = true;
+
+  const selectors = ${JSON.stringify(selectors)};
+  const patterns = ${JSON.stringify(patterns)}.map((p) => new RegExp(p.source, p.flags.replace('g', '')));
+  const blurClass = ${JSON.stringify(BLUR_CLASS)};
+  const skipTags = ['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEXTAREA'];
+
+  const matches = (text) => patterns.some((pattern) => pattern.test(text));
+
+  const redactTextNode = (node) => {
+    const parent = node.parentElement;
+    if (!parent || skipTags.includes(parent.tagName) || parent.closest('.' + blurClass)) return;
+    if (!matches(node.nodeValue || '')) return;
+    const wrapper = document.createElement('span');
+    wrapper.className = blurClass;
+    parent.replaceChild(wrapper, node);
+    wrapper.appendChild(node);
+  };
+
+  const redactFields = (root) => {
+    const fields = root.querySelectorAll ? root.querySelectorAll('input, textarea') : [];
+    fields.forEach((field) => field.classList.toggle(blurClass, matches(field.value || '')));
+  };
+
+  const redact = (root) => {
+    if (patterns.length === 0) return;
+    if (root.nodeType === Node.TEXT_NODE) {
+      redactTextNode(root);
+      return;
+    }
+    const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+    const nodes = [];
+    while (walker.nextNode()) nodes.push(walker.currentNode);
+    nodes.forEach(redactTextNode);
+    redactFields(root);
+  };
+
+  const install = () => {
+    const style = document.createElement('style');
+    style.textContent = selectors
+      .map((selector) => selector + ' { filter: blur(8px) !important; }')
+      .concat(['.' + blurClass + ' { filter: blur(8px) !important; }'])
+      .join('\\n');
+    document.documentElement.appendChild(style);
+
+    if (patterns.length === 0) return;
+    if (document.body) redact(document.body);
+    new MutationObserver((mutations) => {
+      for (const mutation of mutations) {
+        if (mutation.type === 'characterData') redact(mutation.target);
+        mutation.addedNodes.forEach((node) => redact(node));
+      }
+    }).observe(document.documentElement, { childList: true, characterData: true, subtree: true });
+    document.addEventListener('input', (event) => redactFields(event.target.parentNode || document), true);
+  };
+
+  if (document.readyState === 'loading') document.addEventListener('DOMContentLoaded', install);
+  else install();
+})();
+`;
+}
+
+/**
+ * Helper code injected into the test file to install the in-page redaction on every document
+ */
+export function buildRedactionHelperCode(rules: RedactionRule[]): string {
+  return `
+// === INJECTED REDACTION ===
+const _redactionScript = ${JSON.stringify(buildRedactionScript(rules))};
+
+_injectedPwTest.beforeEach(async ({ page }) => {
+    await page.addInitScript(_redactionScript);
+});
+// === END INJECTED REDACTION ===
+`;
+}
+
+/**
+ * Whether any rule is applied in the page while recording
+ */
+export function hasInPageRedactions(rules: RedactionRule[] = []): boolean {
+  return rules.some(rule => rule.type !== 'region');
+}
+
+/**
+ * Resolve region rules to time windows using the recorded step timings.
+ * A region without step bounds covers the whole video; `toStepId` ends the
+ * window when the following step starts.
+ */
+export function buildRedactionWindows(
+  rules: RedactionRule[],
+  stepTimings: StepTiming[],
+  videoDurationMs: number
+): RedactionWindow[] {
+  const sortedTimings = [...stepTimings].sort((a, b) => a.startTimestamp - b.startTimestamp);
+  const windows: RedactionWindow[] = [];
+
+  for (const rule of rules) {
+    if (rule.type !== 'region' || rule.width <= 0 || rule.height <= 0) continue;
+
+    let startMs = 0;
+    let endMs = videoDurationMs;
+    if (rule.fromStepId !== undefined) {
+      const from = sortedTimings.find(t => t.stepId === rule.fromStepId);
+      if (!from) continue;
+      startMs = from.startTimestamp;
+    }
+    if (rule.toStepId !== undefined) {
+      const toIndex = sortedTimings.findIndex(t => t.stepId === rule.toStepId);
+      if (toIndex === -1) continue;
+      const to = sortedTimings[toIndex];
+      const next = sortedTimings[toIndex + 1];
+      endMs = next ? next.startTimestamp : Math.max(videoDurationMs, to.startTimestamp + to.audioDuration);
+    }
+    if (endMs <= startMs) continue;
+
+    windows.push({
+      x: Math.max(0, Math.round(rule.x)),
+      y: Math.max(0, Math.round(rule.y)),
+      width: Math.round(rule.width),
+      height: Math.round(rule.height),
+      startMs,
+      endMs,
+    });
+  }
+
+  return windows;
+}
+
+/**
+ * FFmpeg filter graph that blurs each window's rectangle during its time range.
+ * Reads [0:v] and writes [vout].
+ */
+export function buildRedactionFilterGraph(windows: RedactionWindow[]): string {
+  const sources = windows.map((_, index) => `[r${index}]`).join('');
+  const parts = [`[0:v]split=${windows.length + 1}[v0]${sources}`];
+
+  windows.forEach((window, index) => {
+    const start = (window.startMs / 1000).toFixed(3);
+    const end = (window.endMs / 1000).toFixed(3);
+    const output = index === windows.length - 1 ? '[vout]' : `[v${index + 1}]`;
+    parts.push(
+      `[r${index}]crop=${window.width}:${window.height}:${window.x}:${window.y},` +
+      `boxblur=luma_radius='min(w,h)/5':luma_power=3:chroma_radius='min(cw,ch)/5':chroma_power=3[b${index}]`
+    );
+    parts.push(`[v${index}][b${index}]overlay=${window.x}:${window.y}:enable='between(t,${start},${end})'${output}`);
+  });
+
+  return parts.join(';');
+}
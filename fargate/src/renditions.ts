@@ -0,0 +1,58 @@
+// 19-10-26: Created output renditions (resolution ladder + vertical crop) and HLS playlists
+// Phase 5: Adaptive streaming and social-ready exports
+
+import { RenditionName, RenditionSpec, Rendition } from './types';
+
+export const RENDITION_SPECS: Record<RenditionName, RenditionSpec> = {
+  '1080p': { name: '1080p', width: 1920, height: 1080, videoBitrateK: 5000, audioBitrateK: 192, hls: true },
+  '720p': { name: '720p', width: 1280, height: 720, videoBitrateK: 2800, audioBitrateK: 128, hls: true },
+  '480p': { name: '480p', width: 854, height: 480, videoBitrateK: 1200, audioBitrateK: 96, hls: true },
+  // 9:16 centre crop for social feeds - a different aspect ratio cannot share the HLS ladder
+  'vertical': { name: 'vertical', width: 1080, height: 1920, videoBitrateK: 4000, audioBitrateK: 128, hls: false },
+};
+
+export const DEFAULT_RENDITIONS: RenditionName[] = ['1080p', '720p', '480p'];
+
+export const HLS_SEGMENT_SECONDS = 6;
+
+/**
+ * Resolve requested rendition names, ignoring unknown ones and duplicates
+ */
+export function resolveRenditionSpecs(names: string[]): RenditionSpec[] {
+  const unique = Array.from(new Set(names.map(name => name.trim())));
+  return unique.flatMap(name => name in RENDITION_SPECS ? [RENDITION_SPECS[name as RenditionName]] : []);
+}
+
+/**
+ * Video filter that fits the source into the rendition's frame.
+ * Landscape renditions scale; the vertical one crops the centre of the frame first.
+ */
+export function buildRenditionFilter(spec: RenditionSpec, sourceWidth: number, sourceHeight: number): string {
+  const filters: string[] = [];
+  const targetAspect = spec.width / spec.height;
+  if (Math.abs(targetAspect - sourceWidth / sourceHeight) > 0.01) {
+    const cropWidth = Math.round((sourceHeight * targetAspect) / 2) * 2;
+    filters.push(`crop=${cropWidth}:${sourceHeight}:${Math.round((sourceWidth - cropWidth) / 2)}:0`);
+  }
+  filters.push(`scale=${spec.width}:${spec.height}:flags=lanczos`, 'setsar=1');
+  return filters.join(',');
+}
+
+/**
+ * HLS master playlist listing the variant playlists, highest bandwidth first
+ */
+export function buildMasterPlaylist(renditions: Rendition[]): string {
+  const lines = ['#EXTM3U', '#EXT-X-VERSION:3'];
+  const variants = renditions
+    .filter(rendition => rendition.playlist)
+    .sort((a, b) => b.bandwidth - a.bandwidth);
+
+  for (const variant of variants) {
+    lines.push(
+      `#EXT-X-STREAM-INF:BANDWIDTH=${variant.bandwidth},RESOLUTION=${variant.width}x${variant.height},CODECS="avc1.640028,mp4a.40.2"`,
+      // Variant playlists live next to the master: hls/<name>/index.m3u8
+      variant.playlist!.replace(/^hls\//, '')
+    );
+  }
+  return lines.join('\n') + '\n';
+}
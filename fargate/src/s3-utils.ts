@@ -1,9 +1,15 @@
+// 19-10-26: Delete everything under a key prefix (stale render output)
+// 19-10-26: Delete a single object (stale per-project reports)
+// 19-10-26: Keep per-locale audio folders when downloading narration; caption content type
+// 19-10-26: Content types for preview images
+// 19-10-26: Upload a directory tree (renditions and HLS segments)
+// 19-10-26: Also download speech mark files next to the audio
 // 07-12-25: Created S3 utilities for video recording container
 // Phase 5: S3 Download/Upload Utilities
 
-import { S3Client, GetObjectCommand, PutObjectCommand, ListObjectsV2Command } from '@aws-sdk/client-s3';
+import { S3Client, GetObjectCommand, PutObjectCommand, DeleteObjectCommand, DeleteObjectsCommand, ListObjectsV2Command } from '@aws-sdk/client-s3';
 import { createWriteStream, createReadStream } from 'fs';
-import { mkdir } from 'fs/promises';
+import { mkdir, readdir } from 'fs/promises';
 import { pipeline } from 'stream/promises';
 import path from 'path';
 import { Readable } from 'stream';
@@ -43,7 +49,7 @@ export async function downloadFromS3(
 }
 
 /**
- * Download all audio files for a project
+ * Download all audio files (and their speech marks) for a project
  */
 export async function downloadAudioFiles(
   bucket: string,
@@ -68,16 +74,17 @@ export async function downloadAudioFiles(
   }
 
   for (const object of listResponse.Contents) {
-    if (!object.Key || !object.Key.endsWith('.mp3')) continue;
+    if (!object.Key || !(object.Key.endsWith('.mp3') || object.Key.endsWith('.marks.json'))) continue;
 
-    const fileName = path.basename(object.Key);
-    const localPath = path.join(localAudioDir, fileName);
+    // Localized narration lives in <locale>/ below the prefix and keeps that folder locally
+    const relativeKey = object.Key.startsWith(audioPrefix) ? object.Key.slice(audioPrefix.length) : path.basename(object.Key);
+    const localPath = path.join(localAudioDir, ...relativeKey.split('/'));
     
     await downloadFromS3(bucket, object.Key, localPath);
     audioFiles.push(localPath);
   }
 
-  console.log(`Downloaded ${audioFiles.length} audio files`);
+  console.log(`Downloaded ${audioFiles.length} audio and speech mark files`);
   return audioFiles;
 }
 
@@ -105,6 +112,44 @@ export async function uploadToS3(
   console.log(`Uploaded: s3://${bucket}/${key}`);
 }
 
+/**
+ * Delete an object from S3 (no error when it does not exist)
+ */
+export async function deleteFromS3(bucket: string, key: string): Promise<void> {
+  await s3Client.send(new DeleteObjectCommand({
+    Bucket: bucket,
+    Key: key,
+  }));
+  console.log(`Deleted: s3://${bucket}/${key}`);
+}
+
+/**
+ * Delete every object under a key prefix. Returns the number of objects deleted.
+ */
+export async function deletePrefixFromS3(bucket: string, prefix: string): Promise<number> {
+  let deleted = 0;
+  let continuationToken: string | undefined;
+  do {
+    const listResponse = await s3Client.send(new ListObjectsV2Command({
+      Bucket: bucket,
+      Prefix: prefix,
+      ContinuationToken: continuationToken,
+    }));
+    const keys = (listResponse.Contents || []).flatMap(object => object.Key ? [{ Key: object.Key }] : []);
+    if (keys.length > 0) {
+      await s3Client.send(new DeleteObjectsCommand({
+        Bucket: bucket,
+        Delete: { Objects: keys, Quiet: true },
+      }));
+      deleted += keys.length;
+    }
+    continuationToken = listResponse.IsTruncated ? listResponse.NextContinuationToken : undefined;
+  } while (continuationToken);
+
+  console.log(`Deleted ${deleted} objects under s3://${bucket}/${prefix}`);
+  return deleted;
+}
+
 /**
  * Get text content from S3
  */
@@ -122,3 +167,35 @@ export async function getTextFromS3(bucket: string, key: string): Promise<string
 
   return await response.Body.transformToString();
 }
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.mp4': 'video/mp4',
+  '.m3u8': 'application/vnd.apple.mpegurl',
+  '.ts': 'video/mp2t',
+  '.json': 'application/json',
+  '.jpg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.vtt': 'text/vtt',
+};
+
+/**
+ * Upload every file below a local directory, keeping relative paths under the key prefix
+ */
+export async function uploadDirectoryToS3(
+  localDir: string,
+  bucket: string,
+  keyPrefix: string
+): Promise<string[]> {
+  const uploadedKeys: string[] = [];
+  const entries = await readdir(localDir, { withFileTypes: true, recursive: true });
+
+  for (const entry of entries) {
+    if (!entry.isFile()) continue;
+    const localPath = path.join(entry.parentPath, entry.name);
+    const key = `${keyPrefix.replace(/\/$/, '')}/${path.relative(localDir, localPath).split(path.sep).join('/')}`;
+    await uploadToS3(localPath, bucket, key, CONTENT_TYPES[path.extname(entry.name)] || 'application/octet-stream');
+    uploadedKeys.push(key);
+  }
+
+  return uploadedKeys;
+}
@@ -1,75 +1,119 @@
+// 19-10-26: Close steps that can return, throw, break or continue early in try/finally
+// 19-10-26: Log an end event after each annotated action for action-completion timing
+// 19-10-26: Per-step pacing (overlap with lead, narrate-then-act, act-then-narrate, hold) in _syncStep
+// 19-10-26: Inject in-page redaction of sensitive selectors and text
+// 19-10-26: Optionally rewrite fill() into human-paced typing with sensitive values masked
+// 19-10-26: Log the bounding box of each interaction target (__TARGET__) for post-production zoom
+// 19-10-26: Optionally inject the cursor overlay and point at the target before each interaction
+// 19-10-26: Report the enclosing test.step title of each attached step for chapter grouping
+// 19-10-26: Rebuilt on the TypeScript compiler API - _syncStep is attached at statement boundaries, unattached metadata is reported
 // 10-12-25: Fixed timing - set _scriptStartTime at first step execution, not module load
 // 09-12-25: Keep script start timestamp stable across tests to avoid overlapping audio
 
-import fs from 'fs';
-import path from 'path';
+import ts from 'typescript';
+import { TransformDiagnostic, TransformResult, TransformOptions, PacingMode } from './types';
+import { buildCursorHelperCode } from './cursor-overlay';
+import { buildRedactionHelperCode, hasInPageRedactions } from './redaction';
 
-/**
- * Transforms a Playwright script by injecting timing synchronization logic.
- * This ensures that actions wait for their corresponding audio duration.
- */
-export function transformScript(scriptContent: string): string {
-  const lines = scriptContent.split('\n');
-  const processedLines: string[] = [];
-  
-  // Helper code to inject at the top of the file
-  const helperCode = `
+const STEP_META_PATTERN = /__STEP_META__:\s*(\{[^}]+\})/;
+
+const PACING_MODES: PacingMode[] = ['overlap', 'narrate-then-act', 'act-then-narrate', 'hold'];
+const MAX_PACING_MS = 10000;
+
+// Interactions whose target element is located before they run
+const POINTER_ACTIONS = new Set([
+  'click', 'dblclick', 'tap', 'hover', 'fill', 'type', 'pressSequentially', 'press',
+  'check', 'uncheck', 'selectOption', 'setInputFiles',
+]);
+
+// Helper code to inject after the imports of the file
+const HELPER_CODE = `
 // === INJECTED HELPER CODE ===
-let _lastStepStart = Date.now();
-let _lastAudioDuration = 0;
+let _lastAudioDuration = 0;   // Narration length of the current step
+let _narrationEnd = 0;        // When the narration playing now ends (epoch ms)
+let _pendingNarration: { stepId: number; audioDuration: number } | null = null;  // act-then-narrate
+let _pendingHoldMs = 0;       // hold: minimum time on screen after the current action
 let _scriptStartTime = 0;  // Will be set at first step execution
 let _firstStepExecuted = false;
+let _currentStepId = 0;
 
 function _resetTimer() {
-    _lastStepStart = Date.now();
     _lastAudioDuration = 0;
+    _narrationEnd = 0;
+    _pendingNarration = null;
+    _pendingHoldMs = 0;
     _scriptStartTime = 0;  // Reset for fresh calculation
     _firstStepExecuted = false;  // Allow re-initialization
     console.log('Timer reset for video synchronization');
 }
 
-async function _waitForFinalAudio(page: any) {
-    if (_lastAudioDuration > 0) {
-        console.log(\`Waiting \${_lastAudioDuration}ms for final audio\`);
-        if (page) await page.waitForTimeout(_lastAudioDuration);
-        else await new Promise(r => setTimeout(r, _lastAudioDuration));
+async function _pause(page: any, ms: number) {
+    if (ms <= 0) return;
+    if (page) await page.waitForTimeout(ms);
+    else await new Promise(r => setTimeout(r, ms));
+}
+
+function _logTiming(stepId: number, type: string) {
+    console.log('__TIMING__:' + JSON.stringify({ stepId, timestamp: Date.now() - _scriptStartTime, type }));
+}
+
+// The previous action has finished: start deferred narration, then wait for the
+// narration and any minimum hold before the next step may begin
+async function _finishStep(page: any) {
+    if (_pendingNarration) {
+        _logTiming(_pendingNarration.stepId, 'narration');
+        _narrationEnd = Date.now() + _pendingNarration.audioDuration;
+        _pendingNarration = null;
     }
+    const holdUntil = _pendingHoldMs > 0 ? Date.now() + _pendingHoldMs : 0;
+    _pendingHoldMs = 0;
+
+    const waitMs = Math.max(_narrationEnd, holdUntil) - Date.now();
+    if (waitMs > 0) {
+        console.log(\`Waiting \${waitMs}ms for audio sync (Step \${_currentStepId})\`);
+        await _pause(page, waitMs);
+    }
+}
+
+// Logged right after a step's annotated statement (or test.step body) completes,
+// from a finally block when it can leave early
+function _endStep(stepId: number) {
+    _logTiming(stepId, 'end');
+}
+
+async function _waitForFinalAudio(page: any) {
+    if (_firstStepExecuted) await _finishStep(page);
 }
 
-async function _syncStep(page: any, stepId: number, audioDuration: number) {
+async function _syncStep(page: any, stepId: number, audioDuration: number, pacing: string = 'overlap', pacingMs: number = 0) {
     // On first step, establish the base time AFTER video has started recording
     if (!_firstStepExecuted) {
         // Small stabilization delay to ensure video recording is stable
-        await page.waitForTimeout(100);
+        await _pause(page, 100);
         _scriptStartTime = Date.now();
         _firstStepExecuted = true;
         console.log('__VIDEO_START__:' + _scriptStartTime);
         console.log('Video sync base time established at first step');
+    } else {
+        await _finishStep(page);
     }
 
-    const now = Date.now();
-    // If there was a previous step, check if we need to wait
-    if (_lastAudioDuration > 0) {
-        const elapsed = now - _lastStepStart;
-        if (elapsed < _lastAudioDuration) {
-             const waitMs = _lastAudioDuration - elapsed; 
-             console.log(\`Waiting \${waitMs}ms for audio sync (Step \${stepId-1})\`);
-             if (page) await page.waitForTimeout(waitMs);
-             else await new Promise(r => setTimeout(r, waitMs));
-        }
-    }
-
-    // Log timing for post-processing - timestamp is now relative to first step execution
-    const stepStartRel = Date.now() - _scriptStartTime;
-    console.log('__TIMING__:' + JSON.stringify({ 
-        stepId, 
-        timestamp: stepStartRel, 
-        type: 'start' 
-    }));
-    
-    // Reset for this step
-    _lastStepStart = Date.now();
+    // Log timing for post-processing - timestamp is relative to first step execution.
+    // 'start' is where the narration is placed unless a later 'narration' event moves it.
+    _logTiming(stepId, 'start');
+    _currentStepId = stepId;
     _lastAudioDuration = audioDuration;
+
+    if (pacing === 'act-then-narrate') {
+        _pendingNarration = { stepId, audioDuration };
+        _narrationEnd = 0;
+    } else {
+        _narrationEnd = Date.now() + audioDuration;
+        if (pacing === 'narrate-then-act') await _pause(page, audioDuration);
+        else if (pacing === 'overlap') await _pause(page, Math.min(pacingMs, audioDuration));
+        else if (pacing === 'hold') _pendingHoldMs = pacingMs;
+    }
+    _logTiming(stepId, 'action');
 }
 
 // Reset timer before test starts to align with video recording start
@@ -86,133 +130,518 @@ _injectedPwTest.afterEach(async ({ page }) => {
 // === END INJECTED HELPER CODE ===
 `;
 
-  // Insert helper code after imports (heuristic: look for first empty line after imports?)
-  // Or just put it at the top, but imports must come first in ES modules if using 'import'.
-  // However, Playwright tests are often TS files.
-  // We can inject it after the last import.
-  
-  let lastImportIndex = -1;
-  for (let i = 0; i < lines.length; i++) {
-    if (lines[i].trim().startsWith('import ')) {
-      lastImportIndex = i;
+interface StepMeta {
+  stepId: number;
+  audioDuration: number;
+  pacing?: PacingMode;
+  pacingMs?: number;
+}
+
+interface MetaComment {
+  pos: number;
+  end: number;
+  text: string;
+}
+
+interface Insertion {
+  pos: number;
+  end?: number;   // Replace [pos, end) instead of inserting
+  text: string;
+  order: number;
+}
+
+type FunctionLike = ts.ArrowFunction | ts.FunctionExpression | ts.FunctionDeclaration | ts.MethodDeclaration;
+
+/**
+ * Parse the JSON-ish payload of a __STEP_META__ comment.
+ * Bedrock output is not always strict JSON, so unquoted keys are tolerated.
+ */
+export function parseStepMeta(rawMeta: string): StepMeta | null {
+  let stepId = 0;
+  let audioDuration = 0;
+
+  // Strategy 1: Regex extraction (most robust for simple KV pairs)
+  const stepIdMatch = rawMeta.match(/['"]?stepId['"]?\s*:\s*(\d+)/);
+  const durationMatch = rawMeta.match(/['"]?audioDuration['"]?\s*:\s*(\d+)/);
+  if (stepIdMatch) stepId = parseInt(stepIdMatch[1], 10);
+  if (durationMatch) audioDuration = parseInt(durationMatch[1], 10);
+
+  // Strategy 2: If regex failed, try JSON parse with key fixing
+  if (!stepId) {
+    try {
+      const jsonStr = rawMeta.replace(/(?<!["'])\b(\w+)\b\s*:/g, '"$1":');
+      const meta = JSON.parse(jsonStr);
+      stepId = Number(meta.stepId) || 0;
+      audioDuration = Number(meta.audioDuration) || 0;
+    } catch {
+      // Fall through - reported by the caller
     }
   }
-  
-  // If no imports, put at top. If imports, put after.
-  const headerLines = lines.slice(0, lastImportIndex + 1);
-  const bodyLines = lines.slice(lastImportIndex + 1);
-  
-  processedLines.push(...headerLines);
-  processedLines.push(helperCode);
-
-  // Process body lines
-  for (let i = 0; i < bodyLines.length; i++) {
-    const line = bodyLines[i];
-    const metaMatch = line.match(/\/\/\s*__STEP_META__:\s*(\{[^}]+\})/);
-    
-    if (metaMatch) {
-      try {
-        let stepId = 0;
-        let duration = 0;
-
-        // Try relaxed parsing strategy
-        const rawMeta = metaMatch[1];
-        
-        // Strategy 1: Regex extraction (most robust for simple KV pairs)
-        const stepIdMatch = rawMeta.match(/['"]?stepId['"]?\s*:\s*(\d+)/);
-        const durationMatch = rawMeta.match(/['"]?audioDuration['"]?\s*:\s*(\d+)/);
-        
-        if (stepIdMatch) {
-            stepId = parseInt(stepIdMatch[1], 10);
-        }
-        
-        if (durationMatch) {
-            duration = parseInt(durationMatch[1], 10);
-        }
 
-        // Strategy 2: If regex failed, try JSON parse with key fixing
-        if (!stepId) {
-            try {
-                // Fix unquoted keys: replace key: with "key":
-                // But avoid replacing already quoted keys "key":
-                // Regex: match word followed by colon, NOT preceded by quote
-                const jsonStr = rawMeta.replace(/(?<!["'])\b(\w+)\b\s*:/g, '"$1":');
-                const meta = JSON.parse(jsonStr);
-                stepId = meta.stepId;
-                duration = meta.audioDuration || 0;
-            } catch (jsonErr) {
-                 // Ignore JSON error if regex failed too
-            }
-        }
-        
-        if (!stepId) {
-             // If still no stepId, we can't process this meta
-             throw new Error('Could not extract stepId');
-        }
-        
-        // Look ahead for test block start
-        let isBlockStart = false;
-        let braceIndex = -1;
-        
-        // Check next few lines for 'test(' or 'test.beforeEach(' etc.
-        let j = i + 1;
-        while (j < bodyLines.length && j < i + 5) {
-            const nextLine = bodyLines[j].trim();
-            if (!nextLine) { j++; continue; } // skip empty
-            
-            // Check if this line starts a block
-            if (nextLine.match(/test(\.beforeEach|\.describe|\.step)?\s*\(/)) {
-                // It is a block start. We need to find the opening brace.
-                if (nextLine.includes('{')) {
-                   isBlockStart = true;
-                   braceIndex = nextLine.indexOf('{');
-                   // We need to inject AFTER this brace.
-                   // But we are iterating 'i'. We need to modify the line at 'j'.
-                   
-                   // Strategy: Replace the META line with empty string (or comment)
-                   // And modify line 'j' to include the sync call.
-                   
-                  const originalLine = bodyLines[j];
-                  const syncCall = ` await _syncStep(page, ${stepId}, ${duration}); `;
-                  
-                  // Prefer inserting after the block brace (post-arrow) to avoid the param destructuring brace
-                  const arrowIndex = originalLine.indexOf('=>');
-                  const braceAfterArrow = arrowIndex >= 0 ? originalLine.indexOf('{', arrowIndex) : -1;
-                  const openBracePos = braceAfterArrow >= 0 ? braceAfterArrow : originalLine.indexOf('{');
-                  
-                  const newLine = openBracePos >= 0
-                    ? originalLine.slice(0, openBracePos + 1) + syncCall + originalLine.slice(openBracePos + 1)
-                    : `${originalLine} ${syncCall}`;
-                  
-                  bodyLines[j] = newLine;
-                   
-                   processedLines.push(`// Processed Step ${stepId}`); // replace meta line
-                   break;
-                }
-            } else {
-                // Not a block start (e.g. await page.goto)
-                // Just replace the meta line with the sync call
-                processedLines.push(`await _syncStep(page, ${stepId}, ${duration});`);
-                break;
-            }
-            j++;
-        }
-        
-        if (!isBlockStart && j >= Math.min(bodyLines.length, i + 5)) {
-             // Didn't find anything interesting, just inject the call
-             processedLines.push(`await _syncStep(page, ${stepId}, ${duration});`);
-        } else if (isBlockStart) {
-            // We already modified bodyLines[j], so current line (meta) is skipped/commented
+  if (!stepId) return null;
+
+  // Optional pacing - unknown modes fall back to the default (narration starts with the action)
+  const pacingMatch = rawMeta.match(/['"]?pacing['"]?\s*:\s*['"]([\w-]+)['"]/);
+  const pacingMsMatch = rawMeta.match(/['"]?pacingMs['"]?\s*:\s*(\d+)/);
+  const pacing = pacingMatch && PACING_MODES.includes(pacingMatch[1] as PacingMode) ? pacingMatch[1] as PacingMode : undefined;
+  const pacingMs = pacingMsMatch ? Math.min(parseInt(pacingMsMatch[1], 10), MAX_PACING_MS) : undefined;
+
+  return {
+    stepId,
+    audioDuration,
+    ...(pacing ? { pacing } : {}),
+    ...(pacing && pacingMs !== undefined ? { pacingMs } : {}),
+  };
+}
+
+// Arguments of the injected _syncStep call; pacing is only passed when set
+function syncStepArgs(pageArg: string, meta: StepMeta): string {
+  const pacing = meta.pacing ? `, '${meta.pacing}', ${meta.pacingMs ?? 0}` : '';
+  return `${pageArg}, ${meta.stepId}, ${meta.audioDuration}${pacing}`;
+}
+
+/**
+ * Collect every comment in the file that carries step metadata.
+ * Comments are read from the trivia of each parsed token, so text inside
+ * string, template or regex literals is never mistaken for metadata.
+ */
+function collectMetaComments(sourceFile: ts.SourceFile): MetaComment[] {
+  const text = sourceFile.getFullText();
+  const seen = new Set<number>();
+  const comments: MetaComment[] = [];
+
+  const visitToken = (node: ts.Node) => {
+    const children = node.getChildren(sourceFile);
+    if (children.length > 0) {
+      children.forEach(visitToken);
+      return;
+    }
+    for (const range of ts.getLeadingCommentRanges(text, node.getFullStart()) ?? []) {
+      if (seen.has(range.pos)) continue;
+      seen.add(range.pos);
+      const commentText = text.slice(range.pos, range.end);
+      if (commentText.includes('__STEP_META__')) {
+        comments.push({ pos: range.pos, end: range.end, text: commentText });
+      }
+    }
+  };
+  visitToken(sourceFile);
+
+  return comments.sort((a, b) => a.pos - b.pos);
+}
+
+function isStatementInList(node: ts.Node): node is ts.Statement {
+  const parent = node.parent;
+  if (!parent) return false;
+  if (ts.isBlock(parent) || ts.isSourceFile(parent) || ts.isModuleBlock(parent)) {
+    return parent.statements.includes(node as ts.Statement);
+  }
+  if (ts.isCaseClause(parent) || ts.isDefaultClause(parent)) {
+    return parent.statements.includes(node as ts.Statement);
+  }
+  return false;
+}
+
+/**
+ * Find the innermost statement whose range contains the comment.
+ * Entering a block resets the candidate so a comment trailing the last
+ * statement of a body is not attached to the statement that owns the body.
+ */
+function findAnchorStatement(sourceFile: ts.SourceFile, pos: number): ts.Statement | null {
+  let candidate: ts.Statement | null = null;
+  let node: ts.Node = sourceFile;
+
+  while (true) {
+    let next: ts.Node | undefined;
+    ts.forEachChild(node, (child) => {
+      if (!next && child.getFullStart() <= pos && pos < child.end) {
+        next = child;
+      }
+    });
+    if (!next) break;
+
+    if (ts.isBlock(next) || ts.isModuleBlock(next) || ts.isCaseBlock(next)) {
+      candidate = null;
+    } else if (isStatementInList(next)) {
+      candidate = next;
+    }
+    node = next;
+  }
+
+  return candidate;
+}
+
+// Whether control can leave the node early (return, throw, or a break/continue that
+// targets a statement outside it), skipping anything placed after it.
+// Nested functions and classes are not followed.
+function canExitEarly(node: ts.Node, inLoop = false, inSwitch = false): boolean {
+  if (ts.isReturnStatement(node) || ts.isThrowStatement(node)) return true;
+  if (ts.isBreakStatement(node)) return Boolean(node.label) || !(inLoop || inSwitch);
+  if (ts.isContinueStatement(node)) return Boolean(node.label) || !inLoop;
+  if (ts.isFunctionLike(node) || ts.isClassLike(node)) return false;
+
+  const loop = inLoop || ts.isIterationStatement(node, false);
+  const switchBlock = inSwitch || ts.isSwitchStatement(node);
+  return ts.forEachChild(node, child => canExitEarly(child, loop, switchBlock) || undefined) ?? false;
+}
+
+function isFunctionLike(node: ts.Node): node is FunctionLike {
+  return ts.isArrowFunction(node) ||
+    ts.isFunctionExpression(node) ||
+    ts.isFunctionDeclaration(node) ||
+    ts.isMethodDeclaration(node);
+}
+
+function isAsyncFunction(fn: FunctionLike): boolean {
+  return Boolean(ts.getModifiers(fn)?.some(m => m.kind === ts.SyntaxKind.AsyncKeyword));
+}
+
+function getEnclosingFunction(node: ts.Node): FunctionLike | null {
+  let current = node.parent;
+  while (current) {
+    if (isFunctionLike(current)) return current;
+    current = current.parent;
+  }
+  return null;
+}
+
+function bindsName(name: ts.BindingName, identifier: string): boolean {
+  if (ts.isIdentifier(name)) return name.text === identifier;
+  return name.elements.some(element =>
+    !ts.isOmittedExpression(element) && bindsName(element.name, identifier)
+  );
+}
+
+/**
+ * Resolve whether a `page` binding is visible at the given node, either as a
+ * (destructured) parameter of an enclosing function or as a local declaration.
+ */
+function hasPageInScope(node: ts.Node): boolean {
+  let current: ts.Node | undefined = node;
+  while (current) {
+    if (isFunctionLike(current) && current.parameters.some(p => bindsName(p.name, 'page'))) {
+      return true;
+    }
+    if (ts.isBlock(current) || ts.isSourceFile(current)) {
+      for (const statement of current.statements) {
+        if (statement.getStart() >= node.getStart()) break;
+        if (ts.isVariableStatement(statement) &&
+            statement.declarationList.declarations.some(d => bindsName(d.name, 'page'))) {
+          return true;
         }
-        
-      } catch (e) {
-        processedLines.push(line); // Keep original if parse fails
-        console.error(`Failed to parse meta: ${line}`);
       }
-    } else {
-      processedLines.push(line);
     }
+    current = current.parent;
+  }
+  return false;
+}
+
+/**
+ * Return the callback of a Playwright block call such as
+ * `test(...)`, `test.step(...)` or `test.beforeEach(...)`.
+ */
+function getTestBlockCallback(statement: ts.Statement): FunctionLike | null {
+  if (!ts.isExpressionStatement(statement)) return null;
+
+  let expression = statement.expression;
+  if (ts.isAwaitExpression(expression)) expression = expression.expression;
+  if (!ts.isCallExpression(expression)) return null;
+
+  let callee: ts.Expression = expression.expression;
+  while (ts.isPropertyAccessExpression(callee)) callee = callee.expression;
+  if (!ts.isIdentifier(callee) || callee.text !== 'test') return null;
+
+  const callback = expression.arguments[expression.arguments.length - 1];
+  if (!callback || !(ts.isArrowFunction(callback) || ts.isFunctionExpression(callback))) return null;
+  if (!ts.isBlock(callback.body)) return null;
+
+  return callback;
+}
+
+/**
+ * Title of a `test.step('Title', ...)` call, or null for any other statement
+ */
+function getTestStepTitle(node: ts.Node): string | null {
+  let call = ts.isExpressionStatement(node) ? node.expression : node;
+  if (ts.isAwaitExpression(call)) call = call.expression;
+  if (!ts.isCallExpression(call)) return null;
+  const callee = call.expression;
+  if (!ts.isPropertyAccessExpression(callee) || callee.name.text !== 'step') return null;
+  if (!ts.isIdentifier(callee.expression) || callee.expression.text !== 'test') return null;
+
+  const title = call.arguments[0];
+  return title && ts.isStringLiteralLike(title) ? title.text : null;
+}
+
+/**
+ * Title of the innermost `test.step` whose callback contains the node
+ */
+function findEnclosingTestStepTitle(node: ts.Node): string | null {
+  for (let current: ts.Node | undefined = node; current; current = current.parent) {
+    if (isFunctionLike(current) && current.parent) {
+      const title = getTestStepTitle(current.parent);
+      if (title) return title;
+    }
+  }
+  return null;
+}
+
+interface Interaction {
+  call: ts.CallExpression;
+  method: string;
+  target: string;            // Source of a locator for the target element
+  args: ts.Expression[];     // Arguments after the selector
+}
+
+/**
+ * Describe a page interaction such as `page.click('#a')` or `page.getByRole('button').click()`
+ */
+function getInteraction(statement: ts.Statement, sourceFile: ts.SourceFile): Interaction | null {
+  if (!ts.isExpressionStatement(statement)) return null;
+
+  let expression = statement.expression;
+  if (ts.isAwaitExpression(expression)) expression = expression.expression;
+  if (!ts.isCallExpression(expression) || !ts.isPropertyAccessExpression(expression.expression)) return null;
+
+  const { name, expression: receiver } = expression.expression;
+  if (!POINTER_ACTIONS.has(name.text)) return null;
+
+  // page.click(selector, ...)
+  if (ts.isIdentifier(receiver)) {
+    const [selector, ...args] = expression.arguments;
+    if (receiver.text !== 'page' || !selector) return null;
+    return { call: expression, method: name.text, target: `page.locator(${selector.getText(sourceFile)})`, args };
+  }
+
+  // page.locator(...)/getBy*(...) chains - locators are lazy, so re-evaluating the receiver is safe
+  if (!ts.isCallExpression(receiver)) return null;
+  let root: ts.Expression = receiver;
+  while (ts.isCallExpression(root) || ts.isPropertyAccessExpression(root)) root = root.expression;
+  if (!ts.isIdentifier(root) || root.text !== 'page') return null;
+  return { call: expression, method: name.text, target: receiver.getText(sourceFile), args: [...expression.arguments] };
+}
+
+/**
+ * Helper that types a fill() value key by key, paced to the current step's narration.
+ * Password fields are already masked by the browser; other sensitive fields are masked with CSS.
+ */
+function buildTypingHelperCode(sensitiveStepIds: number[]): string {
+  return `
+// === INJECTED TYPING HELPER ===
+const _sensitiveSteps = new Set<number>(${JSON.stringify(sensitiveStepIds)});
+const _untypeableInputs = ['date', 'time', 'datetime-local', 'month', 'week', 'color', 'range', 'file'];
+
+async function _typeInto(page: any, target: any, value: any) {
+    const text = String(value);
+    let inputType = '';
+    try {
+        inputType = ((await target.getAttribute('type', { timeout: 5000 })) || '').toLowerCase();
+    } catch {
+        // Not an input or not attached yet - fill() below reports real problems
+    }
+
+    if (_sensitiveSteps.has(_currentStepId) && inputType !== 'password') {
+        await target.evaluate((el: any) => el.style.setProperty('-webkit-text-security', 'disc')).catch(() => {});
+    }
+
+    if (_untypeableInputs.includes(inputType) || text.length === 0 || text.length > 200) {
+        await target.fill(text);
+        return;
+    }
+
+    // Spread the typing over ~60% of the narration, within a natural key rate
+    const budget = _lastAudioDuration > 0 ? _lastAudioDuration * 0.6 : 1500;
+    const delay = Math.max(25, Math.min(120, Math.round(budget / text.length)));
+    await target.fill('');
+    await target.pressSequentially(text, { delay });
+}
+// === END INJECTED TYPING HELPER ===
+`;
+}
+
+/**
+ * Helper run before each interaction: locate the target, log its box and point the cursor at it
+ */
+function buildTargetHelperCode(options: TransformOptions): string {
+  return `
+// === INJECTED TARGET HELPER ===
+async function _onTarget(page: any, target: any) {
+    let box: any = null;
+    try {
+        box = await target.first().boundingBox({ timeout: 2000 });
+    } catch {
+        // Element not ready - the action itself will wait for it
+    }
+    if (!box) return;
+${options.captureTargets ? `
+    if (_currentStepId > 0) {
+        console.log('__TARGET__:' + JSON.stringify({
+            stepId: _currentStepId,
+            timestamp: Date.now() - _scriptStartTime,
+            box
+        }));
+    }
+` : ''}${options.cursorOverlay ? `
+    await _pointAt(page, box);
+` : ''}}
+// === END INJECTED TARGET HELPER ===
+`;
+}
+
+function getIndent(text: string, pos: number): string {
+  const lineStart = text.lastIndexOf('\n', pos - 1) + 1;
+  return text.slice(lineStart, pos).match(/^\s*/)?.[0] ?? '';
+}
+
+// Step ends that land on the same spot close the innermost step first
+function endOrder(order: number): number {
+  return -order - 2;   // Below the helper code's -1
+}
+
+/**
+ * Transforms a Playwright script by injecting timing synchronization logic.
+ * Each `__STEP_META__` comment is attached to the statement it precedes (or
+ * sits inside of), or to the body of a `test`/`test.step` callback it annotates.
+ * Comments that cannot be attached are returned as diagnostics.
+ */
+export function transformScript(scriptContent: string, options: TransformOptions = {}): TransformResult {
+  const sourceFile = ts.createSourceFile('test.spec.ts', scriptContent, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+  const insertions: Insertion[] = [];
+  const diagnostics: TransformDiagnostic[] = [];
+  const attachedStepIds: number[] = [];
+  const stepGroups: Record<number, string> = {};
+
+  const report = (comment: MetaComment, reason: string, stepId?: number) => {
+    const { line } = sourceFile.getLineAndCharacterOfPosition(comment.pos);
+    diagnostics.push({ line: line + 1, comment: comment.text.trim(), reason, stepId });
+  };
+
+  const metaComments = collectMetaComments(sourceFile);
+
+  metaComments.forEach((comment, order) => {
+    const metaMatch = comment.text.match(STEP_META_PATTERN);
+    const meta = metaMatch ? parseStepMeta(metaMatch[1]) : null;
+    if (!meta) {
+      report(comment, 'Could not extract stepId from metadata');
+      return;
+    }
+
+    const statement = findAnchorStatement(sourceFile, comment.pos);
+    if (!statement) {
+      report(comment, 'No statement follows the metadata comment', meta.stepId);
+      return;
+    }
+
+    // Leading metadata on a test/test.step block is injected at the start of its body
+    const callback = comment.end <= statement.getStart() ? getTestBlockCallback(statement) : null;
+    if (callback && isAsyncFunction(callback)) {
+      const body = callback.body as ts.Block;
+      const firstStatement = body.statements[0];
+      const bodyIndent = firstStatement
+        ? getIndent(scriptContent, firstStatement.getStart())
+        : `${getIndent(scriptContent, statement.getStart())}  `;
+      const pageArg = hasPageInScope(firstStatement ?? body) ? 'page' : 'undefined';
+      const lastStatement = body.statements[body.statements.length - 1];
+      const guarded = Boolean(lastStatement) && canExitEarly(body);
+      insertions.push({
+        pos: body.getStart() + 1,
+        text: `\n${bodyIndent}await _syncStep(${syncStepArgs(pageArg, meta)});${guarded ? `\n${bodyIndent}try {` : ''}`,
+        order,
+      });
+      if (lastStatement) {
+        insertions.push({
+          pos: lastStatement.getEnd(),
+          text: guarded
+            ? `\n${bodyIndent}} finally {\n${bodyIndent}    _endStep(${meta.stepId});\n${bodyIndent}}`
+            : `\n${bodyIndent}_endStep(${meta.stepId});`,
+          order: endOrder(order),
+        });
+      }
+      attachedStepIds.push(meta.stepId);
+      const title = getTestStepTitle(statement) ?? findEnclosingTestStepTitle(statement);
+      if (title) stepGroups[meta.stepId] = title;
+      return;
+    }
+
+    const enclosingFunction = getEnclosingFunction(statement);
+    if (!enclosingFunction) {
+      report(comment, 'Statement is outside of any function', meta.stepId);
+      return;
+    }
+    if (!isAsyncFunction(enclosingFunction)) {
+      report(comment, 'Enclosing function is not async', meta.stepId);
+      return;
+    }
+
+    const indent = getIndent(scriptContent, statement.getStart());
+    const pageArg = hasPageInScope(statement) ? 'page' : 'undefined';
+    // Statements that can leave early are not declarations, so wrapping them keeps every binding in scope
+    const guarded = canExitEarly(statement);
+    insertions.push({
+      pos: statement.getStart(),
+      text: `await _syncStep(${syncStepArgs(pageArg, meta)});\n${indent}${guarded ? `try {\n${indent}` : ''}`,
+      order,
+    });
+    insertions.push({
+      pos: statement.getEnd(),
+      text: guarded
+        ? `\n${indent}} finally {\n${indent}    _endStep(${meta.stepId});\n${indent}}`
+        : `\n${indent}_endStep(${meta.stepId});`,
+      order: endOrder(order),
+    });
+    attachedStepIds.push(meta.stepId);
+    const title = findEnclosingTestStepTitle(statement);
+    if (title) stepGroups[meta.stepId] = title;
+  });
+
+  // Locate each interaction target (after any _syncStep at the same spot) and animate typing
+  const handleTargets = Boolean(options.cursorOverlay || options.captureTargets);
+  if (handleTargets || options.typing) {
+    const visit = (node: ts.Node) => {
+      if (isStatementInList(node)) {
+        const interaction = getInteraction(node, sourceFile);
+        const enclosingFunction = interaction ? getEnclosingFunction(node) : null;
+        if (interaction && enclosingFunction && isAsyncFunction(enclosingFunction) && hasPageInScope(node)) {
+          if (handleTargets) {
+            const indent = getIndent(scriptContent, node.getStart());
+            insertions.push({
+              pos: node.getStart(),
+              text: `await _onTarget(page, ${interaction.target});\n${indent}`,
+              order: metaComments.length + insertions.length,
+            });
+          }
+          // fill(value) only - extra options such as { force } would change fill semantics
+          if (options.typing && interaction.method === 'fill' && interaction.args.length === 1) {
+            insertions.push({
+              pos: interaction.call.getStart(),
+              end: interaction.call.getEnd(),
+              text: `_typeInto(page, ${interaction.target}, ${interaction.args[0].getText(sourceFile)})`,
+              order: metaComments.length + insertions.length,
+            });
+          }
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+  }
+
+  // Inject the helper after the last import (or at the top when there are none)
+  const imports = sourceFile.statements.filter(ts.isImportDeclaration);
+  const helperPos = imports.length > 0 ? imports[imports.length - 1].end : 0;
+  let helperCode = HELPER_CODE;
+  if (options.cursorOverlay) helperCode += buildCursorHelperCode(options.cursorOverlay.highlightStepIds);
+  if (handleTargets) helperCode += buildTargetHelperCode(options);
+  if (options.typing) helperCode += buildTypingHelperCode(options.typing.sensitiveStepIds);
+  if (hasInPageRedactions(options.redactions)) helperCode += buildRedactionHelperCode(options.redactions!);
+  insertions.push({ pos: helperPos, text: `\n${helperCode}`, order: -1 });
+
+  // Apply from the end of the file so earlier positions stay valid
+  insertions.sort((a, b) => b.pos - a.pos || b.order - a.order);
+  let script = scriptContent;
+  for (const insertion of insertions) {
+    script = script.slice(0, insertion.pos) + insertion.text + script.slice(insertion.end ?? insertion.pos);
   }
 
-  return processedLines.join('\n');
+  return { script, attachedStepIds, diagnostics, stepGroups };
 }
@@ -1,3 +1,22 @@
+// 19-10-26: Add per-step screenshots and the visual diff against the previous render
+// 19-10-26: Add dead-time trimming mode and the edits made to the recording
+// 19-10-26: Add narration timeline adjustments (silence trims, shifts, freeze-frames) and their report
+// 19-10-26: Add the step timings JSON to the recording result
+// 19-10-26: Add step pacing modes and the action timestamp in StepTiming
+// 19-10-26: Add localized narration and per-locale video variants
+// 19-10-26: Add lower-third and step callout overlays
+// 19-10-26: Add tenant branding for intro/outro bumpers
+// 19-10-26: Add poster, sprite sheet and animated preview outputs
+// 19-10-26: Add output renditions and HLS packaging
+// 19-10-26: Add loudness target and measured loudness report
+// 19-10-26: Add background music bed options
+// 19-10-26: Add redaction rules
+// 19-10-26: Add typing animation options and sensitive steps
+// 19-10-26: Add target boxes and zoom keyframes for post-production zoom
+// 19-10-26: Add cursor overlay options
+// 19-10-26: Add chapter types and grouping option
+// 19-10-26: Add caption types and burn-in option
+// 19-10-26: Add transform diagnostics for AST-based script transformer
 // 08-12-25: Add StepTiming interface for post-recording audio muxing
 // 08-12-25: Add audio playback toggle and local video path
 // 07-12-25: Created types for video recording container
@@ -15,6 +34,201 @@ export interface VideoRecordingConfig {
   height: number;
   fps: number;
   enableAudioPlayback?: boolean;
+  burnCaptions?: boolean;          // Render captions into the video frames
+  captionStyle?: CaptionStyle;
+  chapterGrouping?: ChapterGrouping;
+  cursorOverlay?: CursorOverlayOptions;  // Draw a pointer, click ripples and highlights
+  autoZoom?: boolean;              // Zoom on steps without an explicit zoom level
+  typing?: TypingOptions;          // Type fill() values key by key
+  redactions?: RedactionRule[];
+  music?: MusicBedOptions;         // Looped background track ducked under narration
+  loudnessTarget?: number;         // Integrated loudness (LUFS) of the mastered audio
+  renditions?: RenditionName[];    // Extra encodes; landscape ones are also packaged as HLS
+  branding?: BrandingOptions;      // Intro/outro title cards around the video
+  overlays?: OverlayOptions;       // Lower-third step titles and callouts
+  locales?: string[];              // Extra narration languages, one video variant each
+  deadTime?: DeadTimeMode;         // Cut or speed up static stretches without narration
+  visualDiff?: VisualDiffOptions;  // Step screenshots compared with the previous render
+}
+
+export interface VisualDiffOptions {
+  renderId: string;                // Screenshots are stored under renders/<renderId>/
+  threshold: number;               // Difference (1 - SSIM) above which a step is flagged
+  baselineDir?: string;            // Local copy of the previous successful render's screenshots
+  baselineRenderId?: string;
+}
+
+export interface StepScreenshot {
+  stepId: number;
+  timestampMs: number;             // Recording timeline, the step's narration start
+  file: string;                    // screenshots/step_<id>.jpg, relative to the render directory
+}
+
+export interface StepVisualDiff {
+  stepId: number;
+  difference: number | null;       // 1 - SSIM against the baseline, null without a baseline screenshot
+  changed: boolean;
+}
+
+export interface VisualDiffReport {
+  renderId: string;
+  baselineRenderId?: string;
+  threshold: number;
+  comparedAt: string;
+  steps: StepVisualDiff[];
+  changedStepIds: number[];
+}
+
+export type DeadTimeMode = 'cut' | 'speed';
+
+// A static stretch of the recording replaced by a shorter one
+export interface DeadTimeEdit {
+  mode: DeadTimeMode;
+  startMs: number;                 // Recording timeline
+  endMs: number;
+  outputMs: number;                // Length on the edited timeline
+}
+
+/**
+ * A localized copy of the video: same picture, narration/captions/chapters in
+ * another language. Paths are relative to the locales output directory, which
+ * mirrors the S3 layout under videos/<tenant>/<project>/.
+ */
+export interface LocaleVariant {
+  locale: string;                  // BCP 47, e.g. es-ES
+  file: string;                    // locales/<locale>/recording.mp4
+  captions?: string;               // locales/<locale>/captions.vtt
+  chapters?: string;               // locales/<locale>/chapters.json
+}
+
+export interface OverlayOptions {
+  lowerThirds: boolean;            // "Step 3 of 12 — Add item to cart" at the start of each step
+  callouts: boolean;               // Arrow pointing at the target of high-importance steps
+  accentColor?: string;            // #RRGGBB, the tenant's primary colour when branded
+}
+
+export interface LowerThirdCue {
+  stepId: number;
+  startMs: number;
+  endMs: number;
+  text: string;
+}
+
+export interface CalloutCue {
+  stepId: number;
+  startMs: number;
+  endMs: number;
+  box: TargetBox;                  // Video pixels
+  side: 'left' | 'right';          // Side of the target the arrow sits on
+}
+
+export interface BrandingOptions {
+  title: string;                   // Intro title (project name)
+  logoPath?: string;               // Downloaded tenant logo
+  primaryColor: string;            // Accent bar, #RRGGBB
+  backgroundColor: string;
+  textColor: string;
+  fontFamily: string;              // fontconfig family name
+  outroText: string;               // Call to action
+  outroSubtext?: string;
+  introNarrationPath?: string;     // Synthesized intro narration (intro.mp3)
+}
+
+export type RenditionName = '1080p' | '720p' | '480p' | 'vertical';
+
+export interface RenditionSpec {
+  name: RenditionName;
+  width: number;
+  height: number;
+  videoBitrateK: number;
+  audioBitrateK: number;
+  hls: boolean;                    // Part of the adaptive streaming ladder
+}
+
+/**
+ * An encoded rendition. Paths are relative to the renditions output directory,
+ * which mirrors the S3 layout under videos/<tenant>/<project>/.
+ */
+export interface Rendition {
+  name: RenditionName;
+  width: number;
+  height: number;
+  bandwidth: number;               // Peak bits per second, as advertised in the master playlist
+  file: string;                    // renditions/<name>.mp4
+  playlist?: string;               // hls/<name>/index.m3u8
+}
+
+/**
+ * Measured loudness of the mastered audio (EBU R128)
+ */
+export interface LoudnessReport {
+  targetLufs: number;
+  integratedLufs: number;
+  truePeakDb: number;              // dBTP
+  loudnessRange: number;           // LU
+  inputIntegratedLufs: number;     // Before normalisation
+}
+
+export interface MusicBedOptions {
+  localPath: string;               // Downloaded track
+  volume: number;                  // 0-1 gain before ducking
+  fadeInMs: number;
+  fadeOutMs: number;
+}
+
+/**
+ * Something to hide in the recording:
+ * - selector: matching elements are blurred in the page while recording
+ * - text: text nodes and input values matching the regex are blurred while recording
+ * - region: a rectangle (video pixels) blurred in post-processing, optionally only
+ *   from the start of one step to the end of another
+ */
+export type RedactionRule =
+  | { type: 'selector'; selector: string }
+  | { type: 'text'; pattern: string; flags?: string }
+  | { type: 'region'; x: number; y: number; width: number; height: number; fromStepId?: number; toStepId?: number };
+
+export interface RedactionWindow {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  startMs: number;
+  endMs: number;
+}
+
+export interface TypingOptions {
+  sensitiveStepIds: number[];      // Steps whose typed value is masked on screen
+}
+
+export interface CursorOverlayOptions {
+  highlightStepIds: number[];      // Steps whose target element is outlined
+}
+
+/**
+ * How steps are grouped into chapters:
+ * - test-step: one chapter per enclosing `test.step` title
+ * - importance: a new chapter starts at every high-importance step
+ * - auto: test-step when the script uses test.step, importance otherwise
+ */
+export type ChapterGrouping = 'auto' | 'test-step' | 'importance';
+
+export interface Chapter {
+  title: string;
+  startMs: number;
+  endMs: number;
+  stepIds: number[];
+}
+
+/**
+ * Styling for burned-in captions (ASS force_style fields)
+ */
+export interface CaptionStyle {
+  fontName: string;
+  fontSize: number;
+  primaryColour: string;   // &HAABBGGRR
+  backColour: string;      // Box colour behind text
+  marginV: number;         // Distance from the bottom edge in pixels
 }
 
 export interface ManifestStep {
@@ -25,6 +239,25 @@ export interface ManifestStep {
   audioS3Key?: string;
   durationMs?: number;
   audioGenerated?: boolean;
+  zoom?: number;           // 1 = no zoom; unset = automatic when autoZoom is on
+  sensitive?: boolean;     // Mask values typed during this step
+  translations?: Record<string, string>;  // Narration per extra locale
+}
+
+// Polly speech mark, stored next to each step_N.mp3 as step_N.marks.json
+export interface SpeechMark {
+  time: number;
+  type: 'word' | 'sentence' | 'ssml' | 'viseme';
+  start: number;
+  end: number;
+  value: string;
+}
+
+export interface CaptionCue {
+  stepId: number;
+  startMs: number;
+  endMs: number;
+  text: string;
 }
 
 /**
@@ -33,10 +266,70 @@ export interface ManifestStep {
  */
 export interface StepTiming {
   stepId: number;
-  startTimestamp: number;  // ms from video start
-  endTimestamp: number;    // ms from video start  
-  actionDuration: number;  // actual time the action took
+  startTimestamp: number;  // ms from video start - where the narration is placed
+  endTimestamp: number;    // ms from video start - when the action finished
+  actionDuration: number;  // actual time the action took (end - action)
   audioDuration: number;   // expected audio duration from manifest
+  actionTimestamp?: number; // ms from video start - when the action ran (differs from startTimestamp with pacing)
+  narrationShiftMs?: number; // Narration moved later than recorded to avoid talking over the previous step
+  trimmedSilenceMs?: number; // Trailing silence cut from the clip (audioDuration excludes it)
+}
+
+/**
+ * One change made while re-timing overlapping narration before the mux
+ */
+export interface TimelineAdjustment {
+  type: 'trim-silence' | 'shift-narration' | 'freeze-frame';
+  stepId: number;            // Step whose clip was trimmed, or whose narration/picture was moved
+  withStepId: number;        // The other step of the overlapping pair
+  amountMs: number;
+  atMs?: number;             // freeze-frame: where the held frame starts on the adjusted timeline
+}
+
+export interface FreezeFrame {
+  sourceMs: number;          // Position in the recording that is held
+  durationMs: number;
+}
+
+export interface TimelineReport {
+  overlapsFound: number;
+  adjustments: TimelineAdjustment[];
+  freezes: FreezeFrame[];
+  addedMs: number;           // Total length added to the video by freeze-frames
+}
+
+/**
+ * How a step's narration and action are sequenced by _syncStep:
+ * - overlap: narration starts, the action follows after pacingMs (default, 0 = together)
+ * - narrate-then-act: the action waits for the narration to finish
+ * - act-then-narrate: the narration starts once the action has finished
+ * - hold: like overlap 0, and the result stays on screen for at least pacingMs after the action
+ */
+export type PacingMode = 'overlap' | 'narrate-then-act' | 'act-then-narrate' | 'hold';
+
+export interface TargetBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Bounding box of a step's target element, logged as __TARGET__ during recording
+ */
+export interface StepTarget {
+  stepId: number;
+  timestamp: number;   // ms from video start
+  box: TargetBox;      // Viewport CSS pixels
+}
+
+export interface ZoomKeyframe {
+  stepId: number;
+  startMs: number;
+  endMs: number;
+  zoom: number;
+  centerX: number;     // Video pixels
+  centerY: number;
 }
 
 export interface RecordingResult {
@@ -48,6 +341,67 @@ export interface RecordingResult {
   localVideoPath?: string;   // Raw video (no audio)
   finalVideoPath?: string;   // After audio muxing
   stepTimings?: StepTiming[]; // Timing data for debugging/verification
+  timingsFile?: string;       // Local step timings JSON (final video timeline)
+  timeline?: TimelineReport;  // Narration overlap fixes made before the mux
+  deadTimeEdits?: DeadTimeEdit[]; // Static stretches cut or sped up
+  renderDir?: string;         // Local directory mirroring renders/<renderId>/ (screenshots, visual-diff.json)
+  visualDiff?: VisualDiffReport;
+  transformDiagnostics?: TransformDiagnostic[]; // Step metadata that could not be attached
+  captionFiles?: { vtt: string; srt: string }; // Local caption tracks
+  captionsBurnedIn?: boolean;
+  chapters?: Chapter[];
+  chaptersFile?: string;      // Local chapters JSON
+  zoomKeyframes?: ZoomKeyframe[];
+  lowerThirds?: LowerThirdCue[];
+  callouts?: CalloutCue[];
+  redactionWindows?: RedactionWindow[];
+  loudness?: LoudnessReport;
+  loudnessFile?: string;      // Local loudness report JSON
+  renditions?: Rendition[];
+  renditionsDir?: string;     // Local directory holding renditions/, hls/ and renditions.json
+  bumpers?: { introMs: number; outroMs: number };  // Added before/after the recording
+  localeVariants?: LocaleVariant[];
+  localesDir?: string;        // Local directory holding locales/<locale>/
+  previews?: PreviewInfo;
+  previewsDir?: string;       // Local directory holding previews/ (poster, sprite, preview, previews.json)
+}
+
+/**
+ * Where the poster was taken and how the scrubbing sprite sheet is laid out
+ */
+export interface PreviewInfo {
+  posterTimestampMs: number;
+  posterStepId?: number;
+  intervalMs: number;         // Video time between sprite tiles
+  tileCount: number;
+  columns: number;
+  rows: number;
+  tileWidth: number;
+  tileHeight: number;
+}
+
+/**
+ * A __STEP_META__ comment the script transformer could not attach to a statement
+ */
+export interface TransformDiagnostic {
+  line: number;      // 1-based line of the metadata comment
+  comment: string;
+  reason: string;
+  stepId?: number;
+}
+
+export interface TransformOptions {
+  cursorOverlay?: CursorOverlayOptions;
+  captureTargets?: boolean;        // Log __TARGET__ boxes for post-production zoom
+  typing?: TypingOptions;
+  redactions?: RedactionRule[];    // Selector/text rules are applied in the page
+}
+
+export interface TransformResult {
+  script: string;
+  attachedStepIds: number[];
+  diagnostics: TransformDiagnostic[];
+  stepGroups: Record<number, string>; // stepId -> enclosing test.step title
 }
 
 export interface HealthStatus {
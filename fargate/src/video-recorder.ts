@@ -1,3 +1,25 @@
+// 19-10-26: Delete every unredacted intermediate once the blur succeeds
+// 19-10-26: Skip loudness mastering for videos without an audio track
+// 19-10-26: Capture a screenshot per step and compare it with the previous render
+// 19-10-26: Cut or speed up static stretches without narration and re-map timings onto the edit
+// 19-10-26: Re-time overlapping narration with silence trims, delayed clips or freeze-frames before the mux
+// 19-10-26: Record action end times, fill the full step timing record and write a timings JSON
+// 19-10-26: Place narration from pacing-aware timing events and record when each action ran
+// 19-10-26: Render one localized video variant per extra narration locale
+// 19-10-26: Draw lower-third step titles and high-importance callouts during the mux step
+// 19-10-26: Prepend/append branded title cards and shift later timings past the intro
+// 19-10-26: Generate poster frame, sprite sheet and animated preview
+// 19-10-26: Encode configured renditions and package them as HLS
+// 19-10-26: Mix narration without attenuation and master to a loudness target
+// 19-10-26: Mix a looped, ducked music bed under the narration
+// 19-10-26: Apply redactions in the page and blur redacted regions before muxing
+// 19-10-26: Pass typing animation options to the script transformer
+// 19-10-26: Capture target boxes and apply zoom-and-pan during the mux step
+// 19-10-26: Pass cursor overlay options to the script transformer
+// 19-10-26: Write chapter metadata into the final video and a chapters JSON
+// 19-10-26: Generate WebVTT/SRT captions from narration timings and optionally burn them in
+// 19-10-26: Re-measure narration MP3 durations before muxing and pad video so the last clip never clips
+// 19-10-26: Log transformer diagnostics for step metadata that could not be attached
 // 08-12-25: Refactored to use Playwright Test runner directly for robust script execution
 // 08-12-25: Fix parseStepMetadata to handle Bedrock output with comments between meta and await
 // 08-12-25: Implement post-recording audio muxing with timestamp tracking
@@ -8,15 +30,40 @@
 
 import { chromium, Browser, Page } from 'playwright';
 import { spawn, ChildProcess, execSync } from 'child_process';
-import { mkdir, writeFile, readFile, unlink, access, readdir, stat, symlink } from 'fs/promises';
+import { mkdir, writeFile, readFile, unlink, access, readdir, stat, symlink, copyFile } from 'fs/promises';
 import path from 'path';
-import { VideoRecordingConfig, RecordingResult, StepTiming } from './types';
-import { transformScript } from './script-transformer';
+import { VideoRecordingConfig, RecordingResult, StepTiming, StepTarget, TransformDiagnostic, ManifestStep, SpeechMark, CaptionStyle, Chapter, ZoomKeyframe, RedactionWindow, MusicBedOptions, LoudnessReport, Rendition, RenditionSpec, PreviewInfo, BrandingOptions, LowerThirdCue, CalloutCue, LocaleVariant, TimelineReport, FreezeFrame, DeadTimeEdit, VisualDiffOptions, VisualDiffReport, StepScreenshot } from './types';
+import { transformScript, parseStepMeta } from './script-transformer';
+import { getMp3DurationMs } from './mp3-duration';
+import { buildCaptionCues, toWebVtt, toSrt } from './captions';
+import { buildChapters, toFfmetadata } from './chapters';
+import { buildZoomKeyframes, buildZoomFilter } from './zoom';
+import { buildLowerThirdCues, buildCalloutCues, buildLowerThirdFilter, buildCalloutFilter } from './overlays';
+import { buildRedactionWindows, buildRedactionFilterGraph } from './redaction';
+import { buildMusicBedFilter } from './music';
+import { buildTitleCardArgs, buildBumperConcatFilter, introDurationMs, OUTRO_DURATION_MS, TitleCard } from './bumpers';
+import { selectPosterTimestamp, planSpriteSheet, buildSpriteFilter, buildPreviewFilter, PREVIEW_FPS } from './previews';
+import { resolveRenditionSpecs, buildRenditionFilter, buildMasterPlaylist, HLS_SEGMENT_SECONDS } from './renditions';
+import { parseFreezeDetectOutput, planDeadTimeEdits, remapToDeadTimeEdits, buildDeadTimeFilter, MIN_DEAD_TIME_MS, FREEZE_NOISE_DB, FrozenSpan } from './dead-time';
+import { planStepScreenshots, buildSsimFilter, parseSsimScore, buildVisualDiffReport } from './visual-diff';
+import { buildLoudnormFilter, parseLoudnormOutput, toLoudnessReport, DEFAULT_LOUDNESS_TARGET } from './loudness';
 
 const TEMP_DIR = '/tmp';
 const AUDIO_DIR = process.env.AUDIO_PATH || '/tmp/audio';
 const VIDEO_DIR = process.env.VIDEO_PATH || '/tmp/video';
 const SCRIPT_DIR = process.env.SCRIPT_PATH || '/tmp/script';
+const NARRATION_GAP_MS = 150;         // Silence kept between consecutive clips
+const MAX_NARRATION_SHIFT_MS = 1000;  // Narration may lag its action by this much before frames are held
+const SILENCE_TAIL_MS = 80;           // Trailing silence left on a trimmed clip
+const SILENCE_THRESHOLD_DB = -45;
+
+const DEFAULT_CAPTION_STYLE: CaptionStyle = {
+  fontName: 'DejaVu Sans',
+  fontSize: 22,
+  primaryColour: '&H00FFFFFF',
+  backColour: '&H80000000',
+  marginV: 40,
+};
 
 function log(message: string): void {
   console.log(`[${new Date().toISOString()}] [video-recorder] ${message}`);
@@ -136,15 +183,281 @@ async function playAudio(audioPath: string): Promise<void> {
   });
 }
 
+/**
+ * Whether the file has at least one audio stream (false if it cannot be probed)
+ */
+async function hasAudioStream(mediaPath: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const ffprobe = spawn('ffprobe', [
+      '-v', 'error',
+      '-select_streams', 'a',
+      '-show_entries', 'stream=index',
+      '-of', 'csv=p=0',
+      mediaPath,
+    ]);
+
+    let output = '';
+    ffprobe.stdout?.on('data', (data) => { output += data.toString(); });
+    ffprobe.on('close', () => resolve(output.trim().length > 0));
+    ffprobe.on('error', () => resolve(false));
+  });
+}
+
+/**
+ * Get media duration in milliseconds using ffprobe (0 if it cannot be determined)
+ */
+async function probeDurationMs(mediaPath: string): Promise<number> {
+  return new Promise((resolve) => {
+    const ffprobe = spawn('ffprobe', [
+      '-v', 'error',
+      '-show_entries', 'format=duration',
+      '-of', 'default=noprint_wrappers=1:nokey=1',
+      mediaPath,
+    ]);
+
+    let output = '';
+    ffprobe.stdout?.on('data', (data) => { output += data.toString(); });
+    ffprobe.on('close', () => {
+      const seconds = parseFloat(output.trim());
+      resolve(Number.isFinite(seconds) ? Math.round(seconds * 1000) : 0);
+    });
+    ffprobe.on('error', () => resolve(0));
+  });
+}
+
+/**
+ * Close steps whose 'end' event never arrived (the action threw, or the step was
+ * attached to an empty block): they are taken to end when the next step began.
+ * A step without an end event still has endTimestamp 0, which is before its action.
+ */
+function completeStepTimings(stepTimings: StepTiming[], logs: string[]): void {
+  stepTimings.forEach((timing, index) => {
+    const actionStart = timing.actionTimestamp ?? timing.startTimestamp;
+    if (timing.endTimestamp >= actionStart) return;
+
+    const next = stepTimings[index + 1];
+    timing.endTimestamp = next ? Math.min(next.startTimestamp, next.actionTimestamp ?? next.startTimestamp) : actionStart;
+    timing.actionDuration = Math.max(0, timing.endTimestamp - actionStart);
+    logs.push(`Step ${timing.stepId} logged no end event, assuming it ended at ${timing.endTimestamp}ms`);
+  });
+}
+
+// Move every timestamp of the steps by offsetMs, e.g. past an intro card
+function shiftStepTimings(stepTimings: StepTiming[], offsetMs: number): void {
+  for (const timing of stepTimings) {
+    timing.startTimestamp += offsetMs;
+    timing.endTimestamp += offsetMs;
+    if (timing.actionTimestamp !== undefined) timing.actionTimestamp += offsetMs;
+  }
+}
+
+/**
+ * Resolve narration clips that would talk over each other. For each overlapping pair
+ * the earlier clip first loses its trailing silence; the rest is made up by starting
+ * the later narration up to MAX_NARRATION_SHIFT_MS after its action, or, for longer
+ * overlaps, by holding the frame where the later step begins so picture and narration
+ * move together. Without freeze-frames the later narration takes the whole shift.
+ * Returns adjusted copies sorted by narration start; the input is left untouched.
+ */
+function solveNarrationTimeline(
+  stepTimings: StepTiming[],
+  trailingSilence: Map<number, number>,
+  allowFreeze: boolean
+): { timings: StepTiming[]; report: TimelineReport } {
+  const timings = stepTimings.map(timing => ({ ...timing })).sort((a, b) => a.startTimestamp - b.startTimestamp);
+  const report: TimelineReport = { overlapsFound: 0, adjustments: [], freezes: [], addedMs: 0 };
+  let previous: StepTiming | undefined;   // Last step with a narration clip
+
+  timings.forEach((current, index) => {
+    if (current.audioDuration <= 0) return;
+    let overlapMs = previous ? previous.startTimestamp + previous.audioDuration + NARRATION_GAP_MS - current.startTimestamp : 0;
+
+    if (previous && overlapMs > 0) {
+      report.overlapsFound++;
+
+      const trimMs = Math.min(overlapMs, Math.max(0, (trailingSilence.get(previous.stepId) ?? 0) - SILENCE_TAIL_MS));
+      if (trimMs > 0) {
+        previous.audioDuration -= trimMs;
+        previous.trimmedSilenceMs = trimMs;
+        overlapMs -= trimMs;
+        report.adjustments.push({ type: 'trim-silence', stepId: previous.stepId, withStepId: current.stepId, amountMs: trimMs });
+      }
+
+      if (overlapMs > MAX_NARRATION_SHIFT_MS && allowFreeze) {
+        // Everything from the later step's first event onwards moves back by the hold
+        const atMs = Math.min(current.startTimestamp, current.actionTimestamp ?? current.startTimestamp);
+        const sourceMs = atMs - report.addedMs;
+        const last = report.freezes[report.freezes.length - 1];
+        if (last && last.sourceMs === sourceMs) last.durationMs += overlapMs;
+        else report.freezes.push({ sourceMs, durationMs: overlapMs });
+        shiftStepTimings(timings.slice(index), overlapMs);
+        report.addedMs += overlapMs;
+        report.adjustments.push({ type: 'freeze-frame', stepId: current.stepId, withStepId: previous.stepId, amountMs: overlapMs, atMs });
+      } else if (overlapMs > 0) {
+        current.startTimestamp += overlapMs;
+        current.narrationShiftMs = overlapMs;
+        report.adjustments.push({ type: 'shift-narration', stepId: current.stepId, withStepId: previous.stepId, amountMs: overlapMs });
+      }
+    }
+    previous = current;
+  });
+
+  return { timings, report };
+}
+
+/**
+ * Measure how much of a clip's end is silence, from FFmpeg's silencedetect log.
+ * A silence that runs to the end of the file has no silence_end (or one at the very end).
+ */
+async function measureTrailingSilenceMs(audioPath: string, durationMs: number): Promise<number> {
+  const output = await runFFmpeg([
+    '-i', audioPath,
+    '-af', `silencedetect=noise=${SILENCE_THRESHOLD_DB}dB:d=0.1`,
+    '-f', 'null', '-',
+  ], 'silencedetect');
+  const starts = [...output.matchAll(/silence_start: ([\d.]+)/g)].map(match => parseFloat(match[1]) * 1000);
+  const ends = [...output.matchAll(/silence_end: ([\d.]+)/g)].map(match => parseFloat(match[1]) * 1000);
+  if (starts.length === 0) return 0;
+  if (ends.length === starts.length && ends[ends.length - 1] < durationMs - 50) return 0;
+  return Math.max(0, Math.round(durationMs - starts[starts.length - 1]));
+}
+
+/**
+ * Re-time narration that would talk over the next clip. Trailing silence is only
+ * measured when the recorded timings actually overlap.
+ */
+async function retimeNarration(
+  audioDir: string,
+  stepTimings: StepTiming[],
+  allowFreeze: boolean,
+  logs: string[]
+): Promise<{ timings: StepTiming[]; report: TimelineReport }> {
+  const trailingSilence = new Map<number, number>();
+  if (solveNarrationTimeline(stepTimings, trailingSilence, false).report.overlapsFound > 0) {
+    for (const timing of stepTimings) {
+      if (timing.audioDuration <= 0) continue;
+      try {
+        trailingSilence.set(timing.stepId, await measureTrailingSilenceMs(path.join(audioDir, `step_${timing.stepId}.mp3`), timing.audioDuration));
+      } catch (e) {
+        log(`Could not measure trailing silence of step ${timing.stepId}: ${e instanceof Error ? e.message : e}`);
+      }
+    }
+  }
+
+  const result = solveNarrationTimeline(stepTimings, trailingSilence, allowFreeze);
+  for (const adjustment of result.report.adjustments) {
+    const description = adjustment.type === 'trim-silence'
+      ? `trimmed ${adjustment.amountMs}ms of trailing silence before step ${adjustment.withStepId}`
+      : adjustment.type === 'shift-narration'
+        ? `narration delayed ${adjustment.amountMs}ms to clear step ${adjustment.withStepId}`
+        : `held the frame for ${adjustment.amountMs}ms at ${adjustment.atMs}ms to clear step ${adjustment.withStepId}`;
+    logs.push(`Step ${adjustment.stepId}: ${description}`);
+  }
+  return result;
+}
+
+// Position on the frozen timeline of a moment in the original recording
+function freezeAdjustedMs(sourceMs: number, freezes: FreezeFrame[]): number {
+  return sourceMs + freezes.filter(freeze => freeze.sourceMs <= sourceMs).reduce((sum, freeze) => sum + freeze.durationMs, 0);
+}
+
+/**
+ * Filter graph cutting the video at each freeze point and holding the last frame
+ * of every piece before joining them again into [vout]
+ */
+function buildFreezeFrameFilter(freezes: FreezeFrame[]): string {
+  const sorted = [...freezes].sort((a, b) => a.sourceMs - b.sourceMs);
+  const seconds = (ms: number) => (ms / 1000).toFixed(3);
+  const pieces = sorted.length + 1;
+  const parts = [`[0:v]split=${pieces}${sorted.map((_, i) => `[s${i}]`).join('')}[s${sorted.length}]`];
+
+  sorted.forEach((freeze, i) => {
+    const from = i === 0 ? 0 : sorted[i - 1].sourceMs;
+    parts.push(
+      `[s${i}]trim=start=${seconds(from)}:end=${seconds(freeze.sourceMs)},setpts=PTS-STARTPTS,` +
+      `tpad=stop_mode=clone:stop_duration=${seconds(freeze.durationMs)}[f${i}]`
+    );
+  });
+  parts.push(`[s${sorted.length}]trim=start=${seconds(sorted[sorted.length - 1].sourceMs)},setpts=PTS-STARTPTS[f${sorted.length}]`);
+  parts.push(`${Array.from({ length: pieces }, (_, i) => `[f${i}]`).join('')}concat=n=${pieces}:v=1:a=0[vout]`);
+  return parts.join(';');
+}
+
+/**
+ * Still stretches of the video, found with FFmpeg's freezedetect
+ */
+async function detectFrozenSpans(videoPath: string): Promise<FrozenSpan[]> {
+  const output = await runFFmpeg([
+    '-i', videoPath,
+    '-vf', `freezedetect=n=${FREEZE_NOISE_DB}dB:d=${(MIN_DEAD_TIME_MS / 1000).toFixed(1)}`,
+    '-map', '0:v',
+    '-f', 'null', '-',
+  ], 'freezedetect');
+  return parseFreezeDetectOutput(output, await probeDurationMs(videoPath));
+}
+
+async function trimDeadTime(videoPath: string, edits: DeadTimeEdit[], fps: number, outputPath: string): Promise<void> {
+  await runFFmpeg([
+    '-i', videoPath,
+    '-filter_complex', buildDeadTimeFilter(edits, fps, await probeDurationMs(videoPath)),
+    '-map', '[vout]',
+    '-c:v', 'libx264',
+    '-preset', 'fast',
+    '-crf', '18',
+    '-y', outputPath,
+  ], 'dead-time');
+}
+
+async function applyFreezeFrames(videoPath: string, freezes: FreezeFrame[], outputPath: string): Promise<void> {
+  await runFFmpeg([
+    '-i', videoPath,
+    '-filter_complex', buildFreezeFrameFilter(freezes),
+    '-map', '[vout]',
+    '-c:v', 'libx264',
+    '-preset', 'fast',
+    '-crf', '18',
+    '-y', outputPath,
+  ], 'freeze-frames');
+}
+
+/**
+ * Re-measure each narration clip from its MP3 frames.
+ * The manifest durations came from the audio route; the files on disk are the source of truth.
+ */
+async function verifyAudioDurations(
+  audioDir: string,
+  stepTimings: StepTiming[],
+  logs: string[]
+): Promise<void> {
+  for (const timing of stepTimings) {
+    const audioPath = path.join(audioDir, `step_${timing.stepId}.mp3`);
+    try {
+      const measuredMs = getMp3DurationMs(await readFile(audioPath));
+      const driftMs = measuredMs - timing.audioDuration;
+      if (Math.abs(driftMs) > 50) {
+        log(`Step ${timing.stepId}: manifest duration ${timing.audioDuration}ms, measured ${measuredMs}ms`);
+        logs.push(`Step ${timing.stepId} audio duration corrected by ${driftMs}ms`);
+      }
+      timing.audioDuration = measuredMs;
+    } catch (e) {
+      log(`Could not measure ${audioPath}: ${e instanceof Error ? e.message : e}`);
+    }
+  }
+}
+
 /**
  * Mux audio files with video using FFmpeg
  * Positions each audio file at its step's startTimestamp
+ * An optional video filter (e.g. zoom-and-pan) is applied in the same encode,
+ * and an optional music bed is looped underneath the narration
  */
 async function muxAudioWithVideo(
   videoPath: string,
   audioDir: string,
   stepTimings: StepTiming[],
-  outputPath: string
+  outputPath: string,
+  videoFilter?: string,
+  musicBed?: MusicBedOptions
 ): Promise<void> {
   log(`Starting audio muxing for ${stepTimings.length} steps`);
   log(`Video: ${videoPath}, Audio dir: ${audioDir}, Output: ${outputPath}`);
@@ -165,7 +478,8 @@ async function muxAudioWithVideo(
       
       // Add delay filter: adelay=startTimestamp|startTimestamp (left|right channel)
       const delayMs = Math.round(timing.startTimestamp);
-      filterParts.push(`[${audioIndex}]adelay=${delayMs}|${delayMs}[a${audioIndex}]`);
+      const trim = timing.trimmedSilenceMs ? `atrim=end=${(timing.audioDuration / 1000).toFixed(3)},` : '';
+      filterParts.push(`[${audioIndex}]${trim}adelay=${delayMs}|${delayMs}[a${audioIndex}]`);
       audioInputs.push(`[a${audioIndex}]`);
       audioIndex++;
     } catch {
@@ -173,12 +487,13 @@ async function muxAudioWithVideo(
     }
   }
   
-  if (audioInputs.length === 0) {
+  if (audioInputs.length === 0 && !musicBed) {
     log('No audio files found, copying video without audio');
     // Just copy the video without audio changes
     return new Promise((resolve, reject) => {
       const ffmpeg = spawn('ffmpeg', [
         '-i', videoPath,
+        ...(videoFilter ? ['-vf', videoFilter] : []),
         '-c:v', 'libx264',
         '-preset', 'fast',
         '-c:a', 'aac',
@@ -194,14 +509,38 @@ async function muxAudioWithVideo(
     });
   }
   
-  // Build the amix filter to combine all audio tracks
-  const mixFilter = `${audioInputs.join('')}amix=inputs=${audioInputs.length}:duration=longest[aout]`;
-  const filterComplex = [...filterParts, mixFilter].join(';');
+  // Hold the last frame if the final narration runs past the end of the recording
+  const narrationEndMs = Math.max(0, ...stepTimings.map(t => t.startTimestamp + t.audioDuration));
+  const videoDurationMs = await probeDurationMs(videoPath);
+  const videoFilters = videoFilter ? [videoFilter] : [];
+  if (videoDurationMs > 0 && narrationEndMs > videoDurationMs) {
+    const padSeconds = ((narrationEndMs - videoDurationMs) / 1000).toFixed(3);
+    log(`Narration ends at ${narrationEndMs}ms, video at ${videoDurationMs}ms - padding ${padSeconds}s`);
+    videoFilters.push(`tpad=stop_mode=clone:stop_duration=${padSeconds}`);
+  }
+  
+  // Combine the narration tracks, ducking the music bed underneath when there is one
+  const filterChain = [...filterParts];
+  if (musicBed) {
+    inputArgs.push('-stream_loop', '-1', '-i', musicBed.localPath);
+    const totalMs = Math.max(videoDurationMs, narrationEndMs);
+    filterChain.push(...buildMusicBedFilter(audioInputs, audioIndex, musicBed, totalMs));
+    log(`Mixing music bed ${musicBed.localPath} at volume ${musicBed.volume} over ${totalMs}ms`);
+  } else {
+    // normalize=0: clips do not overlap, so dividing by the input count would only make long videos quieter
+    filterChain.push(`${audioInputs.join('')}amix=inputs=${audioInputs.length}:duration=longest:normalize=0[aout]`);
+  }
+  let videoMap = '0:v';
+  if (videoFilters.length > 0) {
+    filterChain.push(`[0:v]${videoFilters.join(',')}[vout]`);
+    videoMap = '[vout]';
+  }
+  const filterComplex = filterChain.join(';');
   
   const ffmpegArgs = [
     ...inputArgs,
     '-filter_complex', filterComplex,
-    '-map', '0:v',
+    '-map', videoMap,
     '-map', '[aout]',
     '-c:v', 'libx264',
     '-preset', 'fast',
@@ -235,6 +574,555 @@ async function muxAudioWithVideo(
   });
 }
 
+/**
+ * Run an FFmpeg command to completion, resolving with its stderr output
+ */
+async function runFFmpeg(args: string[], label: string): Promise<string> {
+  log(`FFmpeg ${label} command: ffmpeg ${args.join(' ')}`);
+
+  return new Promise((resolve, reject) => {
+    const ffmpeg = spawn('ffmpeg', args);
+    let stderr = '';
+
+    ffmpeg.stderr?.on('data', (data) => {
+      stderr += data.toString();
+      log(`FFmpeg ${label}: ${data.toString().trim()}`);
+    });
+
+    ffmpeg.on('close', (code) => {
+      if (code === 0) resolve(stderr);
+      else reject(new Error(`FFmpeg ${label} failed with code ${code}`));
+    });
+
+    ffmpeg.on('error', (err) => {
+      log(`FFmpeg ${label} error: ${err.message}`);
+      reject(err);
+    });
+  });
+}
+
+/**
+ * Load Polly speech marks downloaded next to the audio files (step_N.marks.json)
+ */
+async function loadSpeechMarks(audioDir: string, stepTimings: StepTiming[]): Promise<Map<number, SpeechMark[]>> {
+  const marks = new Map<number, SpeechMark[]>();
+  for (const timing of stepTimings) {
+    try {
+      const content = await readFile(path.join(audioDir, `step_${timing.stepId}.marks.json`), 'utf-8');
+      marks.set(timing.stepId, JSON.parse(content));
+    } catch {
+      // Speech marks are optional - captions fall back to proportional timing
+    }
+  }
+  return marks;
+}
+
+/**
+ * Write WebVTT and SRT caption tracks for the recorded steps (outputStem + .vtt/.srt)
+ */
+async function writeCaptionFiles(
+  outputStem: string,
+  manifest: ManifestStep[],
+  stepTimings: StepTiming[],
+  audioDir: string = AUDIO_DIR
+): Promise<{ vtt: string; srt: string } | null> {
+  const speechMarks = await loadSpeechMarks(audioDir, stepTimings);
+  const cues = buildCaptionCues(manifest, stepTimings, speechMarks);
+  if (cues.length === 0) {
+    log('No caption cues generated');
+    return null;
+  }
+
+  const vtt = `${outputStem}.vtt`;
+  const srt = `${outputStem}.srt`;
+  await writeFile(vtt, toWebVtt(cues), 'utf-8');
+  await writeFile(srt, toSrt(cues), 'utf-8');
+  log(`Wrote ${cues.length} caption cues`);
+  return { vtt, srt };
+}
+
+/**
+ * Write each lower third's text to its own file for drawtext, keyed by step
+ */
+async function writeLowerThirdFiles(projectId: string, cues: LowerThirdCue[]): Promise<Map<number, string>> {
+  const files = new Map<number, string>();
+  for (const cue of cues) {
+    const filePath = path.join(TEMP_DIR, `${projectId}_lower_third_${cue.stepId}.txt`);
+    await writeFile(filePath, cue.text, 'utf-8');
+    files.set(cue.stepId, filePath);
+  }
+  return files;
+}
+
+/**
+ * Video filter for the mux step: callouts are drawn before the zoom so they
+ * follow it, lower thirds after it so they stay put
+ */
+function composeVideoFilter(
+  config: VideoRecordingConfig,
+  callouts: CalloutCue[],
+  zoomFilter: string | undefined,
+  lowerThirds: LowerThirdCue[],
+  lowerThirdFiles: Map<number, string>
+): string | undefined {
+  const accentColor = config.overlays?.accentColor;
+  return [
+    callouts.length > 0 ? buildCalloutFilter(callouts, config.width, config.height, accentColor) : '',
+    zoomFilter || '',
+    lowerThirds.length > 0 ? buildLowerThirdFilter(lowerThirds, lowerThirdFiles, config.height, accentColor) : '',
+  ].filter(Boolean).join(',') || undefined;
+}
+
+/**
+ * Burn styled captions into the video frames
+ */
+async function burnCaptions(
+  videoPath: string,
+  srtPath: string,
+  style: CaptionStyle,
+  outputPath: string
+): Promise<void> {
+  const forceStyle = [
+    `FontName=${style.fontName}`,
+    `FontSize=${style.fontSize}`,
+    `PrimaryColour=${style.primaryColour}`,
+    `BackColour=${style.backColour}`,
+    'BorderStyle=4',
+    `MarginV=${style.marginV}`,
+  ].join(',');
+  const escapedPath = srtPath.replace(/\\/g, '/').replace(/:/g, '\\:');
+
+  await runFFmpeg([
+    '-i', videoPath,
+    '-vf', `subtitles=${escapedPath}:force_style='${forceStyle}'`,
+    '-c:v', 'libx264',
+    '-preset', 'fast',
+    '-c:a', 'copy',
+    '-y', outputPath,
+  ], 'captions');
+}
+
+/**
+ * Embed chapter markers into a copy of the video (streams are not re-encoded)
+ */
+async function embedChapters(videoPath: string, chapters: Chapter[], outputPath: string): Promise<void> {
+  const metadataPath = path.join(TEMP_DIR, `chapters_${Date.now()}.txt`);
+  await writeFile(metadataPath, toFfmetadata(chapters), 'utf-8');
+
+  try {
+    await runFFmpeg([
+      '-i', videoPath,
+      '-i', metadataPath,
+      '-map', '0',
+      '-map_metadata', '1',
+      '-map_chapters', '1',
+      '-c', 'copy',
+      '-y', outputPath,
+    ], 'chapters');
+  } finally {
+    await unlink(metadataPath).catch(() => {});
+  }
+}
+
+/**
+ * Two-pass EBU R128 loudness normalisation of the audio track (video is copied)
+ */
+async function masterLoudness(videoPath: string, targetLufs: number, outputPath: string): Promise<LoudnessReport> {
+  const analysis = await runFFmpeg([
+    '-i', videoPath,
+    '-vn',
+    '-af', buildLoudnormFilter(targetLufs),
+    '-f', 'null', '-',
+  ], 'loudness analysis');
+  const measured = parseLoudnormOutput(analysis);
+  log(`Measured ${measured.input_i} LUFS, true peak ${measured.input_tp} dBTP`);
+
+  const correction = await runFFmpeg([
+    '-i', videoPath,
+    '-map', '0:v?',
+    '-map', '0:a',
+    '-c:v', 'copy',
+    '-af', buildLoudnormFilter(targetLufs, measured),
+    '-ar', '48000',
+    '-c:a', 'aac',
+    '-b:a', '192k',
+    '-y', outputPath,
+  ], 'loudness');
+  return toLoudnessReport(targetLufs, parseLoudnormOutput(correction));
+}
+
+/**
+ * Encode each rendition as a faststart MP4 with keyframes on HLS segment boundaries,
+ * then segment the ladder renditions and write the master playlist.
+ * A rendition that fails is skipped; the others are still produced.
+ */
+async function encodeRenditions(
+  videoPath: string,
+  specs: RenditionSpec[],
+  outputDir: string,
+  config: VideoRecordingConfig
+): Promise<Rendition[]> {
+  const keyframeInterval = String(config.fps * HLS_SEGMENT_SECONDS);
+  const renditions: Rendition[] = [];
+  await mkdir(path.join(outputDir, 'renditions'), { recursive: true });
+
+  for (const spec of specs) {
+    const file = `renditions/${spec.name}.mp4`;
+    try {
+      await runFFmpeg([
+        '-i', videoPath,
+        '-map', '0:v',
+        '-map', '0:a?',
+        '-vf', buildRenditionFilter(spec, config.width, config.height),
+        '-c:v', 'libx264',
+        '-preset', 'fast',
+        '-profile:v', 'high',
+        '-pix_fmt', 'yuv420p',
+        '-b:v', `${spec.videoBitrateK}k`,
+        '-maxrate', `${Math.round(spec.videoBitrateK * 1.07)}k`,
+        '-bufsize', `${spec.videoBitrateK * 2}k`,
+        '-g', keyframeInterval,
+        '-keyint_min', keyframeInterval,
+        '-sc_threshold', '0',
+        '-c:a', 'aac',
+        '-b:a', `${spec.audioBitrateK}k`,
+        '-movflags', '+faststart',
+        '-y', path.join(outputDir, file),
+      ], `rendition ${spec.name}`);
+
+      const rendition: Rendition = {
+        name: spec.name,
+        width: spec.width,
+        height: spec.height,
+        bandwidth: Math.round((spec.videoBitrateK * 1.07 + spec.audioBitrateK) * 1000),
+        file,
+      };
+
+      if (spec.hls) {
+        const playlistDir = path.join(outputDir, 'hls', spec.name);
+        await mkdir(playlistDir, { recursive: true });
+        await runFFmpeg([
+          '-i', path.join(outputDir, file),
+          '-c', 'copy',
+          '-f', 'hls',
+          '-hls_time', String(HLS_SEGMENT_SECONDS),
+          '-hls_playlist_type', 'vod',
+          '-hls_segment_filename', path.join(playlistDir, 'segment_%03d.ts'),
+          '-y', path.join(playlistDir, 'index.m3u8'),
+        ], `hls ${spec.name}`);
+        rendition.playlist = `hls/${spec.name}/index.m3u8`;
+      }
+
+      renditions.push(rendition);
+    } catch (renditionError) {
+      log(`Rendition ${spec.name} failed: ${renditionError}`);
+    }
+  }
+
+  if (renditions.some(rendition => rendition.playlist)) {
+    await writeFile(path.join(outputDir, 'hls', 'master.m3u8'), buildMasterPlaylist(renditions), 'utf-8');
+  }
+  await writeFile(path.join(outputDir, 'renditions.json'), JSON.stringify(renditions, null, 2), 'utf-8');
+  return renditions;
+}
+
+/**
+ * Screenshot every step into <renderDir>/screenshots (listed in screenshots.json) and
+ * score each against the same step of the baseline render. The report is written
+ * to <renderDir>/visual-diff.json. Steps whose screenshot fails are left out.
+ */
+async function compareStepScreenshots(
+  videoPath: string,
+  stepTimings: StepTiming[],
+  options: VisualDiffOptions,
+  renderDir: string
+): Promise<VisualDiffReport> {
+  await mkdir(path.join(renderDir, 'screenshots'), { recursive: true });
+  const captured: StepScreenshot[] = [];
+  for (const screenshot of planStepScreenshots(stepTimings, await probeDurationMs(videoPath))) {
+    try {
+      await runFFmpeg([
+        '-ss', (screenshot.timestampMs / 1000).toFixed(3),
+        '-i', videoPath,
+        '-frames:v', '1',
+        '-q:v', '3',
+        '-y', path.join(renderDir, screenshot.file),
+      ], 'screenshot');
+      captured.push(screenshot);
+    } catch (screenshotError) {
+      log(`Screenshot of step ${screenshot.stepId} failed: ${screenshotError}`);
+    }
+  }
+  await writeFile(path.join(renderDir, 'screenshots.json'), JSON.stringify(captured, null, 2), 'utf-8');
+
+  const similarity = new Map<number, number>();
+  if (options.baselineDir) {
+    for (const screenshot of captured) {
+      const baselinePath = path.join(options.baselineDir, screenshot.file);
+      try {
+        await access(baselinePath);
+      } catch {
+        continue;   // New step, or its screenshot was missing from the baseline
+      }
+      try {
+        const output = await runFFmpeg([
+          '-i', path.join(renderDir, screenshot.file),
+          '-i', baselinePath,
+          '-lavfi', buildSsimFilter(),
+          '-f', 'null', '-',
+        ], 'ssim');
+        const ssim = parseSsimScore(output);
+        if (ssim !== null) similarity.set(screenshot.stepId, ssim);
+      } catch (ssimError) {
+        log(`Comparing step ${screenshot.stepId} failed: ${ssimError}`);
+      }
+    }
+  }
+
+  const report = buildVisualDiffReport(options, captured, similarity);
+  await writeFile(path.join(renderDir, 'visual-diff.json'), JSON.stringify(report, null, 2), 'utf-8');
+  return report;
+}
+
+/**
+ * Extract the poster frame, the scrubbing sprite sheet and the animated WebP preview
+ * into <outputDir>/previews, with their layout in previews.json.
+ * The poster is required; the sprite and preview are skipped if they fail.
+ */
+async function generatePreviews(
+  videoPath: string,
+  manifest: ManifestStep[],
+  stepTimings: StepTiming[],
+  outputDir: string
+): Promise<PreviewInfo> {
+  const previewsDir = path.join(outputDir, 'previews');
+  await mkdir(previewsDir, { recursive: true });
+  const videoDurationMs = await probeDurationMs(videoPath);
+
+  const poster = selectPosterTimestamp(manifest, stepTimings, videoDurationMs);
+  await runFFmpeg([
+    '-ss', (poster.timestampMs / 1000).toFixed(3),
+    '-i', videoPath,
+    '-frames:v', '1',
+    '-q:v', '2',
+    '-y', path.join(previewsDir, 'poster.jpg'),
+  ], 'poster');
+
+  const sprite = planSpriteSheet(videoDurationMs);
+  try {
+    await runFFmpeg([
+      '-i', videoPath,
+      '-vf', buildSpriteFilter(sprite),
+      '-frames:v', '1',
+      '-q:v', '4',
+      '-y', path.join(previewsDir, 'sprite.jpg'),
+    ], 'sprite');
+  } catch (spriteError) {
+    log(`Sprite sheet failed: ${spriteError}`);
+  }
+
+  try {
+    await runFFmpeg([
+      '-i', videoPath,
+      '-vf', buildPreviewFilter(videoDurationMs),
+      '-an',
+      '-r', String(PREVIEW_FPS),
+      '-c:v', 'libwebp',
+      '-quality', '60',
+      '-loop', '0',
+      '-y', path.join(previewsDir, 'preview.webp'),
+    ], 'preview');
+  } catch (previewError) {
+    log(`Animated preview failed: ${previewError}`);
+  }
+
+  const info: PreviewInfo = { posterTimestampMs: poster.timestampMs, posterStepId: poster.stepId, ...sprite };
+  await writeFile(path.join(previewsDir, 'previews.json'), JSON.stringify(info, null, 2), 'utf-8');
+  return info;
+}
+
+/**
+ * Render the intro and outro title cards and join them around the video
+ */
+async function addBumpers(
+  videoPath: string,
+  branding: BrandingOptions,
+  config: VideoRecordingConfig,
+  outputPath: string
+): Promise<{ introMs: number; outroMs: number }> {
+  const stamp = Date.now();
+  const textFiles = {
+    introTitle: path.join(TEMP_DIR, `bumper_${stamp}_intro.txt`),
+    outroTitle: path.join(TEMP_DIR, `bumper_${stamp}_outro.txt`),
+    outroSubtitle: path.join(TEMP_DIR, `bumper_${stamp}_outro_sub.txt`),
+  };
+  const introPath = path.join(VIDEO_DIR, `${config.projectId}_intro.mp4`);
+  const outroPath = path.join(VIDEO_DIR, `${config.projectId}_outro.mp4`);
+
+  try {
+    await writeFile(textFiles.introTitle, branding.title, 'utf-8');
+    await writeFile(textFiles.outroTitle, branding.outroText, 'utf-8');
+    if (branding.outroSubtext) await writeFile(textFiles.outroSubtitle, branding.outroSubtext, 'utf-8');
+
+    const narrationMs = branding.introNarrationPath ? await probeDurationMs(branding.introNarrationPath) : 0;
+    const intro: TitleCard = {
+      kind: 'intro',
+      durationMs: introDurationMs(narrationMs),
+      titleFile: textFiles.introTitle,
+      narrationPath: narrationMs > 0 ? branding.introNarrationPath : undefined,
+    };
+    const outro: TitleCard = {
+      kind: 'outro',
+      durationMs: OUTRO_DURATION_MS,
+      titleFile: textFiles.outroTitle,
+      subtitleFile: branding.outroSubtext ? textFiles.outroSubtitle : undefined,
+    };
+
+    await runFFmpeg(buildTitleCardArgs(intro, branding, config.width, config.height, config.fps, introPath), 'intro card');
+    await runFFmpeg(buildTitleCardArgs(outro, branding, config.width, config.height, config.fps, outroPath), 'outro card');
+
+    await runFFmpeg([
+      '-i', introPath,
+      '-i', videoPath,
+      '-i', outroPath,
+      '-filter_complex', buildBumperConcatFilter(3, config.width, config.height, config.fps),
+      '-map', '[v]',
+      '-map', '[a]',
+      '-c:v', 'libx264',
+      '-preset', 'fast',
+      '-c:a', 'aac',
+      '-b:a', '192k',
+      '-y', outputPath,
+    ], 'bumpers');
+
+    return { introMs: intro.durationMs, outroMs: outro.durationMs };
+  } finally {
+    for (const file of [...Object.values(textFiles), introPath, outroPath]) {
+      await unlink(file).catch(() => {});
+    }
+  }
+}
+
+/**
+ * Localized copy of the video, made from the (redacted) recording with the locale's
+ * narration, lower thirds, captions and chapters. Zoom, callouts, music, bumpers and
+ * mastering match the primary video; renditions and previews are primary-only.
+ * Output goes to <outputDir>/locales/<locale>/.
+ */
+async function renderLocaleVariant(
+  locale: string,
+  rawVideoPath: string,
+  config: VideoRecordingConfig,
+  manifest: ManifestStep[],
+  recordedTimings: StepTiming[],
+  shared: { callouts: CalloutCue[]; zoomFilter?: string; stepGroups: Record<number, string> },
+  outputDir: string
+): Promise<LocaleVariant> {
+  const localeAudioDir = path.join(AUDIO_DIR, locale);
+  const narrationFiles = await readdir(localeAudioDir).catch(() => [] as string[]);
+  if (!narrationFiles.some(file => /^step_\d+\.mp3$/.test(file))) {
+    throw new Error(`No ${locale} narration found`);
+  }
+
+  const variantDir = path.join(outputDir, 'locales', locale);
+  await mkdir(variantDir, { recursive: true });
+  const stem = path.join(VIDEO_DIR, `${config.projectId}_${locale}`);
+  const intermediates: string[] = [];
+
+  // Same picture timeline as the primary video; only narration lengths differ
+  const localizedManifest = manifest.map(step => ({ ...step, narration: step.translations?.[locale] || step.narration }));
+  // Clip lengths differ, so overlaps are re-solved from the recorded narration starts.
+  // The picture (with any freeze-frames) is shared, so they are only fixed on the audio side.
+  const recorded = recordedTimings.map(({ narrationShiftMs, trimmedSilenceMs, ...timing }) => ({
+    ...timing,
+    startTimestamp: timing.startTimestamp - (narrationShiftMs ?? 0),
+  }));
+  await verifyAudioDurations(localeAudioDir, recorded, []);
+  const { timings } = await retimeNarration(localeAudioDir, recorded, false, []);
+
+  try {
+    const lowerThirds = config.overlays?.lowerThirds ? buildLowerThirdCues(localizedManifest, timings, locale) : [];
+    const lowerThirdFiles = await writeLowerThirdFiles(`${config.projectId}_${locale}`, lowerThirds);
+    let videoPath = `${stem}_muxed.mp4`;
+    intermediates.push(videoPath, ...lowerThirdFiles.values());
+    await muxAudioWithVideo(
+      rawVideoPath,
+      localeAudioDir,
+      timings,
+      videoPath,
+      composeVideoFilter(config, shared.callouts, shared.zoomFilter, lowerThirds, lowerThirdFiles),
+      config.music
+    );
+
+    if (config.branding) {
+      const introNarrationPath = path.join(localeAudioDir, 'intro.mp3');
+      const hasIntroNarration = Boolean(config.branding.introNarrationPath) && narrationFiles.includes('intro.mp3');
+      const brandedPath = `${stem}_branded.mp4`;
+      intermediates.push(brandedPath);
+      const bumpers = await addBumpers(videoPath, {
+        ...config.branding,
+        introNarrationPath: hasIntroNarration ? introNarrationPath : undefined,
+      }, config, brandedPath);
+      videoPath = brandedPath;
+      shiftStepTimings(timings, bumpers.introMs);
+    }
+
+    if (await hasAudioStream(videoPath)) {
+      const masteredPath = `${stem}_mastered.mp4`;
+      intermediates.push(masteredPath);
+      await masterLoudness(videoPath, config.loudnessTarget ?? DEFAULT_LOUDNESS_TARGET, masteredPath);
+      videoPath = masteredPath;
+    }
+
+    const captionFiles = await writeCaptionFiles(`${stem}_captions`, localizedManifest, timings, localeAudioDir);
+    if (captionFiles) {
+      intermediates.push(captionFiles.vtt, captionFiles.srt);
+      if (config.burnCaptions) {
+        const captionedPath = `${stem}_captioned.mp4`;
+        intermediates.push(captionedPath);
+        await burnCaptions(videoPath, captionFiles.srt, config.captionStyle || DEFAULT_CAPTION_STYLE, captionedPath);
+        videoPath = captionedPath;
+      }
+      await copyFile(captionFiles.vtt, path.join(variantDir, 'captions.vtt'));
+    }
+
+    const outputPath = path.join(variantDir, 'recording.mp4');
+    const chapters = buildChapters(localizedManifest, timings, await probeDurationMs(videoPath), shared.stepGroups, config.chapterGrouping);
+    if (chapters.length > 0) {
+      await embedChapters(videoPath, chapters, outputPath);
+      await writeFile(path.join(variantDir, 'chapters.json'), JSON.stringify(chapters, null, 2), 'utf-8');
+    } else {
+      await copyFile(videoPath, outputPath);
+    }
+
+    return {
+      locale,
+      file: `locales/${locale}/recording.mp4`,
+      ...(captionFiles ? { captions: `locales/${locale}/captions.vtt` } : {}),
+      ...(chapters.length > 0 ? { chapters: `locales/${locale}/chapters.json` } : {}),
+    };
+  } finally {
+    for (const file of intermediates) {
+      await unlink(file).catch(() => {});
+    }
+  }
+}
+
+/**
+ * Blur redacted regions during their time windows (lightly compressed to limit generation loss)
+ */
+async function blurRegions(videoPath: string, windows: RedactionWindow[], outputPath: string): Promise<void> {
+  await runFFmpeg([
+    '-i', videoPath,
+    '-filter_complex', buildRedactionFilterGraph(windows),
+    '-map', '[vout]',
+    '-c:v', 'libx264',
+    '-preset', 'fast',
+    '-crf', '18',
+    '-y', outputPath,
+  ], 'redaction');
+}
+
 /**
  * Create the synchronized Playwright runner script
  */
@@ -275,10 +1163,14 @@ async function runPlaywrightScript(
  */
 async function runPlaywrightTestRunner(
     config: VideoRecordingConfig,
-    syncedScript: string
-): Promise<{ success: boolean; logs: string[]; stepTimings: StepTiming[]; videoPath?: string }> {
+    syncedScript: string,
+    captureTargets = false
+): Promise<{ success: boolean; logs: string[]; stepTimings: StepTiming[]; stepTargets: StepTarget[]; videoPath?: string; transformDiagnostics: TransformDiagnostic[]; stepGroups: Record<number, string> }> {
     const logs: string[] = [];
     const stepTimings: StepTiming[] = [];
+    const stepTargets: StepTarget[] = [];
+    let transformDiagnostics: TransformDiagnostic[] = [];
+    let stepGroups: Record<number, string> = {};
     
     try {
         log('Preparing Playwright Test Runner...');
@@ -301,9 +1193,23 @@ async function runPlaywrightTestRunner(
         }
 
         // 1. Transform the script to inject timing logic
-        const transformedScript = transformScript(syncedScript);
+        const transformResult = transformScript(syncedScript, {
+            cursorOverlay: config.cursorOverlay,
+            captureTargets,
+            typing: config.typing,
+            redactions: config.redactions,
+        });
+        transformDiagnostics = transformResult.diagnostics;
+        stepGroups = transformResult.stepGroups;
+        log(`Attached sync calls for steps: ${transformResult.attachedStepIds.join(', ') || 'none'}`);
+        for (const diagnostic of transformDiagnostics) {
+            const stepLabel = diagnostic.stepId ? `step ${diagnostic.stepId}` : 'unknown step';
+            log(`Unattached metadata (${stepLabel}, line ${diagnostic.line}): ${diagnostic.reason}`);
+            logs.push(`Unattached metadata (${stepLabel}, line ${diagnostic.line}): ${diagnostic.reason}`);
+        }
+
         const testFilePath = path.join(SCRIPT_DIR, 'test.spec.ts');
-        await writeFile(testFilePath, transformedScript);
+        await writeFile(testFilePath, transformResult.script);
         log(`Transformed script written to: ${testFilePath}`);
         logs.push(`Transformed script written to: ${testFilePath}`);
 
@@ -351,10 +1257,8 @@ export default defineConfig({
                         const jsonStr = line.split('__TIMING__:')[1];
                         const timing = JSON.parse(jsonStr);
                         if (timing.type === 'start') {
-                            // We only capture start times. Duration is calculated based on next start or end.
-                            // However, stepTimings needs { stepId, startTimestamp, endTimestamp, actionDuration, audioDuration }
-                            // Our _syncStep logic ensures startTimestamp is aligned.
-                            // We'll reconstruct stepTimings after.
+                            // End and action duration come from the step's 'end' event; audio duration
+                            // is filled from the script metadata after the run
                             stepTimings.push({
                                 stepId: timing.stepId,
                                 startTimestamp: timing.timestamp,
@@ -363,10 +1267,30 @@ export default defineConfig({
                                 audioDuration: 0 // Fill later
                             });
                             log(`Captured timing for step ${timing.stepId}: ${timing.timestamp}ms`);
+                        } else if (timing.type === 'narration' || timing.type === 'action' || timing.type === 'end') {
+                            // Pacing: narration placed after the action, or the action delayed after the narration
+                            const stepTiming = [...stepTimings].reverse().find(t => t.stepId === timing.stepId);
+                            if (stepTiming && timing.type === 'narration') {
+                                stepTiming.startTimestamp = timing.timestamp;
+                                log(`Narration for step ${timing.stepId} starts after its action: ${timing.timestamp}ms`);
+                            } else if (stepTiming && timing.type === 'action') {
+                                stepTiming.actionTimestamp = timing.timestamp;
+                            } else if (stepTiming) {
+                                stepTiming.endTimestamp = timing.timestamp;
+                                stepTiming.actionDuration = timing.timestamp - (stepTiming.actionTimestamp ?? stepTiming.startTimestamp);
+                                log(`Step ${timing.stepId} action finished after ${stepTiming.actionDuration}ms`);
+                            }
                         }
                     } catch (e) {
                         log(`Failed to parse timing: ${line}`);
                     }
+                } else if (line.includes('__TARGET__:')) {
+                    try {
+                        const target = JSON.parse(line.split('__TARGET__:')[1]);
+                        stepTargets.push({ stepId: target.stepId, timestamp: target.timestamp, box: target.box });
+                    } catch (e) {
+                        log(`Failed to parse target: ${line}`);
+                    }
                 } else if (line.trim()) {
                     log(`PW: ${line.trim()}`);
                 }
@@ -387,7 +1311,7 @@ export default defineConfig({
 
         if (code !== 0) {
             logs.push(`Playwright failed. Stderr: ${stderr.slice(-500)}`);
-            return { success: false, logs, stepTimings };
+            return { success: false, logs, stepTimings, stepTargets, transformDiagnostics, stepGroups };
         }
 
         // 4. Find the video file
@@ -414,7 +1338,7 @@ export default defineConfig({
         
         if (videoFiles.length === 0) {
             logs.push('No video file generated by Playwright');
-            return { success: false, logs, stepTimings };
+            return { success: false, logs, stepTimings, stepTargets, transformDiagnostics, stepGroups };
         }
         
         // Sort by mtime to get the latest? Or just take the first one?
@@ -426,13 +1350,13 @@ export default defineConfig({
         log(`Using video file: ${videoPath}`);
         logs.push(`Using video file: ${videoPath}`);
 
-        return { success: true, logs, stepTimings, videoPath };
+        return { success: true, logs, stepTimings, stepTargets, videoPath, transformDiagnostics, stepGroups };
 
     } catch (e) {
         const msg = e instanceof Error ? e.message : String(e);
         log(`Test runner failed: ${msg}`);
         logs.push(`Test runner failed: ${msg}`);
-        return { success: false, logs, stepTimings };
+        return { success: false, logs, stepTimings, stepTargets, transformDiagnostics, stepGroups };
     }
 }
 
@@ -517,7 +1441,8 @@ export async function recordVideo(config: VideoRecordingConfig): Promise<Recordi
  */
 export async function recordVideoSimple(
   config: VideoRecordingConfig,
-  syncedScript: string
+  syncedScript: string,
+  manifest: ManifestStep[] = []
 ): Promise<RecordingResult> {
   const logs: string[] = [];
   
@@ -547,7 +1472,10 @@ export async function recordVideoSimple(
     }
 
     // Run the robust Playwright Test Runner
-    const runResult = await runPlaywrightTestRunner(config, syncedScript);
+    const captureTargets = Boolean(config.autoZoom) ||
+      Boolean(config.overlays?.callouts) ||
+      manifest.some(step => (step.zoom ?? 1) > 1);
+    const runResult = await runPlaywrightTestRunner(config, syncedScript, captureTargets);
     logs.push(...runResult.logs);
     
     if (!runResult.success || !runResult.videoPath) {
@@ -555,11 +1483,13 @@ export async function recordVideoSimple(
             success: false,
             errorMessage: 'Playwright execution failed or no video generated',
             logs,
-            stepTimings: runResult.stepTimings
+            stepTimings: runResult.stepTimings,
+            transformDiagnostics: runResult.transformDiagnostics,
         };
     }
     
-    const rawVideoPath = runResult.videoPath;
+    let rawVideoPath = runResult.videoPath;
+    const unredactedFiles = [rawVideoPath];  // Everything written before the blur
     const stepTimings = runResult.stepTimings;
     
     // Fill in audio durations for muxing
@@ -573,37 +1503,171 @@ export async function recordVideoSimple(
     const stepDurations = new Map<number, number>();
     const metaMatches = syncedScript.matchAll(/\/\/\s*__STEP_META__:\s*(\{[^}]+\})/g);
     for (const match of metaMatches) {
-        try {
-            const meta = JSON.parse(match[1].replace(/(\w+):/g, '"$1":'));
-            stepDurations.set(meta.stepId, meta.audioDuration || 0);
-        } catch {}
+        const meta = parseStepMeta(match[1]);
+        if (meta) stepDurations.set(meta.stepId, meta.audioDuration);
     }
     
-    // Update stepTimings with audio durations
+    // Update stepTimings with audio durations and close steps that never logged an end
     for (const timing of stepTimings) {
         timing.audioDuration = stepDurations.get(timing.stepId) || 0;
-        // Estimate end timestamp (next step start or video end)
-        // For now, we only need startTimestamp and audioDuration for muxing.
-        timing.actionDuration = 0; // Not critical for muxing
+    }
+    completeStepTimings(stepTimings, logs);
+    
+    // Re-verify narration durations against the downloaded MP3 files
+    await verifyAudioDurations(AUDIO_DIR, stepTimings, logs);
+    
+    // Keep narration from talking over itself when actions ran longer than their clips
+    let timeline = await retimeNarration(AUDIO_DIR, stepTimings, true, logs);
+    if (timeline.report.freezes.length > 0) {
+      const retimedPath = path.join(VIDEO_DIR, `${config.projectId}_retimed.mp4`);
+      try {
+        await applyFreezeFrames(rawVideoPath, timeline.report.freezes, retimedPath);
+        rawVideoPath = retimedPath;
+        unredactedFiles.push(retimedPath);
+        for (const target of runResult.stepTargets) {
+          target.timestamp = freezeAdjustedMs(target.timestamp, timeline.report.freezes);
+        }
+        logs.push(`Held ${timeline.report.freezes.length} frames for ${timeline.report.addedMs}ms in total`);
+      } catch (freezeError) {
+        const freezeErrorMsg = freezeError instanceof Error ? freezeError.message : 'Unknown freeze-frame error';
+        log(`Freeze-frames failed: ${freezeErrorMsg}`);
+        logs.push(`Freeze-frames failed: ${freezeErrorMsg}, delaying narration instead`);
+        timeline = await retimeNarration(AUDIO_DIR, stepTimings, false, logs);
+      }
+    }
+    stepTimings.splice(0, stepTimings.length, ...timeline.timings);
+    
+    // Tighten page loads and waits that nobody is talking over
+    let deadTimeEdits: DeadTimeEdit[] = [];
+    if (config.deadTime) {
+      try {
+        const edits = planDeadTimeEdits(await detectFrozenSpans(rawVideoPath), stepTimings, config.deadTime);
+        if (edits.length > 0) {
+          const tightenedPath = path.join(VIDEO_DIR, `${config.projectId}_tightened.mp4`);
+          await trimDeadTime(rawVideoPath, edits, config.fps, tightenedPath);
+          rawVideoPath = tightenedPath;
+          unredactedFiles.push(tightenedPath);
+          remapToDeadTimeEdits(stepTimings, runResult.stepTargets, edits);
+          deadTimeEdits = edits;
+          const savedMs = edits.reduce((sum, edit) => sum + edit.endMs - edit.startMs - edit.outputMs, 0);
+          logs.push(`${config.deadTime === 'cut' ? 'Cut' : 'Sped up'} ${edits.length} static stretches, ${savedMs}ms shorter`);
+        }
+      } catch (deadTimeError) {
+        const deadTimeErrorMsg = deadTimeError instanceof Error ? deadTimeError.message : 'Unknown dead-time error';
+        log(`Dead-time trimming failed: ${deadTimeErrorMsg}`);
+        logs.push(`Dead-time trimming failed: ${deadTimeErrorMsg}, keeping the full recording`);
+      }
     }
     
     logs.push(`Raw video saved to: ${rawVideoPath}`);
     log(`Raw video path: ${rawVideoPath}`);
     
+    // Blur redacted regions before anything else touches the frames
+    const redactionWindows = buildRedactionWindows(config.redactions || [], stepTimings, await probeDurationMs(rawVideoPath));
+    if (redactionWindows.length > 0) {
+      const redactedPath = path.join(VIDEO_DIR, `${config.projectId}_redacted.mp4`);
+      try {
+        await blurRegions(rawVideoPath, redactionWindows, redactedPath);
+      } catch (redactionError) {
+        // Never publish a recording whose redaction failed
+        const redactionErrorMsg = redactionError instanceof Error ? redactionError.message : 'Unknown redaction error';
+        logs.push(`Redaction failed: ${redactionErrorMsg}`);
+        return {
+          success: false,
+          errorMessage: `Redaction failed: ${redactionErrorMsg}`,
+          logs,
+          stepTimings,
+          transformDiagnostics: runResult.transformDiagnostics,
+        };
+      }
+      for (const file of unredactedFiles) {
+        await unlink(file).catch(() => {});
+      }
+      rawVideoPath = redactedPath;
+      logs.push(`Blurred ${redactionWindows.length} redacted regions`);
+    }
+    
+    // Step screenshots for the visual regression check, taken before any overlay is drawn
+    let renderDir: string | undefined;
+    let visualDiff: VisualDiffReport | undefined;
+    if (config.visualDiff) {
+      try {
+        renderDir = path.join(VIDEO_DIR, `${config.projectId}_render`);
+        visualDiff = await compareStepScreenshots(rawVideoPath, stepTimings, config.visualDiff, renderDir);
+        if (!config.visualDiff.baselineRenderId) {
+          logs.push(`Captured ${visualDiff.steps.length} step screenshots, no previous render to compare with`);
+        } else if (visualDiff.changedStepIds.length > 0) {
+          logs.push(`UI changed since render ${config.visualDiff.baselineRenderId} in steps ${visualDiff.changedStepIds.join(', ')}`);
+        } else {
+          logs.push(`No UI changes since render ${config.visualDiff.baselineRenderId}`);
+        }
+      } catch (visualDiffError) {
+        const visualDiffErrorMsg = visualDiffError instanceof Error ? visualDiffError.message : 'Unknown visual diff error';
+        log(`Visual diff failed: ${visualDiffErrorMsg}`);
+        logs.push(`Visual diff failed: ${visualDiffErrorMsg}`);
+        renderDir = undefined;
+        visualDiff = undefined;
+      }
+    }
+    
     // Now mux audio with the video at correct timestamps
     const finalOutputPath = path.join(VIDEO_DIR, `${config.projectId}_final.mp4`);
     
     log('=== Starting Post-Recording Audio Muxing ===');
     logs.push('Starting audio muxing...');
     
+    // Zoom-and-pan around the located targets
+    const zoomKeyframes: ZoomKeyframe[] = buildZoomKeyframes(manifest, stepTimings, runResult.stepTargets, {
+      autoZoom: Boolean(config.autoZoom),
+      viewportWidth: config.width,
+      viewportHeight: config.height,
+      videoWidth: config.width,
+      videoHeight: config.height,
+    });
+    const zoomFilter = zoomKeyframes.length > 0
+      ? buildZoomFilter(zoomKeyframes, config.width, config.height, config.fps)
+      : undefined;
+    if (zoomFilter) logs.push(`Applying zoom on ${zoomKeyframes.length} steps`);
+    
+    // Step overlays are composited in the same encode as the zoom
+    const callouts: CalloutCue[] = config.overlays?.callouts
+      ? buildCalloutCues(manifest, stepTimings, runResult.stepTargets, {
+          viewportWidth: config.width,
+          viewportHeight: config.height,
+          videoWidth: config.width,
+          videoHeight: config.height,
+        })
+      : [];
+    const lowerThirds: LowerThirdCue[] = config.overlays?.lowerThirds ? buildLowerThirdCues(manifest, stepTimings) : [];
+    const lowerThirdFiles = await writeLowerThirdFiles(config.projectId, lowerThirds);
+    const videoFilter = composeVideoFilter(config, callouts, zoomFilter, lowerThirds, lowerThirdFiles);
+    if (lowerThirds.length > 0 || callouts.length > 0) {
+      logs.push(`Drawing ${lowerThirds.length} lower thirds and ${callouts.length} callouts`);
+    }
+    
     try {
-      await muxAudioWithVideo(rawVideoPath, AUDIO_DIR, stepTimings, finalOutputPath);
+      try {
+        await muxAudioWithVideo(rawVideoPath, AUDIO_DIR, stepTimings, finalOutputPath, videoFilter, config.music);
+      } catch (enhancedMuxError) {
+        if (!videoFilter && !config.music) throw enhancedMuxError;
+        // Zoom, overlays and music are enhancements - keep the narration even if their filters fail
+        log(`Muxing with zoom/overlays/music failed, retrying with narration only: ${enhancedMuxError}`);
+        logs.push('Zoom, overlay or music filter failed, muxed narration only');
+        zoomKeyframes.length = 0;
+        lowerThirds.length = 0;
+        callouts.length = 0;
+        await muxAudioWithVideo(rawVideoPath, AUDIO_DIR, stepTimings, finalOutputPath);
+      }
       logs.push(`Audio muxing complete: ${finalOutputPath}`);
       log(`Final video with audio: ${finalOutputPath}`);
     } catch (muxError) {
       const muxErrorMsg = muxError instanceof Error ? muxError.message : 'Unknown mux error';
       log(`Audio muxing failed: ${muxErrorMsg}`);
       logs.push(`Audio muxing failed: ${muxErrorMsg}, using raw video`);
+    } finally {
+      for (const file of lowerThirdFiles.values()) {
+        await unlink(file).catch(() => {});
+      }
     }
     
     // Check if final video exists, otherwise use raw
@@ -615,6 +1679,154 @@ export async function recordVideoSimple(
       finalVideoPath = rawVideoPath;
     }
     
+    // Localized variants start again from the recording, on its own timeline
+    const recordedTimings = stepTimings.map(timing => ({ ...timing }));
+    
+    // Branded intro/outro cards - everything after this works on the branded timeline
+    let bumpers: { introMs: number; outroMs: number } | undefined;
+    if (config.branding && finalVideoPath !== rawVideoPath) {
+      const brandedPath = path.join(VIDEO_DIR, `${config.projectId}_branded.mp4`);
+      try {
+        bumpers = await addBumpers(finalVideoPath, config.branding, config, brandedPath);
+        finalVideoPath = brandedPath;
+        shiftStepTimings(stepTimings, bumpers.introMs);
+        logs.push(`Added ${bumpers.introMs}ms intro and ${bumpers.outroMs}ms outro`);
+      } catch (bumperError) {
+        const bumperErrorMsg = bumperError instanceof Error ? bumperError.message : 'Unknown bumper error';
+        log(`Bumpers failed: ${bumperErrorMsg}`);
+        logs.push(`Bumpers failed: ${bumperErrorMsg}, continuing without intro/outro`);
+      }
+    }
+    
+    // Master the narration (and music) to the loudness target
+    let loudness: LoudnessReport | undefined;
+    let loudnessFile: string | undefined;
+    if (finalVideoPath !== rawVideoPath && !(await hasAudioStream(finalVideoPath))) {
+      logs.push('No audio track, skipping loudness mastering');
+    } else if (finalVideoPath !== rawVideoPath) {
+      const targetLufs = config.loudnessTarget ?? DEFAULT_LOUDNESS_TARGET;
+      const masteredPath = path.join(VIDEO_DIR, `${config.projectId}_mastered.mp4`);
+      try {
+        loudness = await masterLoudness(finalVideoPath, targetLufs, masteredPath);
+        finalVideoPath = masteredPath;
+        loudnessFile = path.join(VIDEO_DIR, `${config.projectId}_loudness.json`);
+        await writeFile(loudnessFile, JSON.stringify(loudness, null, 2), 'utf-8');
+        logs.push(`Mastered audio to ${loudness.integratedLufs} LUFS (target ${targetLufs}, was ${loudness.inputIntegratedLufs})`);
+      } catch (masteringError) {
+        const masteringErrorMsg = masteringError instanceof Error ? masteringError.message : 'Unknown mastering error';
+        log(`Loudness mastering failed: ${masteringErrorMsg}`);
+        logs.push(`Loudness mastering failed: ${masteringErrorMsg}, keeping unmastered audio`);
+      }
+    }
+    
+    // Captions from narration + recorded timings
+    let captionFiles: { vtt: string; srt: string } | null = null;
+    let captionsBurnedIn = false;
+    try {
+      captionFiles = await writeCaptionFiles(path.join(VIDEO_DIR, `${config.projectId}_captions`), manifest, stepTimings);
+      if (captionFiles) logs.push(`Captions written: ${captionFiles.vtt}, ${captionFiles.srt}`);
+      
+      if (captionFiles && config.burnCaptions) {
+        const captionedPath = path.join(VIDEO_DIR, `${config.projectId}_captioned.mp4`);
+        await burnCaptions(finalVideoPath, captionFiles.srt, config.captionStyle || DEFAULT_CAPTION_STYLE, captionedPath);
+        finalVideoPath = captionedPath;
+        captionsBurnedIn = true;
+        logs.push('Captions burned into video');
+      }
+    } catch (captionError) {
+      const captionErrorMsg = captionError instanceof Error ? captionError.message : 'Unknown caption error';
+      log(`Caption generation failed: ${captionErrorMsg}`);
+      logs.push(`Caption generation failed: ${captionErrorMsg}`);
+    }
+    
+    // Chapters (after every re-encode so the markers survive)
+    let chapters: Chapter[] = [];
+    let chaptersFile: string | undefined;
+    try {
+      const videoDurationMs = await probeDurationMs(finalVideoPath);
+      chapters = buildChapters(manifest, stepTimings, videoDurationMs, runResult.stepGroups, config.chapterGrouping);
+      
+      if (chapters.length > 0) {
+        chaptersFile = path.join(VIDEO_DIR, `${config.projectId}_chapters.json`);
+        await writeFile(chaptersFile, JSON.stringify(chapters, null, 2), 'utf-8');
+        
+        const chapteredPath = path.join(VIDEO_DIR, `${config.projectId}_chaptered${path.extname(finalVideoPath)}`);
+        await embedChapters(finalVideoPath, chapters, chapteredPath);
+        finalVideoPath = chapteredPath;
+        logs.push(`Embedded ${chapters.length} chapters`);
+      }
+    } catch (chapterError) {
+      const chapterErrorMsg = chapterError instanceof Error ? chapterError.message : 'Unknown chapter error';
+      log(`Chapter generation failed: ${chapterErrorMsg}`);
+      logs.push(`Chapter generation failed: ${chapterErrorMsg}`);
+    }
+    
+    // Renditions and HLS packaging from the finished master
+    let renditions: Rendition[] = [];
+    let renditionsDir: string | undefined;
+    const renditionSpecs = resolveRenditionSpecs(config.renditions || []);
+    if (renditionSpecs.length > 0) {
+      renditionsDir = path.join(VIDEO_DIR, `${config.projectId}_renditions`);
+      try {
+        renditions = await encodeRenditions(finalVideoPath, renditionSpecs, renditionsDir, config);
+        logs.push(`Encoded renditions: ${renditions.map(r => r.name).join(', ') || 'none'}`);
+      } catch (renditionError) {
+        const renditionErrorMsg = renditionError instanceof Error ? renditionError.message : 'Unknown rendition error';
+        log(`Rendition encoding failed: ${renditionErrorMsg}`);
+        logs.push(`Rendition encoding failed: ${renditionErrorMsg}`);
+        renditionsDir = undefined;
+      }
+    }
+    
+    // Poster, sprite sheet and animated preview for the projects list
+    let previews: PreviewInfo | undefined;
+    let previewsDir: string | undefined = path.join(VIDEO_DIR, `${config.projectId}_previews`);
+    try {
+      previews = await generatePreviews(finalVideoPath, manifest, stepTimings, previewsDir);
+      logs.push(`Poster taken at ${previews.posterTimestampMs}ms (step ${previews.posterStepId ?? 'n/a'})`);
+    } catch (previewError) {
+      const previewErrorMsg = previewError instanceof Error ? previewError.message : 'Unknown preview error';
+      log(`Preview generation failed: ${previewErrorMsg}`);
+      logs.push(`Preview generation failed: ${previewErrorMsg}`);
+      previewsDir = undefined;
+    }
+    
+    // One localized copy per extra narration locale
+    const localeVariants: LocaleVariant[] = [];
+    let localesDir: string | undefined;
+    if (config.locales && config.locales.length > 0 && finalVideoPath !== rawVideoPath) {
+      localesDir = path.join(VIDEO_DIR, `${config.projectId}_locales`);
+      for (const locale of config.locales) {
+        try {
+          localeVariants.push(await renderLocaleVariant(locale, rawVideoPath, config, manifest, recordedTimings, {
+            callouts,
+            zoomFilter: zoomKeyframes.length > 0 ? zoomFilter : undefined,
+            stepGroups: runResult.stepGroups,
+          }, localesDir));
+          logs.push(`Rendered ${locale} variant`);
+        } catch (localeError) {
+          const localeErrorMsg = localeError instanceof Error ? localeError.message : 'Unknown locale error';
+          log(`${locale} variant failed: ${localeErrorMsg}`);
+          logs.push(`${locale} variant failed: ${localeErrorMsg}`);
+        }
+      }
+      if (localeVariants.length > 0) {
+        await writeFile(path.join(localesDir, 'locales.json'), JSON.stringify(localeVariants, null, 2), 'utf-8');
+      } else {
+        localesDir = undefined;
+      }
+    }
+    
+    // Step timings on the final video's timeline, for diagnosing slow steps and narration overlap
+    let timingsFile: string | undefined;
+    try {
+      timingsFile = path.join(VIDEO_DIR, `${config.projectId}_timings.json`);
+      await writeFile(timingsFile, JSON.stringify({ introMs: bumpers?.introMs ?? 0, stepTimings, timeline: timeline.report, deadTime: deadTimeEdits }, null, 2), 'utf-8');
+    } catch (timingsError) {
+      timingsFile = undefined;
+      logs.push(`Could not write step timings: ${timingsError instanceof Error ? timingsError.message : timingsError}`);
+    }
+    
     logs.push('=== Video Recording Complete ===');
     log('=== Video Recording Complete ===');
     
@@ -626,6 +1838,29 @@ export async function recordVideoSimple(
       localVideoPath: rawVideoPath,
       finalVideoPath: finalVideoPath !== rawVideoPath ? finalVideoPath : undefined,
       stepTimings,
+      timingsFile,
+      timeline: timeline.report,
+      deadTimeEdits,
+      renderDir,
+      visualDiff,
+      transformDiagnostics: runResult.transformDiagnostics,
+      captionFiles: captionFiles || undefined,
+      captionsBurnedIn,
+      chapters,
+      chaptersFile,
+      zoomKeyframes,
+      lowerThirds,
+      callouts,
+      redactionWindows,
+      loudness,
+      loudnessFile,
+      renditions,
+      renditionsDir,
+      previews,
+      previewsDir,
+      bumpers,
+      localeVariants,
+      localesDir,
     };
     
   } catch (error) {
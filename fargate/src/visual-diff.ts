@@ -0,0 +1,70 @@
+// 19-10-26: Created per-step screenshot comparison against the previous render
+// Phase 5: Notice when the recorded app's UI has changed since the last render
+
+import { StepTiming, StepScreenshot, VisualDiffOptions, VisualDiffReport } from './types';
+
+export const DEFAULT_VISUAL_DIFF_THRESHOLD = 0.1;
+const COMPARE_WIDTH = 640;       // Both screenshots are compared at this size, in grey
+const COMPARE_HEIGHT = 360;
+const END_MARGIN_MS = 100;       // Keep seeks inside the video
+
+/**
+ * One screenshot per recorded step, taken where its narration starts
+ */
+export function planStepScreenshots(stepTimings: StepTiming[], videoDurationMs: number): StepScreenshot[] {
+  const seen = new Set<number>();
+  return [...stepTimings]
+    .sort((a, b) => a.startTimestamp - b.startTimestamp)
+    .filter(timing => !seen.has(timing.stepId) && seen.add(timing.stepId))
+    .map(timing => ({
+      stepId: timing.stepId,
+      timestampMs: Math.max(0, Math.min(timing.startTimestamp, videoDurationMs - END_MARGIN_MS)),
+      file: `screenshots/step_${timing.stepId}.jpg`,
+    }));
+}
+
+/**
+ * Filter graph scoring two images with SSIM, a perceptual similarity measure
+ * that ignores small encoding noise but not moved or restyled elements
+ */
+export function buildSsimFilter(): string {
+  return [
+    `[0:v]scale=${COMPARE_WIDTH}:${COMPARE_HEIGHT},format=gray[current]`,
+    `[1:v]scale=${COMPARE_WIDTH}:${COMPARE_HEIGHT},format=gray[baseline]`,
+    '[current][baseline]ssim',
+  ].join(';');
+}
+
+/**
+ * SSIM (0-1, 1 = identical) from the ssim filter's summary line
+ */
+export function parseSsimScore(output: string): number | null {
+  const match = output.match(/SSIM .*All:([\d.]+)/);
+  return match ? parseFloat(match[1]) : null;
+}
+
+/**
+ * Steps whose screenshot differs from the baseline by more than the threshold are
+ * flagged. Steps without a baseline screenshot (new steps, first render) are listed
+ * with a null difference and never flagged.
+ */
+export function buildVisualDiffReport(
+  options: VisualDiffOptions,
+  screenshots: StepScreenshot[],
+  similarity: Map<number, number>
+): VisualDiffReport {
+  const steps = screenshots.map(screenshot => {
+    const ssim = similarity.get(screenshot.stepId);
+    const difference = ssim === undefined ? null : Math.round((1 - ssim) * 10000) / 10000;
+    return { stepId: screenshot.stepId, difference, changed: difference !== null && difference > options.threshold };
+  });
+
+  return {
+    renderId: options.renderId,
+    ...(options.baselineRenderId ? { baselineRenderId: options.baselineRenderId } : {}),
+    threshold: options.threshold,
+    comparedAt: new Date().toISOString(),
+    steps,
+    changedStepIds: steps.filter(step => step.changed).map(step => step.stepId),
+  };
+}
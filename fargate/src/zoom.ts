@@ -0,0 +1,97 @@
+// 19-10-26: Created zoom-and-pan keyframes and FFmpeg zoompan filter from step target boxes
+// Phase 5: Post-production zoom on the active element
+
+import { ManifestStep, StepTiming, StepTarget, ZoomKeyframe } from './types';
+
+const MAX_ZOOM = 2.5;
+const AUTO_MAX_ZOOM = 2;
+const AUTO_TARGET_FILL = 0.35;   // Automatic zoom makes the element ~35% of the frame width
+const RAMP_MS = 600;             // Ease in/out duration
+const MIN_HOLD_MS = 1500;
+
+/**
+ * Build non-overlapping zoom keyframes: each zoomed step holds on its target
+ * from the moment the target was located until its narration ends (or the
+ * next step starts).
+ */
+export function buildZoomKeyframes(
+  manifest: ManifestStep[],
+  stepTimings: StepTiming[],
+  targets: StepTarget[],
+  options: { autoZoom: boolean; viewportWidth: number; viewportHeight: number; videoWidth: number; videoHeight: number }
+): ZoomKeyframe[] {
+  const stepsById = new Map(manifest.map(step => [step.step_id, step]));
+  const targetsByStep = new Map<number, StepTarget>();
+  for (const target of targets) {
+    if (!targetsByStep.has(target.stepId)) targetsByStep.set(target.stepId, target);
+  }
+
+  const scaleX = options.videoWidth / options.viewportWidth;
+  const scaleY = options.videoHeight / options.viewportHeight;
+  const sortedTimings = [...stepTimings].sort((a, b) => a.startTimestamp - b.startTimestamp);
+  const keyframes: ZoomKeyframe[] = [];
+
+  sortedTimings.forEach((timing, index) => {
+    const target = targetsByStep.get(timing.stepId);
+    if (!target || target.box.width <= 0 || target.box.height <= 0) return;
+
+    const explicitZoom = stepsById.get(timing.stepId)?.zoom;
+    const zoom = explicitZoom !== undefined
+      ? Math.min(MAX_ZOOM, Math.max(1, explicitZoom))
+      : options.autoZoom
+        ? Math.min(AUTO_MAX_ZOOM, Math.max(1, (options.viewportWidth * AUTO_TARGET_FILL) / target.box.width))
+        : 1;
+    if (zoom <= 1.05) return;
+
+    const next = sortedTimings[index + 1];
+    const startMs = Math.max(timing.startTimestamp, target.timestamp - RAMP_MS / 2);
+    let endMs = Math.max(timing.startTimestamp + timing.audioDuration, target.timestamp + MIN_HOLD_MS);
+    if (next) endMs = Math.min(endMs, next.startTimestamp);
+
+    const previous = keyframes[keyframes.length - 1];
+    const clampedStart = previous ? Math.max(startMs, previous.endMs) : startMs;
+    if (endMs - clampedStart < RAMP_MS) return;
+
+    keyframes.push({
+      stepId: timing.stepId,
+      startMs: clampedStart,
+      endMs,
+      zoom: Math.round(zoom * 100) / 100,
+      centerX: Math.round((target.box.x + target.box.width / 2) * scaleX),
+      centerY: Math.round((target.box.y + target.box.height / 2) * scaleY),
+    });
+  });
+
+  return keyframes;
+}
+
+/**
+ * FFmpeg filter chain that eases into each keyframe and back out again.
+ * Each keyframe contributes a 0..1 weight with linear ramps at both ends; since
+ * keyframes never overlap, zoom and centre are blends between 1x/frame centre and the keyframe.
+ */
+export function buildZoomFilter(keyframes: ZoomKeyframe[], width: number, height: number, fps: number): string {
+  const ramp = RAMP_MS / 1000;
+  const weight = (keyframe: ZoomKeyframe) => {
+    const start = (keyframe.startMs / 1000).toFixed(3);
+    const end = (keyframe.endMs / 1000).toFixed(3);
+    return `clip((in_time-${start})/${ramp},0,1)*clip((${end}-in_time)/${ramp},0,1)`;
+  };
+
+  const zoomTerms = keyframes.map(k => `${(k.zoom - 1).toFixed(3)}*${weight(k)}`);
+  const xTerms = keyframes.map(k => `(${k.centerX - width / 2})*${weight(k)}`);
+  const yTerms = keyframes.map(k => `(${k.centerY - height / 2})*${weight(k)}`);
+
+  const zoomExpr = ['1', ...zoomTerms].join('+');
+  const centerX = [`${width / 2}`, ...xTerms].join('+');
+  const centerY = [`${height / 2}`, ...yTerms].join('+');
+
+  // zoompan outputs one frame per input frame only at a constant input rate
+  return [
+    `fps=${fps}`,
+    `zoompan=z='${zoomExpr}'` +
+      `:x='clip(${centerX}-iw/zoom/2,0,iw-iw/zoom)'` +
+      `:y='clip(${centerY}-ih/zoom/2,0,ih-ih/zoom)'` +
+      `:d=1:s=${width}x${height}:fps=${fps}`,
+  ].join(',');
+}
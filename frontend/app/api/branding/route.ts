@@ -0,0 +1,124 @@
+// 19-10-26: Created tenant branding endpoint for intro/outro bumpers
+import { NextRequest, NextResponse } from 'next/server';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
+import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { DEFAULT_BRANDING, validateBranding } from '@/lib/branding';
+import { TenantBranding } from '@/types/project';
+
+// Build credentials only if explicitly provided, otherwise use default chain
+const clientConfig: { region: string; credentials?: { accessKeyId: string; secretAccessKey: string } } = {
+  region: process.env.APP_AWS_REGION || 'us-east-1',
+};
+
+if (process.env.APP_AWS_ACCESS_KEY_ID && process.env.APP_AWS_SECRET_ACCESS_KEY) {
+  clientConfig.credentials = {
+    accessKeyId: process.env.APP_AWS_ACCESS_KEY_ID,
+    secretAccessKey: process.env.APP_AWS_SECRET_ACCESS_KEY,
+  };
+}
+
+const dynamoClient = DynamoDBDocumentClient.from(new DynamoDBClient(clientConfig));
+const s3Client = new S3Client(clientConfig);
+
+const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME || 'VideoSaaS';
+const S3_BUCKET = process.env.S3_BUCKET_NAME || '';
+
+// GET /api/branding - Tenant branding (defaults until it has been saved)
+export async function GET(request: NextRequest) {
+  try {
+    const tenantId = request.headers.get('x-tenant-id') ||
+                     request.nextUrl.searchParams.get('tenantId') ||
+                     'TENANT#demo';
+
+    const formattedTenantId = tenantId.startsWith('TENANT#') ? tenantId : `TENANT#${tenantId}`;
+
+    const result = await dynamoClient.send(new GetCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        PK: formattedTenantId,
+        SK: 'BRANDING',
+      },
+    }));
+
+    const branding: TenantBranding = result.Item
+      ? {
+          logoS3Key: result.Item.logoS3Key,
+          primaryColor: result.Item.primaryColor,
+          backgroundColor: result.Item.backgroundColor,
+          textColor: result.Item.textColor,
+          fontFamily: result.Item.fontFamily,
+          outroText: result.Item.outroText,
+          outroSubtext: result.Item.outroSubtext,
+          introNarration: Boolean(result.Item.introNarration),
+          updatedAt: result.Item.updatedAt,
+        }
+      : DEFAULT_BRANDING;
+
+    let logoUrl: string | null = null;
+    if (branding.logoS3Key && S3_BUCKET) {
+      logoUrl = await getSignedUrl(s3Client, new GetObjectCommand({
+        Bucket: S3_BUCKET,
+        Key: branding.logoS3Key,
+      }), { expiresIn: 3600 });
+    }
+
+    return NextResponse.json({ branding, logoUrl });
+  } catch (error) {
+    console.error('Error fetching branding:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch branding' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/branding - Replace the tenant branding
+export async function PUT(request: NextRequest) {
+  try {
+    const tenantId = request.headers.get('x-tenant-id') ||
+                     request.nextUrl.searchParams.get('tenantId') ||
+                     'TENANT#demo';
+
+    const formattedTenantId = tenantId.startsWith('TENANT#') ? tenantId : `TENANT#${tenantId}`;
+
+    const body = await request.json();
+    const brandingErrors = validateBranding(body);
+    if (brandingErrors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid branding', brandingErrors },
+        { status: 400 }
+      );
+    }
+
+    const branding: TenantBranding = {
+      ...(body.logoS3Key ? { logoS3Key: body.logoS3Key } : {}),
+      primaryColor: body.primaryColor,
+      backgroundColor: body.backgroundColor,
+      textColor: body.textColor,
+      fontFamily: body.fontFamily,
+      outroText: body.outroText.trim(),
+      ...(body.outroSubtext?.trim() ? { outroSubtext: body.outroSubtext.trim() } : {}),
+      introNarration: body.introNarration,
+      updatedAt: new Date().toISOString(),
+    };
+
+    await dynamoClient.send(new PutCommand({
+      TableName: TABLE_NAME,
+      Item: {
+        PK: formattedTenantId,
+        SK: 'BRANDING',
+        ...branding,
+      },
+    }));
+
+    return NextResponse.json({ branding });
+  } catch (error) {
+    console.error('Error saving branding:', error);
+    return NextResponse.json(
+      { error: 'Failed to save branding' },
+      { status: 500 }
+    );
+  }
+}
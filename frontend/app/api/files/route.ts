@@ -1,3 +1,4 @@
+// 19-10-26: Categorize audio uploads as music files
 // 07-12-25: Fixed POST to format tenantId with TENANT# prefix for consistency with GET
 // 07-12-25: Added GET method for listing files
 // 10-12-25: Use default credential chain for Amplify IAM role support
@@ -78,7 +79,9 @@ export async function POST(request: NextRequest) {
     const formattedTenantId = tenantId.startsWith('TENANT#') ? tenantId : `TENANT#${tenantId}`;
 
     const fileId = `FILE#${Date.now()}`;
-    const fileTypeCategory = fileType.includes('pdf') ? 'guide' : 'test';
+    const fileTypeCategory = fileType.includes('pdf')
+      ? 'guide'
+      : fileType.startsWith('audio/') ? 'music' : 'test';
 
     await dynamoClient.send(
       new PutCommand({
@@ -1,10 +1,28 @@
+// 19-10-26: Synthesize in a background job with bounded concurrency and per-step retries; report failed steps in audioProgress
+// 19-10-26: Validate SSML against the engine each step is voiced with
+// 19-10-26: Content-addressed audio - unchanged steps reuse their stored clip; report regenerated steps
+// 19-10-26: Synthesize through a TtsProvider (Polly or local espeak-ng); store locally when no bucket is configured
+// 19-10-26: Voice, engine and speaking rate per step from the project cast
+// 19-10-26: Synthesize translated narration for each extra locale; step durations fit the longest language
+// 19-10-26: Synthesize the project name as intro narration when branded bumpers are enabled
+// 19-10-26: Synthesize SSML narration with validation and store word-level speech marks
+// 19-10-26: Measure exact MP3 duration by parsing frames instead of assuming a fixed bitrate
 // 10-12-25: Fixed AWS credentials for Amplify Hosting Compute
 // 07-12-25: Created audio generation API endpoint using Amazon Polly
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
+import { access, mkdir, writeFile } from 'fs/promises';
+import path from 'path';
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { DynamoDBDocumentClient, GetCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
 import { S3Client, PutObjectCommand, HeadObjectCommand } from '@aws-sdk/client-s3';
-import { PollyClient, SynthesizeSpeechCommand, VoiceId, Engine, OutputFormat } from '@aws-sdk/client-polly';
+import { PollyClient, VoiceId } from '@aws-sdk/client-polly';
+import { getMp3DurationMs } from '@/lib/mp3-duration';
+import { applySpeakingRate, buildSpeechInput, validateSsml, SpeechInput } from '@/lib/ssml';
+import { TtsProvider, createLocalTtsProvider, createPollyTtsProvider, ttsRequestHash } from '@/lib/tts';
+import { getLocaleOption } from '@/lib/locales';
+import { validateSpeakers } from '@/lib/cast';
+import { retryWithBackoff, runWithConcurrency } from '@/lib/job-queue';
+import { AudioStep, AudioStepFailure, CastMember, LocalizedAudio } from '@/types/project';
 
 // Build AWS client config - use explicit credentials only if both are provided
 // In Amplify Hosting Compute, the execution role provides credentials automatically
@@ -30,6 +48,9 @@ const pollyClient = new PollyClient(awsConfig);
 
 const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME || 'VideoSaaS';
 const S3_BUCKET = process.env.S3_BUCKET_NAME || '';
+const LOCAL_AUDIO_DIR = process.env.LOCAL_AUDIO_DIR || path.join(process.cwd(), '.local-audio');
+const AUDIO_CONCURRENCY = Number(process.env.AUDIO_CONCURRENCY) || 4;   // Steps synthesized at once
+const STEP_RETRY = { attempts: 3, baseDelayMs: 1000 };                   // Per step, on any error
 
 // Available Polly voices for narration
 const VOICE_OPTIONS: Record<string, VoiceId> = {
@@ -45,8 +66,61 @@ const VOICE_OPTIONS: Record<string, VoiceId> = {
   amy: 'Amy',            // Female, British English
 };
 
-// Simple MP3 duration estimation (approximate)
-// For production, use ffprobe or a proper audio library
+// Voice settings for one synthesis
+interface StepVoice {
+  voiceId: VoiceId;
+  engine: 'neural' | 'standard';
+  rate: number;   // Percent, 100 = normal
+}
+
+/**
+ * TTS_PROVIDER picks the engine: polly (default, needs AWS credentials and a bucket),
+ * local (espeak-ng + ffmpeg, no AWS) or mock (durations estimated, no audio).
+ * Returns null for mock mode.
+ */
+function selectTtsProvider(): TtsProvider | null {
+  const requested = process.env.TTS_PROVIDER || (process.env.USE_MOCK_POLLY === 'true' ? 'mock' : 'polly');
+  if (requested === 'local') {
+    return createLocalTtsProvider({ espeakPath: process.env.ESPEAK_PATH, ffmpegPath: process.env.FFMPEG_PATH });
+  }
+  if (requested === 'polly' && process.env.APP_AWS_ACCESS_KEY_ID && S3_BUCKET) {
+    return createPollyTtsProvider(pollyClient);
+  }
+  return null;
+}
+
+// Audio goes to S3 when a bucket is configured, otherwise under LOCAL_AUDIO_DIR with the same key layout
+async function putAudioObject(
+  key: string,
+  body: Uint8Array | string,
+  contentType: string,
+  metadata: Record<string, string>
+): Promise<void> {
+  if (!S3_BUCKET) {
+    const filePath = path.join(LOCAL_AUDIO_DIR, key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, body);
+    return;
+  }
+
+  await s3Client.send(new PutObjectCommand({
+    Bucket: S3_BUCKET,
+    Key: key,
+    Body: body,
+    ContentType: contentType,
+    Metadata: metadata,
+  }));
+}
+
+// A step's cast member decides voice, engine and rate; other steps use the narrator voice
+function resolveStepVoice(step: { speaker?: string }, cast: CastMember[], narratorVoice: VoiceId): StepVoice {
+  const member = step.speaker ? cast.find(castMember => castMember.speaker === step.speaker) : undefined;
+  return member
+    ? { voiceId: member.voiceId as VoiceId, engine: member.engine, rate: member.rate }
+    : { voiceId: narratorVoice, engine: 'neural', rate: 100 };
+}
+
+// Duration estimate from text length, only used in mock mode where no audio exists
 function estimateDurationFromText(text: string): number {
   // Average speaking rate: ~150 words per minute
   // Average word length: ~5 characters
@@ -57,63 +131,114 @@ function estimateDurationFromText(text: string): number {
   return Math.round(durationMinutes * 60 * 1000); // Convert to milliseconds
 }
 
-// More accurate duration calculation from audio buffer
-function calculateDurationFromMp3(audioBuffer: Uint8Array): number {
-  // MP3 frame duration approximation
-  // For a more accurate calculation, we'd need to parse MP3 frames
-  // This is a reasonable estimate based on bitrate
-  // Polly outputs at 22050 Hz sample rate, ~48kbps for MP3
-  const bitrate = 48000; // bits per second (approximate for Polly MP3)
-  const durationSeconds = (audioBuffer.length * 8) / bitrate;
-  return Math.round(durationSeconds * 1000); // Convert to milliseconds
+function audioKeyPrefix(projectId: string, tenantId: string, locale?: string): string {
+  const cleanTenantId = tenantId.replace('TENANT#', '');
+  return `audio/${cleanTenantId}/${projectId}${locale ? `/${locale}` : ''}`;
+}
+
+async function audioObjectExists(key: string): Promise<boolean> {
+  if (!S3_BUCKET) {
+    return access(path.join(LOCAL_AUDIO_DIR, key)).then(() => true, () => false);
+  }
+  try {
+    await s3Client.send(new HeadObjectCommand({ Bucket: S3_BUCKET, Key: key }));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Audio already stored for a step (or one of its locales) by a previous run
+interface StoredAudio {
+  audioS3Key?: string;
+  durationMs?: number;
+  speechMarksS3Key?: string;
+  audioHash?: string;
 }
 
 async function generateAudioForStep(
+  provider: TtsProvider,
   stepId: number,
-  narration: string,
+  speech: SpeechInput,
   projectId: string,
   tenantId: string,
-  voiceId: VoiceId = 'Matthew'
-): Promise<{ s3Key: string; durationMs: number }> {
-  // Generate speech using Polly
-  const pollyCommand = new SynthesizeSpeechCommand({
-    Engine: 'neural',
-    OutputFormat: 'mp3',
-    Text: narration,
-    VoiceId: voiceId,
-    TextType: 'text',
-  });
-
-  const pollyResponse = await pollyClient.send(pollyCommand);
-  
-  if (!pollyResponse.AudioStream) {
-    throw new Error('No audio stream returned from Polly');
+  voice: StepVoice,
+  locale?: string,
+  previous?: StoredAudio
+): Promise<{ s3Key: string; durationMs: number; speechMarksS3Key: string; audioHash: string; regenerated: boolean }> {
+  const request = {
+    ...applySpeakingRate(speech, voice.rate),
+    voiceId: voice.voiceId,
+    engine: voice.engine,
+    languageCode: locale,
+  };
+  const audioHash = ttsRequestHash(provider.name, request);
+
+  // Same content as the stored clip - keep it and its speech marks
+  if (previous?.audioHash === audioHash && previous.audioS3Key && previous.speechMarksS3Key && previous.durationMs &&
+      await audioObjectExists(previous.audioS3Key)) {
+    return {
+      s3Key: previous.audioS3Key,
+      durationMs: previous.durationMs,
+      speechMarksS3Key: previous.speechMarksS3Key,
+      audioHash,
+      regenerated: false,
+    };
   }
 
-  // Convert stream to buffer
-  const audioBuffer = await pollyResponse.AudioStream.transformToByteArray();
+  // Audio plus word-level speech marks so later stages know when each word is spoken
+  const { audio, speechMarks } = await provider.synthesize(request);
   
-  // Calculate duration from the audio
-  const durationMs = calculateDurationFromMp3(audioBuffer);
+  // Exact duration from the MP3 frames - drives every wait in _syncStep
+  const durationMs = getMp3DurationMs(audio);
+
+  // Generate S3 key with tenant isolation (extra locales get their own folder)
+  const keyPrefix = audioKeyPrefix(projectId, tenantId, locale);
+  const s3Key = `${keyPrefix}/step_${stepId}.mp3`;
+
+  await putAudioObject(s3Key, audio, 'audio/mpeg', {
+    'project-id': projectId,
+    'step-id': String(stepId),
+    'duration-ms': String(durationMs),
+    'voice-id': voice.voiceId,
+    'tts-provider': provider.name,
+    'content-hash': audioHash,
+  });
 
-  // Generate S3 key with tenant isolation
-  const cleanTenantId = tenantId.replace('TENANT#', '');
-  const s3Key = `audio/${cleanTenantId}/${projectId}/step_${stepId}.mp3`;
+  const speechMarksS3Key = `${keyPrefix}/step_${stepId}.marks.json`;
+  await putAudioObject(speechMarksS3Key, JSON.stringify(speechMarks), 'application/json', {
+    'project-id': projectId,
+    'step-id': String(stepId),
+  });
 
-  // Upload to S3
-  await s3Client.send(new PutObjectCommand({
-    Bucket: S3_BUCKET,
-    Key: s3Key,
-    Body: audioBuffer,
-    ContentType: 'audio/mpeg',
-    Metadata: {
-      'project-id': projectId,
-      'step-id': String(stepId),
-      'duration-ms': String(durationMs),
-    },
-  }));
+  return { s3Key, durationMs, speechMarksS3Key, audioHash, regenerated: true };
+}
 
-  return { s3Key, durationMs };
+// Intro card narration: the project name, spoken with the same voice as the steps
+async function generateIntroNarration(
+  provider: TtsProvider,
+  title: string,
+  projectId: string,
+  tenantId: string,
+  voiceId: VoiceId,
+  locale?: string
+): Promise<string> {
+  const { audio } = await provider.synthesize({
+    text: title,
+    textType: 'text',
+    voiceId,
+    engine: 'neural',
+    languageCode: locale,
+    withSpeechMarks: false,
+  });
+
+  const s3Key = `${audioKeyPrefix(projectId, tenantId, locale)}/intro.mp3`;
+  await putAudioObject(s3Key, audio, 'audio/mpeg', {
+    'project-id': projectId,
+    'duration-ms': String(getMp3DurationMs(audio)),
+  });
+
+  return s3Key;
 }
 
 // Mock audio generation for development
@@ -121,15 +246,248 @@ function generateMockAudio(
   stepId: number,
   narration: string,
   projectId: string,
-  tenantId: string
+  tenantId: string,
+  locale?: string
 ): { s3Key: string; durationMs: number } {
-  const cleanTenantId = tenantId.replace('TENANT#', '');
-  const s3Key = `audio/${cleanTenantId}/${projectId}/step_${stepId}.mp3`;
+  const s3Key = `${audioKeyPrefix(projectId, tenantId, locale)}/step_${stepId}.mp3`;
   const durationMs = estimateDurationFromText(narration);
   
   return { s3Key, durationMs };
 }
 
+// Everything the background job needs once the request has been answered
+interface AudioJob {
+  projectId: string;
+  tenantId: string;
+  manifest: AudioStep[];
+  cast: CastMember[];
+  locales: string[];
+  narratorVoice: VoiceId;
+  localeVoiceIds: Record<string, VoiceId>;
+  introTitle?: string; // Set when the project has branded bumpers
+}
+
+// A step with its audio filled in, and how long the recording waits for it
+interface StepAudio {
+  step: AudioStep;
+  durationMs: number;
+  regenerated: boolean;
+}
+
+async function synthesizeStep(provider: TtsProvider | null, step: AudioStep, job: AudioJob): Promise<StepAudio> {
+  let audioResult: { s3Key: string; durationMs: number; speechMarksS3Key?: string; audioHash?: string; regenerated?: boolean };
+
+  if (!provider) {
+    console.log(`Mock audio generation for step ${step.step_id}`);
+    audioResult = generateMockAudio(step.step_id, step.narration, job.projectId, job.tenantId);
+    // Simulate some processing time
+    await new Promise(resolve => setTimeout(resolve, 100));
+  } else {
+    audioResult = await generateAudioForStep(
+      provider,
+      step.step_id,
+      buildSpeechInput(step),
+      job.projectId,
+      job.tenantId,
+      resolveStepVoice(step, job.cast, job.narratorVoice),
+      undefined,
+      step
+    );
+    console.log(`${audioResult.regenerated ? 'Generated' : 'Reused'} audio for step ${step.step_id} (${provider.name})`);
+  }
+
+  // Translated narration is plain text - SSML markup belongs to the source script -
+  // and every speaker shares the locale's voice
+  const localizedAudio: Record<string, LocalizedAudio> = {};
+  let localeRegenerated = false;
+  for (const locale of job.locales) {
+    const translation = step.translations?.[locale];
+    if (!translation) throw new Error(`Missing ${locale} translation`);
+    const localeResult: { s3Key: string; durationMs: number; speechMarksS3Key?: string; audioHash?: string; regenerated?: boolean } = !provider
+      ? generateMockAudio(step.step_id, translation, job.projectId, job.tenantId, locale)
+      : await generateAudioForStep(
+          provider,
+          step.step_id,
+          { text: translation, textType: 'text' },
+          job.projectId,
+          job.tenantId,
+          { voiceId: job.localeVoiceIds[locale], engine: 'neural', rate: 100 },
+          locale,
+          step.localizedAudio?.[locale]
+        );
+    localizedAudio[locale] = {
+      audioS3Key: localeResult.s3Key,
+      durationMs: localeResult.durationMs,
+      ...(localeResult.speechMarksS3Key ? { speechMarksS3Key: localeResult.speechMarksS3Key } : {}),
+      ...(localeResult.audioHash ? { audioHash: localeResult.audioHash } : {}),
+    };
+    if (localeResult.regenerated !== false) localeRegenerated = true;
+  }
+
+  return {
+    step: {
+      ...step,
+      audioS3Key: audioResult.s3Key,
+      durationMs: audioResult.durationMs,
+      ...(audioResult.speechMarksS3Key ? { speechMarksS3Key: audioResult.speechMarksS3Key } : {}),
+      ...(audioResult.audioHash ? { audioHash: audioResult.audioHash } : {}),
+      ...(job.locales.length > 0 ? { localizedAudio } : {}),
+      audioGenerated: true,
+    },
+    // One recording serves every language, so each step waits for its longest narration
+    durationMs: Math.max(audioResult.durationMs, ...Object.values(localizedAudio).map(audio => audio.durationMs)),
+    // Mock audio counts as regenerated - nothing is stored to reuse
+    regenerated: audioResult.regenerated !== false || localeRegenerated,
+  };
+}
+
+// Store one finished step in place - parallel steps never rewrite each other's entries
+async function recordStepAudio(job: AudioJob, index: number, step: AudioStep): Promise<void> {
+  await dynamoClient.send(new UpdateCommand({
+    TableName: TABLE_NAME,
+    Key: {
+      PK: job.tenantId,
+      SK: `PROJ#${job.projectId}`,
+    },
+    UpdateExpression: `SET #manifest[${index}] = :step, #audioProgress.#completed = #audioProgress.#completed + :one, #updatedAt = :updatedAt`,
+    ExpressionAttributeNames: {
+      '#manifest': 'manifest',
+      '#audioProgress': 'audioProgress',
+      '#completed': 'completed',
+      '#updatedAt': 'updatedAt',
+    },
+    ExpressionAttributeValues: {
+      ':step': step,
+      ':one': 1,
+      ':updatedAt': new Date().toISOString(),
+    },
+  }));
+}
+
+async function recordStepFailure(job: AudioJob, failure: AudioStepFailure): Promise<void> {
+  await dynamoClient.send(new UpdateCommand({
+    TableName: TABLE_NAME,
+    Key: {
+      PK: job.tenantId,
+      SK: `PROJ#${job.projectId}`,
+    },
+    UpdateExpression: 'SET #audioProgress.#failedSteps = list_append(#audioProgress.#failedSteps, :failure), #updatedAt = :updatedAt',
+    ExpressionAttributeNames: {
+      '#audioProgress': 'audioProgress',
+      '#failedSteps': 'failedSteps',
+      '#updatedAt': 'updatedAt',
+    },
+    ExpressionAttributeValues: {
+      ':failure': [failure],
+      ':updatedAt': new Date().toISOString(),
+    },
+  }));
+}
+
+/**
+ * Synthesize every step, a few at a time. A step that still fails after its retries is
+ * listed in audioProgress.failedSteps and the project goes back to APPROVED, so a rerun
+ * only synthesizes what is missing; the others keep their stored audio.
+ */
+async function runAudioJob(job: AudioJob): Promise<void> {
+  const ttsProvider = selectTtsProvider();
+
+  const outcomes = await runWithConcurrency(job.manifest, AUDIO_CONCURRENCY, async (step, index) => {
+    try {
+      const result = await retryWithBackoff(() => synthesizeStep(ttsProvider, step, job), STEP_RETRY);
+      await recordStepAudio(job, index, result.step);
+      return result;
+    } catch (stepError) {
+      console.error(`Error generating audio for step ${step.step_id}:`, stepError);
+      await recordStepFailure(job, {
+        stepId: step.step_id,
+        error: stepError instanceof Error ? stepError.message : 'Unknown error',
+      });
+      return null;
+    }
+  });
+
+  const completed = outcomes.filter((outcome): outcome is StepAudio => outcome !== null);
+  const failedCount = outcomes.length - completed.length;
+  if (failedCount > 0) {
+    console.warn(`Audio generation finished with ${failedCount} failed step(s)`);
+    await dynamoClient.send(new UpdateCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        PK: job.tenantId,
+        SK: `PROJ#${job.projectId}`,
+      },
+      UpdateExpression: 'SET #status = :status, #updatedAt = :updatedAt',
+      ExpressionAttributeNames: {
+        '#status': 'status',
+        '#updatedAt': 'updatedAt',
+      },
+      ExpressionAttributeValues: {
+        ':status': 'APPROVED',
+        ':updatedAt': new Date().toISOString(),
+      },
+    }));
+    return;
+  }
+
+  // Intro narration for the branded intro card - the card is silent without it
+  if (job.introTitle && ttsProvider) {
+    try {
+      const brandingResult = await dynamoClient.send(new GetCommand({
+        TableName: TABLE_NAME,
+        Key: {
+          PK: job.tenantId,
+          SK: 'BRANDING',
+        },
+      }));
+      if (brandingResult.Item?.introNarration) {
+        const introS3Key = await generateIntroNarration(ttsProvider, job.introTitle, job.projectId, job.tenantId, job.narratorVoice);
+        console.log(`Generated intro narration: ${introS3Key}`);
+        // The project name is not translated, only spoken with each locale's voice
+        for (const locale of job.locales) {
+          await generateIntroNarration(ttsProvider, job.introTitle, job.projectId, job.tenantId, job.localeVoiceIds[locale], locale);
+        }
+      }
+    } catch (introError) {
+      console.error('Error generating intro narration:', introError);
+    }
+  }
+
+  const durationMap: Record<number, number> = Object.fromEntries(
+    completed.map(result => [result.step.step_id, result.durationMs])
+  );
+  const regeneratedSteps = completed.filter(result => result.regenerated).map(result => result.step.step_id);
+  const totalDurationMs = Object.values(durationMap).reduce((sum, dur) => sum + dur, 0);
+  console.log(`Audio generated: ${regeneratedSteps.length} of ${completed.length} steps synthesized, ${formatDuration(totalDurationMs)} total`);
+
+  // Manifest entries were stored as each step finished
+  await dynamoClient.send(new UpdateCommand({
+    TableName: TABLE_NAME,
+    Key: {
+      PK: job.tenantId,
+      SK: `PROJ#${job.projectId}`,
+    },
+    UpdateExpression: 'SET #status = :status, #durationMap = :durationMap, #audioProgress = :audioProgress, #updatedAt = :updatedAt',
+    ExpressionAttributeNames: {
+      '#status': 'status',
+      '#durationMap': 'durationMap',
+      '#audioProgress': 'audioProgress',
+      '#updatedAt': 'updatedAt',
+    },
+    ExpressionAttributeValues: {
+      ':status': 'AUDIO_COMPLETE',
+      ':durationMap': durationMap,
+      ':audioProgress': {
+        total: job.manifest.length,
+        completed: job.manifest.length,
+        failedSteps: [],
+        regeneratedSteps,
+      },
+      ':updatedAt': new Date().toISOString(),
+    },
+  }));
+}
+
 // POST /api/projects/[projectId]/audio - Generate audio for all steps
 export async function POST(
   request: NextRequest,
@@ -138,7 +496,7 @@ export async function POST(
   try {
     const { projectId } = await params;
     const body = await request.json().catch(() => ({}));
-    const { voiceId = 'matthew' } = body;
+    const { voiceId = 'matthew', localeVoices = {} } = body;
 
     const tenantId = request.headers.get('x-tenant-id') || 'TENANT#demo';
     const formattedTenantId = tenantId.startsWith('TENANT#') ? tenantId : `TENANT#${tenantId}`;
@@ -172,6 +530,51 @@ export async function POST(
       );
     }
 
+    // Every speaker must be in the cast
+    const cast: CastMember[] = project.cast || [];
+    const speakerErrors = validateSpeakers(project.manifest, cast);
+    if (speakerErrors.length > 0) {
+      return NextResponse.json(
+        { error: 'One or more steps have a speaker that is not in the cast', speakerErrors },
+        { status: 400 }
+      );
+    }
+
+    // Validate SSML for every step, against its voice's engine, before any synthesis starts
+    const selectedVoice = VOICE_OPTIONS[voiceId.toLowerCase()] || 'Matthew';
+    const ssmlErrors = project.manifest
+      .map((step: AudioStep) => {
+        const speech = buildSpeechInput(step);
+        const { engine } = resolveStepVoice(step, cast, selectedVoice);
+        return { stepId: step.step_id, errors: speech.textType === 'ssml' ? validateSsml(speech.text, engine) : [] };
+      })
+      .filter((result: { errors: string[] }) => result.errors.length > 0);
+
+    if (ssmlErrors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid SSML in one or more steps', ssmlErrors },
+        { status: 400 }
+      );
+    }
+
+    // Every extra locale needs a translation for every step before any synthesis starts
+    const locales: string[] = project.locales || [];
+    const missingTranslations = locales
+      .map(locale => ({
+        locale,
+        stepIds: project.manifest
+          .filter((step: AudioStep) => !step.translations?.[locale])
+          .map((step: AudioStep) => step.step_id),
+      }))
+      .filter(result => result.stepIds.length > 0);
+
+    if (missingTranslations.length > 0) {
+      return NextResponse.json(
+        { error: 'Some steps are missing translations. Re-translate the script first.', missingTranslations },
+        { status: 400 }
+      );
+    }
+
     // Update status to AUDIO_GENERATING
     await dynamoClient.send(new UpdateCommand({
       TableName: TABLE_NAME,
@@ -190,88 +593,36 @@ export async function POST(
         ':audioProgress': {
           total: project.manifest.length,
           completed: 0,
-          currentStep: project.manifest[0]?.step_id || 1,
+          failedSteps: [],
         },
         ':updatedAt': new Date().toISOString(),
       },
     }));
 
-    const selectedVoice = VOICE_OPTIONS[voiceId.toLowerCase()] || 'Matthew';
-    const useMock = !process.env.APP_AWS_ACCESS_KEY_ID || 
-                   process.env.USE_MOCK_POLLY === 'true' ||
-                   !S3_BUCKET;
-
-    const results: Array<{ stepId: number; s3Key: string; durationMs: number }> = [];
-    const durationMap: Record<number, number> = {};
-    const updatedManifest = [...project.manifest];
-
-    // Process each step sequentially (could be parallelized for production)
-    for (let i = 0; i < project.manifest.length; i++) {
-      const step = project.manifest[i];
-      
-      try {
-        let audioResult: { s3Key: string; durationMs: number };
-
-        if (useMock) {
-          console.log(`Mock audio generation for step ${step.step_id}`);
-          audioResult = generateMockAudio(step.step_id, step.narration, projectId, formattedTenantId);
-          // Simulate some processing time
-          await new Promise(resolve => setTimeout(resolve, 100));
-        } else {
-          console.log(`Generating audio for step ${step.step_id} using Polly`);
-          audioResult = await generateAudioForStep(
-            step.step_id,
-            step.narration,
-            projectId,
-            formattedTenantId,
-            selectedVoice
-          );
-        }
-
-        results.push({
-          stepId: step.step_id,
-          s3Key: audioResult.s3Key,
-          durationMs: audioResult.durationMs,
-        });
-
-        durationMap[step.step_id] = audioResult.durationMs;
-
-        // Update the manifest step with audio info
-        updatedManifest[i] = {
-          ...step,
-          audioS3Key: audioResult.s3Key,
-          durationMs: audioResult.durationMs,
-          audioGenerated: true,
-        };
+    // Per-locale voice: the requested one if the locale offers it, else the locale default
+    const localeVoiceIds: Record<string, VoiceId> = Object.fromEntries(locales.map(locale => {
+      const voices = getLocaleOption(locale)?.voices || [];
+      const requested = voices.find(voice => voice.id === localeVoices[locale]);
+      return [locale, (requested || voices[0]).id];
+    }));
 
-        // Update progress in DynamoDB
-        await dynamoClient.send(new UpdateCommand({
-          TableName: TABLE_NAME,
-          Key: {
-            PK: formattedTenantId,
-            SK: `PROJ#${projectId}`,
-          },
-          UpdateExpression: 'SET #audioProgress = :audioProgress, #manifest = :manifest, #updatedAt = :updatedAt',
-          ExpressionAttributeNames: {
-            '#audioProgress': 'audioProgress',
-            '#manifest': 'manifest',
-            '#updatedAt': 'updatedAt',
-          },
-          ExpressionAttributeValues: {
-            ':audioProgress': {
-              total: project.manifest.length,
-              completed: i + 1,
-              currentStep: i < project.manifest.length - 1 ? project.manifest[i + 1].step_id : step.step_id,
-            },
-            ':manifest': updatedManifest,
-            ':updatedAt': new Date().toISOString(),
-          },
-        }));
+    const job: AudioJob = {
+      projectId,
+      tenantId: formattedTenantId,
+      manifest: project.manifest,
+      cast,
+      locales,
+      narratorVoice: selectedVoice,
+      localeVoiceIds,
+      ...(project.recordingOptions?.bumpers && project.name ? { introTitle: project.name } : {}),
+    };
 
-      } catch (stepError) {
-        console.error(`Error generating audio for step ${step.step_id}:`, stepError);
-        
-        // Update status to ERROR
+    // Synthesis outlives the request - clients poll the project for audioProgress
+    after(async () => {
+      try {
+        await runAudioJob(job);
+      } catch (jobError) {
+        console.error('Audio generation job failed:', jobError);
         await dynamoClient.send(new UpdateCommand({
           TableName: TABLE_NAME,
           Key: {
@@ -286,56 +637,21 @@ export async function POST(
           },
           ExpressionAttributeValues: {
             ':status': 'ERROR',
-            ':errorMessage': `Failed to generate audio for step ${step.step_id}: ${stepError instanceof Error ? stepError.message : 'Unknown error'}`,
+            ':errorMessage': `Audio generation failed: ${jobError instanceof Error ? jobError.message : 'Unknown error'}`,
             ':updatedAt': new Date().toISOString(),
           },
-        }));
-
-        return NextResponse.json(
-          { error: `Failed to generate audio for step ${step.step_id}` },
-          { status: 500 }
-        );
+        })).catch(updateError => console.error('Failed to record the audio job error:', updateError));
       }
-    }
+    });
 
-    // Update project with final audio data
-    await dynamoClient.send(new UpdateCommand({
-      TableName: TABLE_NAME,
-      Key: {
-        PK: formattedTenantId,
-        SK: `PROJ#${projectId}`,
-      },
-      UpdateExpression: 'SET #status = :status, #manifest = :manifest, #durationMap = :durationMap, #audioProgress = :audioProgress, #updatedAt = :updatedAt',
-      ExpressionAttributeNames: {
-        '#status': 'status',
-        '#manifest': 'manifest',
-        '#durationMap': 'durationMap',
-        '#audioProgress': 'audioProgress',
-        '#updatedAt': 'updatedAt',
-      },
-      ExpressionAttributeValues: {
-        ':status': 'AUDIO_COMPLETE',
-        ':manifest': updatedManifest,
-        ':durationMap': durationMap,
-        ':audioProgress': {
-          total: project.manifest.length,
-          completed: project.manifest.length,
-        },
-        ':updatedAt': new Date().toISOString(),
+    return NextResponse.json(
+      {
+        message: 'Audio generation started',
+        projectId,
+        totalSteps: project.manifest.length,
       },
-    }));
-
-    // Calculate total duration
-    const totalDurationMs = Object.values(durationMap).reduce((sum, dur) => sum + dur, 0);
-
-    return NextResponse.json({
-      message: 'Audio generated successfully',
-      projectId,
-      audioFiles: results,
-      durationMap,
-      totalDurationMs,
-      totalDurationFormatted: formatDuration(totalDurationMs),
-    });
+      { status: 202 }
+    );
   } catch (error) {
     console.error('Error generating audio:', error);
     return NextResponse.json(
@@ -1,3 +1,5 @@
+// 19-10-26: Translate narration into the project's extra locales (also on demand for edited steps)
+// 19-10-26: Record a source anchor for every extracted step
 // 10-12-25: Fixed AWS credentials for Amplify Hosting Compute
 // 10-12-25: Updated to enforce 1:1 manifest-script correspondence for audio sync
 // 07-12-25: Created script generation API endpoint (Bedrock integration)
@@ -6,6 +8,9 @@ import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { DynamoDBDocumentClient, GetCommand, UpdateCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
 import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
 import { BedrockRuntimeClient, InvokeModelCommand } from '@aws-sdk/client-bedrock-runtime';
+import { extractActionAnchors, attachAnchors, ExtractedAction } from '@/lib/step-anchors';
+import { ScriptStep, StepAnchor } from '@/types/project';
+import { getLocaleOption } from '@/lib/locales';
 
 // Build AWS client config - use explicit credentials only if both are provided
 // In Amplify Hosting Compute, the execution role provides credentials automatically
@@ -143,43 +148,6 @@ async function getFileContent(s3Key: string): Promise<string> {
   }
 }
 
-/**
- * Extract Playwright actions from code in ORDER
- * Returns actions in the order they appear in the script
- */
-async function extractPlaywrightSteps(code: string): Promise<string[]> {
-  const lines = code.split('\n');
-  const actions: string[] = [];
-  
-  for (const line of lines) {
-    const trimmedLine = line.trim();
-    
-    // Skip empty lines, comments, and non-action lines
-    if (!trimmedLine || trimmedLine.startsWith('//') || trimmedLine.startsWith('/*')) {
-      continue;
-    }
-    
-    // Match page actions (in order of appearance) - exclude setup actions
-    if (trimmedLine.match(/await\s+page\.(goto|click|fill|type|press|check|uncheck|select|hover|focus|locator)\s*\(/)) {
-      // Clean up the action - extract the meaningful part
-      const actionMatch = trimmedLine.match(/await\s+(page\.[^;]+)/);
-      if (actionMatch) {
-        actions.push(actionMatch[1].replace(/;?\s*$/, ''));
-      }
-    }
-    // Match expect assertions
-    else if (trimmedLine.match(/await\s+expect\s*\(/)) {
-      const expectMatch = trimmedLine.match(/await\s+(expect\([^;]+)/);
-      if (expectMatch) {
-        actions.push(expectMatch[1].replace(/;?\s*$/, ''));
-      }
-    }
-  }
-
-  // Limit but preserve order
-  return actions.slice(0, 50);
-}
-
 async function generateScriptWithBedrock(
   userPrompt: string,
   contextDocs: string,
@@ -238,6 +206,103 @@ TASK:
   }
 }
 
+const TRANSLATION_SYSTEM_PROMPT = `You translate narration for guided product demo videos.
+
+RULES:
+1. Keep the friendly, conversational second-person tone of the source
+2. Keep each narration about as long as the source - it has to fit the same on-screen action
+3. Do NOT translate product names, quoted UI labels or URLs
+4. Return exactly one entry per input step, with the same step_id
+
+OUTPUT FORMAT (JSON array only, no other text):
+[{ "step_id": 1, "narration": "..." }]`;
+
+async function translateNarrationWithBedrock(
+  steps: Array<{ step_id: number; narration: string }>,
+  language: string
+): Promise<Record<number, string>> {
+  const command = new InvokeModelCommand({
+    modelId: 'anthropic.claude-3-sonnet-20240229-v1:0',
+    contentType: 'application/json',
+    accept: 'application/json',
+    body: JSON.stringify({
+      anthropic_version: 'bedrock-2023-05-31',
+      max_tokens: 4096,
+      system: TRANSLATION_SYSTEM_PROMPT,
+      messages: [
+        {
+          role: 'user',
+          content: `Translate the narration of these steps into ${language}:\n${JSON.stringify(steps, null, 2)}`,
+        },
+      ],
+    }),
+  });
+
+  const response = await bedrockClient.send(command);
+  const responseBody = JSON.parse(new TextDecoder().decode(response.body));
+  const textContent = responseBody.content?.[0]?.text || '';
+
+  const jsonMatch = textContent.match(/\[[\s\S]*\]/);
+  if (!jsonMatch) {
+    throw new Error('No valid JSON found in Bedrock translation response');
+  }
+
+  const translated: Record<number, string> = {};
+  for (const entry of JSON.parse(jsonMatch[0])) {
+    if (typeof entry?.step_id === 'number' && typeof entry?.narration === 'string' && entry.narration.trim()) {
+      translated[entry.step_id] = entry.narration.trim();
+    }
+  }
+  return translated;
+}
+
+/**
+ * Fill in missing translations for every extra locale. Existing translations are kept,
+ * so only new or edited steps (whose translations were cleared) are sent to Bedrock.
+ * A locale that fails is reported and left incomplete - audio generation refuses to
+ * run until it has been re-translated.
+ */
+async function translateManifest<T extends Pick<ScriptStep, 'step_id' | 'narration' | 'translations'>>(
+  manifest: T[],
+  locales: string[],
+  useMock: boolean
+): Promise<{ manifest: T[]; translationErrors: string[] }> {
+  const translationErrors: string[] = [];
+  let translatedManifest = manifest;
+
+  for (const locale of locales) {
+    const option = getLocaleOption(locale);
+    const missing = translatedManifest
+      .filter(step => !step.translations?.[locale])
+      .map(step => ({ step_id: step.step_id, narration: step.narration }));
+    if (!option || missing.length === 0) continue;
+
+    let translated: Record<number, string>;
+    if (useMock) {
+      // Mock mode has no translation service - the source narration stands in
+      translated = Object.fromEntries(missing.map(step => [step.step_id, step.narration]));
+    } else {
+      try {
+        translated = await translateNarrationWithBedrock(missing, option.language);
+      } catch (translationError) {
+        console.error(`Translation to ${locale} failed:`, translationError);
+        translationErrors.push(`Translation to ${option.label} failed`);
+        continue;
+      }
+    }
+
+    translatedManifest = translatedManifest.map(step => translated[step.step_id]
+      ? { ...step, translations: { ...step.translations, [locale]: translated[step.step_id] } }
+      : step);
+    const untranslated = missing.filter(step => !translated[step.step_id]).length;
+    if (untranslated > 0) {
+      translationErrors.push(`${untranslated} steps were not translated to ${option.label}`);
+    }
+  }
+
+  return { manifest: translatedManifest, translationErrors };
+}
+
 /**
  * Generate narration for a specific Playwright action
  * 12-12-25: Updated to use natural, conversational demo-style language
@@ -320,30 +385,24 @@ function getNarrationForStep(step: string, stepIndex: number): string {
  * Generate a mock manifest for development/testing when Bedrock is not available
  * Creates exactly ONE manifest entry per code step (1:1 correspondence)
  */
-function generateMockManifest(codeSteps: string[]): any[] {
+function generateMockManifest(codeSteps: ExtractedAction[]): any[] {
   // Default steps if none provided
-  const steps = codeSteps.length > 0 ? codeSteps : [
-    "page.goto('https://www.saucedemo.com/')",
-    "page.locator('[data-test=\"username\"]').fill('standard_user')",
-    "page.locator('[data-test=\"password\"]').fill('secret_sauce')",
-    "page.locator('[data-test=\"login-button\"]').click()",
-    "expect(page).toHaveURL(/.*inventory.html/)",
+  const steps: Array<{ code_action: string; anchor?: StepAnchor }> = codeSteps.length > 0 ? codeSteps : [
+    { code_action: "page.goto('https://www.saucedemo.com/')" },
+    { code_action: "page.locator('[data-test=\"username\"]').fill('standard_user')" },
+    { code_action: "page.locator('[data-test=\"password\"]').fill('secret_sauce')" },
+    { code_action: "page.locator('[data-test=\"login-button\"]').click()" },
+    { code_action: "expect(page).toHaveURL(/.*inventory.html/)" },
   ];
 
-  // Filter out non-action steps like setViewportSize and waitForTimeout
-  const actionSteps = steps.filter(step => {
-    const lowerStep = step.toLowerCase();
-    // Keep meaningful actions, filter out setup/utility calls
-    return !lowerStep.includes('setviewportsize') && 
-           !lowerStep.includes('waitfortimeout');
-  });
-
   // Generate 1:1 manifest entries with conversational narration
-  return actionSteps.map((step, index) => ({
+  // Setup/utility calls are already excluded during extraction
+  return steps.map((step, index) => ({
     step_id: index + 1,
-    code_action: step,
-    narration: getNarrationForStep(step, index),
-    importance: index < 2 ? 'low' : index > actionSteps.length - 3 ? 'high' : 'medium',
+    code_action: step.code_action,
+    narration: getNarrationForStep(step.code_action, index),
+    importance: index < 2 ? 'low' : index > steps.length - 3 ? 'high' : 'medium',
+    ...(step.anchor ? { anchor: step.anchor } : {}),
   }));
 }
 
@@ -353,6 +412,7 @@ export async function POST(
 ) {
   try {
     const { projectId } = await params;
+    const body = await request.json().catch(() => ({}));
     const tenantId = request.headers.get('x-tenant-id') || 'TENANT#demo';
     const formattedTenantId = tenantId.startsWith('TENANT#') ? tenantId : `TENANT#${tenantId}`;
 
@@ -370,6 +430,40 @@ export async function POST(
     }
 
     const project = projectResult.Item;
+    const locales: string[] = project.locales || [];
+    const useMock = !process.env.APP_AWS_ACCESS_KEY_ID || 
+                   process.env.USE_MOCK_BEDROCK === 'true' ||
+                   !S3_BUCKET;
+
+    // Re-translate the (possibly edited) manifest during review without regenerating it
+    if (body.translateOnly) {
+      if (project.status !== 'REVIEW') {
+        return NextResponse.json(
+          { error: 'Translations can only be updated while the script is in review.' },
+          { status: 400 }
+        );
+      }
+
+      const { manifest, translationErrors } = await translateManifest(body.manifest || project.manifest || [], locales, useMock);
+      await dynamoClient.send(new UpdateCommand({
+        TableName: TABLE_NAME,
+        Key: {
+          PK: formattedTenantId,
+          SK: `PROJ#${projectId}`,
+        },
+        UpdateExpression: 'SET #manifest = :manifest, #updatedAt = :updatedAt',
+        ExpressionAttributeNames: {
+          '#manifest': 'manifest',
+          '#updatedAt': 'updatedAt',
+        },
+        ExpressionAttributeValues: {
+          ':manifest': manifest,
+          ':updatedAt': new Date().toISOString(),
+        },
+      }));
+
+      return NextResponse.json({ message: 'Narration translated', manifest, translationErrors });
+    }
 
     // Update status to GENERATING
     await dynamoClient.send(new UpdateCommand({
@@ -393,7 +487,7 @@ export async function POST(
     const selectedFileIds = project.selectedFiles || [];
     let contextDocs = '';
     let rawScriptContent = '';  // Store raw script for Bedrock
-    let codeSteps: string[] = [];  // Extracted steps for mock fallback
+    const codeSteps: ExtractedAction[] = [];  // Extracted steps with source anchors
 
     for (const fileId of selectedFileIds) {
       // Query to get file details
@@ -416,8 +510,8 @@ export async function POST(
         } else if (fileResult.Item.type === 'test') {
           // Store raw script for Bedrock to analyze
           rawScriptContent = content;
-          // Also extract steps for mock fallback
-          const steps = await extractPlaywrightSteps(content);
+          // Extract steps with anchors (file, line range, node hash) for binding at sync time
+          const steps = extractActionAnchors(content, s3Key).slice(0, 50);
           codeSteps.push(...steps);
         }
       }
@@ -426,10 +520,6 @@ export async function POST(
     let manifest: any[];
 
     // Try to use Bedrock, fall back to mock if not configured
-    const useMock = !process.env.APP_AWS_ACCESS_KEY_ID || 
-                   process.env.USE_MOCK_BEDROCK === 'true' ||
-                   !S3_BUCKET;
-
     if (useMock) {
       console.log('Using mock manifest generation (Bedrock not configured)');
       manifest = generateMockManifest(codeSteps);
@@ -440,14 +530,24 @@ export async function POST(
         manifest = await generateScriptWithBedrock(
           project.userPrompt || 'Create a professional video tutorial.',
           contextDocs,
-          rawScriptContent || codeSteps.join('\n')  // Fallback to extracted steps if no raw script
+          rawScriptContent || codeSteps.map(step => step.code_action).join('\n')  // Fallback to extracted steps if no raw script
         );
+        // Bind Bedrock's code_action strings back to the extracted statements
+        manifest = attachAnchors(manifest, codeSteps);
+        const unanchored = manifest.filter(step => !step.anchor).map(step => step.step_id);
+        if (unanchored.length > 0) {
+          console.warn(`Steps without a source anchor: ${unanchored.join(', ')}`);
+        }
       } catch (bedrockError) {
         console.warn('Bedrock failed, falling back to mock:', bedrockError);
         manifest = generateMockManifest(codeSteps);
       }
     }
 
+    // Narration for the extra locales
+    const translationResult = await translateManifest(manifest, locales, useMock);
+    manifest = translationResult.manifest;
+
     // Update project with generated manifest
     await dynamoClient.send(new UpdateCommand({
       TableName: TABLE_NAME,
@@ -471,6 +571,7 @@ export async function POST(
     return NextResponse.json({ 
       message: 'Script generated successfully',
       manifest,
+      translationErrors: translationResult.translationErrors,
     });
   } catch (error) {
     console.error('Error generating script:', error);
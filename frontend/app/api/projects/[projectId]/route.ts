@@ -1,9 +1,20 @@
+// 19-10-26: Validate recording options before storing them
+// 19-10-26: Return the visual diff of the last render
+// 19-10-26: Read and update the validated project cast
+// 19-10-26: Read and update validated extra narration locales
+// 19-10-26: Read and update validated redaction rules
+// 19-10-26: Read and update per-project recording options
+// 19-10-26: Expose syncReport from the last script sync
 // 10-12-25: Fixed AWS credentials for Amplify Hosting Compute
 // 07-12-25: Added Phase 4 fields (audioProgress, durationMap, syncedScriptS3Key)
 // 07-12-25: Created project detail API for fetching and updating projects
 import { NextRequest, NextResponse } from 'next/server';
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { DynamoDBDocumentClient, GetCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { validateRedactions } from '@/lib/redactions';
+import { validateLocales } from '@/lib/locales';
+import { validateCast } from '@/lib/cast';
+import { validateRecordingOptions } from '@/lib/recording-options';
 
 // Build AWS client config - use explicit credentials only if both are provided
 // In Amplify Hosting Compute, the execution role provides credentials automatically
@@ -70,6 +81,12 @@ export async function GET(
       audioProgress: result.Item.audioProgress,
       durationMap: result.Item.durationMap,
       syncedScriptS3Key: result.Item.syncedScriptS3Key,
+      syncReport: result.Item.syncReport,
+      recordingOptions: result.Item.recordingOptions,
+      redactions: result.Item.redactions,
+      locales: result.Item.locales || [],
+      cast: result.Item.cast || [],
+      visualDiff: result.Item.visualDiff,
     };
 
     return NextResponse.json({ project });
@@ -90,7 +107,7 @@ export async function PATCH(
   try {
     const { projectId } = await params;
     const body = await request.json();
-    const { manifest, status } = body;
+    const { manifest, status, recordingOptions, redactions, locales, cast } = body;
 
     const tenantId = request.headers.get('x-tenant-id') || 'TENANT#demo';
     const formattedTenantId = tenantId.startsWith('TENANT#') ? tenantId : `TENANT#${tenantId}`;
@@ -109,6 +126,58 @@ export async function PATCH(
       expressionAttributeValues[':manifest'] = manifest;
     }
 
+    if (recordingOptions) {
+      const recordingOptionErrors = validateRecordingOptions(recordingOptions);
+      if (recordingOptionErrors.length > 0) {
+        return NextResponse.json(
+          { error: 'Invalid recording options', recordingOptionErrors },
+          { status: 400 }
+        );
+      }
+      updateExpressions.push('#recordingOptions = :recordingOptions');
+      expressionAttributeNames['#recordingOptions'] = 'recordingOptions';
+      expressionAttributeValues[':recordingOptions'] = recordingOptions;
+    }
+
+    if (redactions !== undefined) {
+      const redactionErrors = validateRedactions(redactions);
+      if (redactionErrors.length > 0) {
+        return NextResponse.json(
+          { error: 'Invalid redaction rules', redactionErrors },
+          { status: 400 }
+        );
+      }
+      updateExpressions.push('#redactions = :redactions');
+      expressionAttributeNames['#redactions'] = 'redactions';
+      expressionAttributeValues[':redactions'] = redactions;
+    }
+
+    if (locales !== undefined) {
+      const localeErrors = validateLocales(locales);
+      if (localeErrors.length > 0) {
+        return NextResponse.json(
+          { error: 'Invalid locales', localeErrors },
+          { status: 400 }
+        );
+      }
+      updateExpressions.push('#locales = :locales');
+      expressionAttributeNames['#locales'] = 'locales';
+      expressionAttributeValues[':locales'] = locales;
+    }
+
+    if (cast !== undefined) {
+      const castErrors = validateCast(cast);
+      if (castErrors.length > 0) {
+        return NextResponse.json(
+          { error: 'Invalid cast', castErrors },
+          { status: 400 }
+        );
+      }
+      updateExpressions.push('#cast = :cast');
+      expressionAttributeNames['#cast'] = 'cast';
+      expressionAttributeValues[':cast'] = cast;
+    }
+
     if (status) {
       updateExpressions.push('#status = :status');
       expressionAttributeNames['#status'] = 'status';
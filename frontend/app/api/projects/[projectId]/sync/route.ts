@@ -1,3 +1,7 @@
+// 19-10-26: Code-key matching moved to the step-anchors module for the unanchored-step fallback
+// 19-10-26: Pass per-step pacing through to the recorder
+// 19-10-26: Upload the manifest next to the synced script so the recorder can build captions
+// 19-10-26: Bind narration to the source anchors recorded at generation and report unmatched/drifted steps
 // 10-12-25: Fixed AWS credentials for Amplify Hosting Compute
 // 10-12-25: Fixed to match manifest code_action to script lines for proper narration sync
 // 08-12-25: Updated to use __STEP_META__ format for post-recording audio muxing
@@ -7,6 +11,8 @@ import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { DynamoDBDocumentClient, GetCommand, UpdateCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
 import { S3Client, GetObjectCommand, PutObjectCommand } from '@aws-sdk/client-s3';
 import { BedrockRuntimeClient, InvokeModelCommand } from '@aws-sdk/client-bedrock-runtime';
+import { bindStepsToScript, formatStepMeta, lineMatchesAction } from '@/lib/step-anchors';
+import { ScriptStep, StepAnchor, StepBinding } from '@/types/project';
 
 // Build AWS client config - use explicit credentials only if both are provided
 // In Amplify Hosting Compute, the execution role provides credentials automatically
@@ -94,7 +100,7 @@ async function getFileContent(s3Key: string): Promise<string> {
 async function syncScriptWithBedrock(
   originalScript: string,
   durationMap: Record<number, number>,
-  manifest: Array<{ step_id: number; code_action: string; narration: string }>
+  manifest: Array<Pick<ScriptStep, 'step_id' | 'code_action' | 'narration' | 'pacing' | 'pacingMs'>>
 ): Promise<string> {
   // Sort manifest by step_id
   const sortedManifest = [...manifest].sort((a, b) => a.step_id - b.step_id);
@@ -104,7 +110,9 @@ async function syncScriptWithBedrock(
     step_id: step.step_id,
     code_action: step.code_action,
     audioDuration: durationMap[step.step_id] || 2000,
-    narration_preview: step.narration.substring(0, 50)
+    narration_preview: step.narration.substring(0, 50),
+    ...(step.pacing && step.pacing !== 'overlap' && { pacing: step.pacing }),
+    ...(step.pacingMs && { pacingMs: step.pacingMs }),
   }));
   
   const prompt = `ORIGINAL_SCRIPT:
@@ -118,6 +126,7 @@ ${JSON.stringify(manifestInfo, null, 2)}
 INSTRUCTIONS:
 1. For each manifest entry, find the matching script line by comparing code_action
 2. Add // __STEP_META__: {"stepId": <step_id>, "audioDuration": <audioDuration>} BEFORE the matching line
+   (append "pacing" and "pacingMs" to the JSON when the manifest entry has them)
 3. Match by action type (goto, fill, click) and key identifiers (username, password, submit, etc.)
 4. If no match found for a manifest entry, skip it
 5. Keep the original script code exactly as-is
@@ -160,68 +169,13 @@ Return ONLY the annotated TypeScript code.`;
   }
 }
 
-/**
- * Extract key identifiers from a code action for matching
- * e.g., "page.fill('#username', 'test')" -> ['fill', 'username']
- */
-function extractActionKeys(codeAction: string): string[] {
-  const keys: string[] = [];
-  
-  // Extract action type (goto, fill, click, etc.)
-  const actionMatch = codeAction.match(/\.(goto|fill|click|type|press|check|uncheck|select|hover|focus)\s*\(/i);
-  if (actionMatch) {
-    keys.push(actionMatch[1].toLowerCase());
-  }
-  
-  // Extract expect actions
-  const expectMatch = codeAction.match(/expect.*\.(toHaveURL|toHaveText|toBeVisible|toContain)/i);
-  if (expectMatch) {
-    keys.push('expect', expectMatch[1].toLowerCase());
-  }
-  
-  // Extract key identifiers from selectors
-  const identifiers = ['username', 'password', 'email', 'login', 'submit', 'checkout', 'cart', 
-                       'firstName', 'lastName', 'postalCode', 'continue', 'finish', 'backpack',
-                       'inventory', 'complete', 'header'];
-  for (const id of identifiers) {
-    if (codeAction.toLowerCase().includes(id.toLowerCase())) {
-      keys.push(id.toLowerCase());
-    }
-  }
-  
-  return keys;
-}
-
-/**
- * Check if a script line matches a manifest code_action
- */
-function lineMatchesAction(scriptLine: string, codeAction: string): boolean {
-  const actionKeys = extractActionKeys(codeAction);
-  const lineKeys = extractActionKeys(scriptLine);
-  
-  if (actionKeys.length === 0 || lineKeys.length === 0) return false;
-  
-  // Must match action type (first key is usually the action)
-  const actionType = actionKeys[0];
-  if (!lineKeys.includes(actionType)) return false;
-  
-  // Must match at least one identifier if present
-  const actionIdentifiers = actionKeys.slice(1);
-  const lineIdentifiers = lineKeys.slice(1);
-  
-  if (actionIdentifiers.length === 0) return true; // Only action type needed
-  
-  // Check if any identifier matches
-  return actionIdentifiers.some(id => lineIdentifiers.includes(id));
-}
-
 /**
  * Annotate an original script by matching manifest code_actions to script lines
  */
 function annotateOriginalScript(
   originalScript: string,
   durationMap: Record<number, number>,
-  manifest: Array<{ step_id: number; code_action: string; narration: string }>
+  manifest: Array<Pick<ScriptStep, 'step_id' | 'code_action' | 'narration' | 'pacing' | 'pacingMs'>>
 ): string {
   const lines = originalScript.split('\n');
   const annotatedLines: string[] = [];
@@ -241,9 +195,8 @@ function annotateOriginalScript(
         if (matchedSteps.has(step.step_id)) continue;
         
         if (lineMatchesAction(trimmedLine, step.code_action)) {
-          const audioDuration = durationMap[step.step_id] || 2000;
           const indent = line.match(/^(\s*)/)?.[1] || '  ';
-          annotatedLines.push(`${indent}// __STEP_META__: {"stepId": ${step.step_id}, "audioDuration": ${audioDuration}}`);
+          annotatedLines.push(`${indent}${formatStepMeta(step, durationMap[step.step_id] || 2000)}`);
           matchedSteps.add(step.step_id);
           break;
         }
@@ -256,11 +209,33 @@ function annotateOriginalScript(
   return annotatedLines.join('\n');
 }
 
+/**
+ * Pick the script file most manifest steps are anchored to
+ */
+function getPrimaryAnchorFile(manifest: Array<{ anchor?: StepAnchor }>): string | null {
+  const counts = new Map<string, number>();
+  for (const step of manifest) {
+    if (step.anchor?.file) {
+      counts.set(step.anchor.file, (counts.get(step.anchor.file) || 0) + 1);
+    }
+  }
+
+  let primary: string | null = null;
+  let best = 0;
+  for (const [file, count] of counts) {
+    if (count > best) {
+      primary = file;
+      best = count;
+    }
+  }
+  return primary;
+}
+
 // Generate a synchronized script with step metadata for post-recording audio muxing
 function generateMockSyncedScript(
   originalScript: string | null,
   durationMap: Record<number, number>,
-  manifest: Array<{ step_id: number; code_action: string; narration: string }>,
+  manifest: Array<Pick<ScriptStep, 'step_id' | 'code_action' | 'narration' | 'pacing' | 'pacingMs'>>,
   projectId: string
 ): string {
   // If we have an original script, annotate it by matching code_actions
@@ -277,12 +252,11 @@ function generateMockSyncedScript(
   );
   
   const stepsCode = validSteps.map((step) => {
-    const audioDuration = durationMap[step.step_id] || 2000;
     const codeAction = step.code_action.startsWith('await') 
       ? step.code_action 
       : `await ${step.code_action}`;
     
-    return `  // __STEP_META__: {"stepId": ${step.step_id}, "audioDuration": ${audioDuration}}
+    return `  ${formatStepMeta(step, durationMap[step.step_id] || 2000)}
   ${codeAction};`;
   }).join('\n\n');
 
@@ -391,11 +365,25 @@ export async function POST(
     }
 
     let syncedScript: string;
+    let syncReport: StepBinding[] | null = null;
     const useMock = !process.env.APP_AWS_ACCESS_KEY_ID || 
                    process.env.USE_MOCK_BEDROCK === 'true' ||
                    !S3_BUCKET;
 
-    if (useMock || !originalScript) {
+    // Steps carrying source anchors are bound deterministically to the anchored statements
+    const anchoredFile = getPrimaryAnchorFile(project.manifest || []);
+    const anchoredScript = anchoredFile ? await getFileContent(anchoredFile) : '';
+
+    if (anchoredFile && anchoredScript) {
+      console.log(`Binding manifest to source anchors in ${anchoredFile}`);
+      const bindResult = bindStepsToScript(anchoredScript, anchoredFile, project.manifest, project.durationMap);
+      syncedScript = bindResult.script;
+      syncReport = bindResult.bindings;
+
+      for (const binding of syncReport.filter(b => b.status !== 'matched')) {
+        console.warn(`Step ${binding.stepId} ${binding.status}: ${binding.reason}`);
+      }
+    } else if (useMock || !originalScript) {
       console.log('Generating mock synchronized script');
       syncedScript = generateMockSyncedScript(
         originalScript,
@@ -436,6 +424,18 @@ export async function POST(
           'tenant-id': cleanTenantId,
         },
       }));
+
+      // Narration text for captions in the recording container
+      await s3Client.send(new PutObjectCommand({
+        Bucket: S3_BUCKET,
+        Key: `scripts/${cleanTenantId}/${projectId}/manifest.json`,
+        Body: JSON.stringify(project.manifest || []),
+        ContentType: 'application/json',
+        Metadata: {
+          'project-id': projectId,
+          'tenant-id': cleanTenantId,
+        },
+      }));
     }
 
     // Update project with synced script location
@@ -445,15 +445,17 @@ export async function POST(
         PK: formattedTenantId,
         SK: `PROJ#${projectId}`,
       },
-      UpdateExpression: 'SET #status = :status, #syncedScriptS3Key = :syncedScriptS3Key, #updatedAt = :updatedAt',
+      UpdateExpression: 'SET #status = :status, #syncedScriptS3Key = :syncedScriptS3Key, #syncReport = :syncReport, #updatedAt = :updatedAt',
       ExpressionAttributeNames: {
         '#status': 'status',
         '#syncedScriptS3Key': 'syncedScriptS3Key',
+        '#syncReport': 'syncReport',
         '#updatedAt': 'updatedAt',
       },
       ExpressionAttributeValues: {
         ':status': 'RENDERING',
         ':syncedScriptS3Key': syncedScriptS3Key,
+        ':syncReport': syncReport,
         ':updatedAt': new Date().toISOString(),
       },
     }));
@@ -464,6 +466,9 @@ export async function POST(
       syncedScriptS3Key,
       status: 'RENDERING',
       scriptPreview: syncedScript.substring(0, 1000) + '...',
+      syncReport,
+      unmatchedSteps: syncReport?.filter(b => b.status === 'unmatched').map(b => b.stepId) || [],
+      driftedSteps: syncReport?.filter(b => b.status === 'drifted').map(b => b.stepId) || [],
     });
   } catch (error) {
     console.error('Error syncing script:', error);
@@ -0,0 +1,91 @@
+// 19-10-26: Created HLS playlist endpoint that signs segment URIs for the private bucket
+import { NextRequest, NextResponse } from 'next/server';
+import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+
+// Build AWS client config - use explicit credentials only if both are provided
+// In Amplify Hosting Compute, the execution role provides credentials automatically
+const getAwsClientConfig = () => {
+  const config: { region: string; credentials?: { accessKeyId: string; secretAccessKey: string } } = {
+    region: process.env.APP_AWS_REGION || 'us-east-1',
+  };
+
+  if (process.env.APP_AWS_ACCESS_KEY_ID && process.env.APP_AWS_SECRET_ACCESS_KEY) {
+    config.credentials = {
+      accessKeyId: process.env.APP_AWS_ACCESS_KEY_ID,
+      secretAccessKey: process.env.APP_AWS_SECRET_ACCESS_KEY,
+    };
+  }
+
+  return config;
+};
+
+const s3Client = new S3Client(getAwsClientConfig());
+
+const S3_BUCKET = process.env.S3_BUCKET_NAME || '';
+
+// GET /api/projects/[projectId]/video/hls/[...path] - HLS playlist with signed URIs
+// Players fetch playlists without custom headers, so the tenant also comes from ?tenantId=
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string; path: string[] }> }
+) {
+  try {
+    const { projectId, path } = await params;
+    const tenantId = request.headers.get('x-tenant-id') ||
+                     request.nextUrl.searchParams.get('tenantId') ||
+                     'TENANT#demo';
+    const cleanTenantId = tenantId.replace('TENANT#', '');
+
+    const playlistPath = path.join('/');
+    if (!playlistPath.endsWith('.m3u8') || path.some(part => part === '..' || part === '.' || !part)) {
+      return NextResponse.json({ error: 'Invalid playlist path' }, { status: 400 });
+    }
+    if (!S3_BUCKET) {
+      return NextResponse.json({ error: 'S3_BUCKET_NAME environment variable is not set' }, { status: 500 });
+    }
+
+    const hlsPrefix = `videos/${cleanTenantId}/${projectId}/hls`;
+    let playlist: string;
+    try {
+      const response = await s3Client.send(new GetObjectCommand({
+        Bucket: S3_BUCKET,
+        Key: `${hlsPrefix}/${playlistPath}`,
+      }));
+      playlist = await response.Body?.transformToString() || '';
+    } catch {
+      return NextResponse.json({ error: 'Playlist not found' }, { status: 404 });
+    }
+
+    // Nested playlists come back through this route; media segments are signed S3 URLs
+    const playlistDir = path.slice(0, -1).join('/');
+    const tenantQuery = `?tenantId=${encodeURIComponent(cleanTenantId)}`;
+    const lines = await Promise.all(playlist.split('\n').map(async line => {
+      const uri = line.trim();
+      if (!uri || uri.startsWith('#')) return line;
+
+      const relativePath = playlistDir ? `${playlistDir}/${uri}` : uri;
+      if (uri.endsWith('.m3u8')) {
+        return `/api/projects/${projectId}/video/hls/${relativePath}${tenantQuery}`;
+      }
+      return getSignedUrl(s3Client, new GetObjectCommand({
+        Bucket: S3_BUCKET,
+        Key: `${hlsPrefix}/${relativePath}`,
+      }), { expiresIn: 3600 });
+    }));
+
+    return new NextResponse(lines.join('\n'), {
+      headers: {
+        'Content-Type': 'application/vnd.apple.mpegurl',
+        // Signed segment URLs expire, so players must not keep the playlist around
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('Error serving HLS playlist:', error);
+    return NextResponse.json(
+      { error: 'Failed to serve playlist' },
+      { status: 500 }
+    );
+  }
+}
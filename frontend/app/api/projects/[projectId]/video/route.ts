@@ -1,3 +1,25 @@
+// 19-10-26: Record whether the render uploaded previews when marking the project complete
+// 19-10-26: Extra renditions are opt-in per project
+// 19-10-26: Lower thirds and step callouts are opt-in per project
+// 19-10-26: Typing animation is opt-in per project
+// 19-10-26: Auto zoom is opt-in per project
+// 19-10-26: Cursor overlay is opt-in per project
+// 19-10-26: Reject unknown chapter groupings
+// 19-10-26: Store the visual diff on the project when the video completes
+// 19-10-26: Pass the dead-time trimming mode
+// 19-10-26: Pass the project's voiced locales and return the localized video variants
+// 19-10-26: Pass the lower-third and step callout overlay options
+// 19-10-26: Pass tenant branding and the project name for intro/outro bumpers
+// 19-10-26: Return signed poster, animated preview and sprite sheet URLs
+// 19-10-26: Pass the requested renditions and return the HLS playlist and rendition URLs
+// 19-10-26: Pass the loudness target and return the measured loudness report
+// 19-10-26: Pass the music bed file and its volume/fade settings
+// 19-10-26: Pass the project's redaction rules
+// 19-10-26: Pass the typing animation option
+// 19-10-26: Pass the automatic zoom option
+// 19-10-26: Pass the project's cursor overlay options to the recorder
+// 19-10-26: Return the chapters JSON written by the recorder
+// 19-10-26: Pass manifest/caption options to the recorder and return signed caption track URLs
 // 10-12-25: Fixed AWS credentials for Amplify Hosting Compute
 // 08-12-25: Fix video file extension handling - support both mp4 and webm
 // 07-12-25: Created video recording API endpoint for Phase 5
@@ -5,8 +27,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { DynamoDBDocumentClient, GetCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
 import { ECSClient, RunTaskCommand, DescribeTasksCommand } from '@aws-sdk/client-ecs';
-import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
+import { S3Client, GetObjectCommand, HeadObjectCommand } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { ChapterGrouping, LocaleVariant, LoudnessReport, RecordingOptions, RenditionName, SpriteSheetInfo, TenantBranding, VideoChapter, VideoPreviews, VideoRendition, VisualDiffReport } from '@/types/project';
+import { DEFAULT_BRANDING } from '@/lib/branding';
 
 // Build AWS client config - use explicit credentials only if both are provided
 // In Amplify Hosting Compute, the execution role provides credentials automatically
@@ -37,6 +61,17 @@ const ECS_TASK_DEFINITION = process.env.ECS_TASK_FAMILY || 'video-saas-recorder'
 const ECS_SUBNETS = process.env.ECS_SUBNETS?.split(',').filter(s => s.trim()) || [];
 const ECS_SECURITY_GROUPS = process.env.ECS_SECURITY_GROUPS?.split(',').filter(s => s.trim()) || [];
 
+// Post-production effects are opt-in: projects without recordingOptions render as recorded
+const DEFAULT_RECORDING_OPTIONS: RecordingOptions = {
+  cursorOverlay: false,
+  highlightHighImportance: false,
+  autoZoom: false,
+  typingAnimation: false,
+};
+
+const DEFAULT_RENDITIONS: RenditionName[] = [];  // Each rendition is another full encode
+const CHAPTER_GROUPINGS: ChapterGrouping[] = ['auto', 'test-step', 'importance'];
+
 // Debug logging for environment variables
 console.log('=== ECS Config Debug ===');
 console.log('S3_BUCKET:', S3_BUCKET ? 'SET' : 'EMPTY');
@@ -47,6 +82,176 @@ console.log('========================');
 
 interface VideoGenerationRequest {
   useSimpleRecording?: boolean;
+  burnCaptions?: boolean;
+  chapterGrouping?: ChapterGrouping;
+}
+
+/**
+ * Signed URLs for the caption tracks uploaded next to the video, if present
+ */
+async function getCaptionUrls(
+  cleanTenantId: string,
+  projectId: string
+): Promise<{ vttUrl: string; srtUrl: string } | null> {
+  const prefix = `videos/${cleanTenantId}/${projectId}`;
+  try {
+    await s3Client.send(new HeadObjectCommand({
+      Bucket: S3_BUCKET,
+      Key: `${prefix}/captions.vtt`,
+    }));
+  } catch {
+    return null;
+  }
+
+  const [vttUrl, srtUrl] = await Promise.all(
+    ['captions.vtt', 'captions.srt'].map(file =>
+      getSignedUrl(s3Client, new GetObjectCommand({ Bucket: S3_BUCKET, Key: `${prefix}/${file}` }), { expiresIn: 3600 })
+    )
+  );
+  return { vttUrl, srtUrl };
+}
+
+/**
+ * Chapters uploaded next to the video, or an empty list
+ */
+async function getChapters(cleanTenantId: string, projectId: string): Promise<VideoChapter[]> {
+  try {
+    const response = await s3Client.send(new GetObjectCommand({
+      Bucket: S3_BUCKET,
+      Key: `videos/${cleanTenantId}/${projectId}/chapters.json`,
+    }));
+    return JSON.parse(await response.Body?.transformToString() || '[]');
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Loudness measured by the recorder's mastering pass, if present
+ */
+async function getLoudness(cleanTenantId: string, projectId: string): Promise<LoudnessReport | null> {
+  try {
+    const response = await s3Client.send(new GetObjectCommand({
+      Bucket: S3_BUCKET,
+      Key: `videos/${cleanTenantId}/${projectId}/loudness.json`,
+    }));
+    return JSON.parse(await response.Body?.transformToString() || 'null');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Step screenshot comparison written by the recorder, uploaded before the video
+ */
+async function getVisualDiff(cleanTenantId: string, projectId: string): Promise<VisualDiffReport | null> {
+  try {
+    const response = await s3Client.send(new GetObjectCommand({
+      Bucket: S3_BUCKET,
+      Key: `videos/${cleanTenantId}/${projectId}/visual-diff.json`,
+    }));
+    return JSON.parse(await response.Body?.transformToString() || 'null');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Signed URLs for each rendition listed in renditions.json, plus the HLS master
+ * playlist served through the playlist route (S3 cannot sign relative segment URIs)
+ */
+async function getRenditions(
+  cleanTenantId: string,
+  projectId: string
+): Promise<{ playlistUrl: string | null; renditions: VideoRendition[] }> {
+  const prefix = `videos/${cleanTenantId}/${projectId}`;
+  let listed: { name: RenditionName; width: number; height: number; file: string; playlist?: string }[];
+  try {
+    const response = await s3Client.send(new GetObjectCommand({
+      Bucket: S3_BUCKET,
+      Key: `${prefix}/renditions.json`,
+    }));
+    listed = JSON.parse(await response.Body?.transformToString() || '[]');
+  } catch {
+    return { playlistUrl: null, renditions: [] };
+  }
+
+  const renditions = await Promise.all(listed.map(async rendition => ({
+    name: rendition.name,
+    width: rendition.width,
+    height: rendition.height,
+    url: await getSignedUrl(s3Client, new GetObjectCommand({
+      Bucket: S3_BUCKET,
+      Key: `${prefix}/${rendition.file}`,
+      ResponseContentDisposition: `attachment; filename="${projectId}-${rendition.name}.mp4"`,
+    }), { expiresIn: 3600 }),
+    streamable: Boolean(rendition.playlist),
+  })));
+
+  const playlistUrl = renditions.some(rendition => rendition.streamable)
+    ? `/api/projects/${projectId}/video/hls/master.m3u8?tenantId=${encodeURIComponent(cleanTenantId)}`
+    : null;
+  return { playlistUrl, renditions };
+}
+
+/**
+ * Signed URLs for the poster, animated preview and sprite sheet, if they were generated
+ */
+async function getPreviews(cleanTenantId: string, projectId: string): Promise<VideoPreviews | null> {
+  const prefix = `videos/${cleanTenantId}/${projectId}/previews`;
+  let sprite: SpriteSheetInfo | null = null;
+  try {
+    const response = await s3Client.send(new GetObjectCommand({
+      Bucket: S3_BUCKET,
+      Key: `${prefix}/previews.json`,
+    }));
+    sprite = JSON.parse(await response.Body?.transformToString() || 'null');
+  } catch {
+    return null;
+  }
+
+  const [posterUrl, previewUrl, spriteUrl] = await Promise.all(
+    ['poster.jpg', 'preview.webp', 'sprite.jpg'].map(file =>
+      getSignedUrl(s3Client, new GetObjectCommand({ Bucket: S3_BUCKET, Key: `${prefix}/${file}` }), { expiresIn: 3600 })
+    )
+  );
+  return { posterUrl, previewUrl, spriteUrl, sprite };
+}
+
+/**
+ * Localized variants listed by the recorder in locales.json, with signed video and caption URLs
+ */
+async function getLocaleVariants(cleanTenantId: string, projectId: string): Promise<LocaleVariant[]> {
+  const prefix = `videos/${cleanTenantId}/${projectId}`;
+  let listed: { locale: string; file: string; captions?: string; chapters?: string }[];
+  try {
+    const response = await s3Client.send(new GetObjectCommand({
+      Bucket: S3_BUCKET,
+      Key: `${prefix}/locales.json`,
+    }));
+    listed = JSON.parse(await response.Body?.transformToString() || '[]');
+  } catch {
+    return [];
+  }
+
+  return Promise.all(listed.map(async variant => {
+    const sign = (file: string) => getSignedUrl(s3Client, new GetObjectCommand({ Bucket: S3_BUCKET, Key: `${prefix}/${file}` }), { expiresIn: 3600 });
+    let chapters: VideoChapter[] | undefined;
+    if (variant.chapters) {
+      try {
+        const response = await s3Client.send(new GetObjectCommand({ Bucket: S3_BUCKET, Key: `${prefix}/${variant.chapters}` }));
+        chapters = JSON.parse(await response.Body?.transformToString() || '[]');
+      } catch {
+        chapters = undefined;
+      }
+    }
+    return {
+      locale: variant.locale,
+      videoUrl: await sign(variant.file),
+      ...(variant.captions ? { captionsUrl: await sign(variant.captions) } : {}),
+      ...(chapters ? { chapters } : {}),
+    };
+  }));
 }
 
 // POST /api/projects/[projectId]/video - Start video recording
@@ -57,7 +262,14 @@ export async function POST(
   try {
     const { projectId } = await params;
     const body: VideoGenerationRequest = await request.json().catch(() => ({}));
-    const { useSimpleRecording = true } = body;
+    const { useSimpleRecording = true, burnCaptions = false, chapterGrouping = 'auto' } = body;
+
+    if (!CHAPTER_GROUPINGS.includes(chapterGrouping)) {
+      return NextResponse.json(
+        { error: `Unsupported chapter grouping: ${String(chapterGrouping)}` },
+        { status: 400 }
+      );
+    }
 
     const tenantId = request.headers.get('x-tenant-id') || 'TENANT#demo';
     const formattedTenantId = tenantId.startsWith('TENANT#') ? tenantId : `TENANT#${tenantId}`;
@@ -119,6 +331,8 @@ export async function POST(
     // Prepare environment variables for ECS task
     const audioS3Prefix = `audio/${cleanTenantId}/${projectId}/`;
     const outputVideoS3Key = `videos/${cleanTenantId}/${projectId}/recording.mp4`;
+    const manifestS3Key = `scripts/${cleanTenantId}/${projectId}/manifest.json`;
+    const recordingOptions: RecordingOptions = project.recordingOptions || DEFAULT_RECORDING_OPTIONS;
 
     // Check if we should use mock mode (no ECS configured)
     const useMock = !ECS_SUBNETS.length || 
@@ -140,6 +354,33 @@ export async function POST(
       });
     }
 
+    // Tenant branding for the intro/outro cards (stored once per tenant)
+    let branding: TenantBranding | null = null;
+    if (recordingOptions.bumpers) {
+      const brandingResult = await dynamoClient.send(new GetCommand({
+        TableName: TABLE_NAME,
+        Key: {
+          PK: formattedTenantId,
+          SK: 'BRANDING',
+        },
+      }));
+      const settings = brandingResult.Item || DEFAULT_BRANDING;
+      branding = {
+        logoS3Key: settings.logoS3Key,
+        primaryColor: settings.primaryColor,
+        backgroundColor: settings.backgroundColor,
+        textColor: settings.textColor,
+        fontFamily: settings.fontFamily,
+        outroText: settings.outroText,
+        outroSubtext: settings.outroSubtext,
+        introNarration: Boolean(settings.introNarration),
+      };
+    }
+
+    // Only locales whose narration was synthesized can be rendered
+    const locales: string[] = (project.locales || []).filter((locale: string) =>
+      (project.manifest || []).some((step: { localizedAudio?: Record<string, unknown> }) => step.localizedAudio?.[locale]));
+
     // Launch ECS Fargate task
     console.log('Launching ECS Fargate task for video recording...');
     
@@ -167,6 +408,36 @@ export async function POST(
               { name: 'AUDIO_S3_PREFIX', value: audioS3Prefix },
               { name: 'OUTPUT_VIDEO_S3_KEY', value: outputVideoS3Key },
               { name: 'USE_SIMPLE_RECORDING', value: String(useSimpleRecording) },
+              { name: 'MANIFEST_S3_KEY', value: manifestS3Key },
+              { name: 'BURN_CAPTIONS', value: String(burnCaptions) },
+              { name: 'CHAPTER_GROUPING', value: chapterGrouping },
+              { name: 'CURSOR_OVERLAY', value: String(recordingOptions.cursorOverlay ?? false) },
+              { name: 'HIGHLIGHT_HIGH_IMPORTANCE', value: String(recordingOptions.highlightHighImportance ?? false) },
+              { name: 'AUTO_ZOOM', value: String(recordingOptions.autoZoom ?? false) },
+              { name: 'TYPING_ANIMATION', value: String(recordingOptions.typingAnimation ?? false) },
+              { name: 'LOWER_THIRDS', value: String(recordingOptions.lowerThirds ?? false) },
+              { name: 'STEP_CALLOUTS', value: String(recordingOptions.stepCallouts ?? false) },
+              { name: 'DEAD_TIME', value: recordingOptions.deadTime ?? 'off' },
+              { name: 'REDACTIONS', value: JSON.stringify(project.redactions || []) },
+              { name: 'RENDITIONS', value: (recordingOptions.renditions ?? DEFAULT_RENDITIONS).join(',') },
+              ...(recordingOptions.loudnessTarget !== undefined
+                ? [{ name: 'LOUDNESS_TARGET', value: String(recordingOptions.loudnessTarget) }]
+                : []),
+              ...(recordingOptions.music
+                ? [
+                    { name: 'MUSIC_S3_KEY', value: recordingOptions.music.fileKey },
+                    { name: 'MUSIC_VOLUME', value: String(recordingOptions.music.volume) },
+                    { name: 'MUSIC_FADE_IN_MS', value: String(recordingOptions.music.fadeInMs) },
+                    { name: 'MUSIC_FADE_OUT_MS', value: String(recordingOptions.music.fadeOutMs) },
+                  ]
+                : []),
+              ...(locales.length > 0 ? [{ name: 'LOCALES', value: locales.join(',') }] : []),
+              ...(branding
+                ? [
+                    { name: 'BRANDING', value: JSON.stringify(branding) },
+                    { name: 'PROJECT_NAME', value: project.name || '' },
+                  ]
+                : []),
             ],
           },
         ],
@@ -276,6 +547,12 @@ export async function GET(
 
     // If video is complete, generate a signed URL
     let videoUrl = null;
+    let captions = null;
+    let chapters: VideoChapter[] = [];
+    let loudness: LoudnessReport | null = null;
+    let renditionUrls: { playlistUrl: string | null; renditions: VideoRendition[] } = { playlistUrl: null, renditions: [] };
+    let previews: VideoPreviews | null = null;
+    let localeVariants: LocaleVariant[] = [];
     let actualVideoS3Key = project.videoS3Key;
     if (project.status === 'COMPLETE' && S3_BUCKET) {
       // Try to find the video with different extensions (Playwright records webm)
@@ -315,6 +592,13 @@ export async function GET(
       if (!videoUrl) {
         console.warn('Could not find video file in S3');
       }
+
+      captions = await getCaptionUrls(cleanTenantId, projectId);
+      chapters = await getChapters(cleanTenantId, projectId);
+      loudness = await getLoudness(cleanTenantId, projectId);
+      renditionUrls = await getRenditions(cleanTenantId, projectId);
+      previews = await getPreviews(cleanTenantId, projectId);
+      localeVariants = await getLocaleVariants(cleanTenantId, projectId);
     }
 
     // Check ECS task status if VIDEO_GENERATING
@@ -337,18 +621,25 @@ export async function GET(
             // Video file exists! Update status to COMPLETE
             console.log(`Found video at: ${key} - marking as COMPLETE`);
             
+            // Flag steps whose UI changed since the previous render on the project itself
+            const visualDiff = await getVisualDiff(cleanTenantId, projectId);
+            // The projects list only signs thumbnails for renders that produced them
+            previews = await getPreviews(cleanTenantId, projectId);
             await dynamoClient.send(new UpdateCommand({
               TableName: TABLE_NAME,
               Key: {
                 PK: formattedTenantId,
                 SK: `PROJ#${projectId}`,
               },
-              UpdateExpression: 'SET #status = :status, #videoS3Key = :videoS3Key, #videoProgress = :videoProgress, #updatedAt = :updatedAt',
+              // A render without its own report drops the previous render's flags
+              UpdateExpression: `SET #status = :status, #videoS3Key = :videoS3Key, #videoProgress = :videoProgress, #updatedAt = :updatedAt, #hasPreviews = :hasPreviews${visualDiff ? ', #visualDiff = :visualDiff' : ' REMOVE #visualDiff'}`,
               ExpressionAttributeNames: {
                 '#status': 'status',
                 '#videoS3Key': 'videoS3Key',
                 '#videoProgress': 'videoProgress',
                 '#updatedAt': 'updatedAt',
+                '#visualDiff': 'visualDiff',
+                '#hasPreviews': 'hasPreviews',
               },
               ExpressionAttributeValues: {
                 ':status': 'COMPLETE',
@@ -358,6 +649,8 @@ export async function GET(
                   completedAt: new Date().toISOString(),
                 },
                 ':updatedAt': new Date().toISOString(),
+                ':hasPreviews': previews !== null,
+                ...(visualDiff && { ':visualDiff': visualDiff }),
               },
             }));
 
@@ -372,6 +665,13 @@ export async function GET(
               status: 'COMPLETE',
               videoS3Key: key,
               videoUrl: signedVideoUrl,
+              captions: await getCaptionUrls(cleanTenantId, projectId),
+              chapters: await getChapters(cleanTenantId, projectId),
+              loudness: await getLoudness(cleanTenantId, projectId),
+              ...(await getRenditions(cleanTenantId, projectId)),
+              previews,
+              localeVariants: await getLocaleVariants(cleanTenantId, projectId),
+              visualDiff,
               videoProgress: { stage: 'COMPLETE', completedAt: new Date().toISOString() },
               taskStatus,
               durationMap: project.durationMap || null,
@@ -443,6 +743,13 @@ export async function GET(
       status: project.status,
       videoS3Key: actualVideoS3Key || project.videoS3Key || null,
       videoUrl,
+      captions,
+      chapters,
+      loudness,
+      ...renditionUrls,
+      previews,
+      localeVariants,
+      visualDiff: project.visualDiff || null,
       videoProgress: project.videoProgress || null,
       taskStatus,
       durationMap: project.durationMap || null,
@@ -1,9 +1,15 @@
+// 19-10-26: Only sign thumbnail URLs for renders that recorded previews
+// 19-10-26: Accept extra narration locales when creating a project
+// 19-10-26: Attach signed poster and preview URLs to completed projects
 // 10-12-25: Fixed AWS credentials for Amplify Hosting Compute
 // 07-12-25: Created projects API for listing and creating projects
 import { NextRequest, NextResponse } from 'next/server';
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { DynamoDBDocumentClient, QueryCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
+import { S3Client, GetObjectCommand } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { v4 as uuidv4 } from 'uuid';
+import { validateLocales } from '@/lib/locales';
 
 // Build DynamoDB client config
 // In Amplify Hosting Compute, credentials come from the execution role automatically
@@ -28,11 +34,28 @@ const getDynamoDBConfig = () => {
   return config;
 };
 
-const client = new DynamoDBClient(getDynamoDBConfig());
+const awsConfig = getDynamoDBConfig();
+const client = new DynamoDBClient(awsConfig);
+const s3Client = new S3Client(awsConfig);
 
 const docClient = DynamoDBDocumentClient.from(client);
 
 const TABLE_NAME = process.env.DYNAMODB_TABLE_NAME || 'VideoSaaS';
+const S3_BUCKET = process.env.S3_BUCKET_NAME || '';
+
+/**
+ * Signed poster and animated preview URLs for a completed project.
+ * Signing is local, so this adds no S3 round trips; the list hides images that fail to load.
+ */
+async function getThumbnailUrls(formattedTenantId: string, projectId: string) {
+  const prefix = `videos/${formattedTenantId.replace('TENANT#', '')}/${projectId}/previews`;
+  const [posterUrl, previewUrl] = await Promise.all(
+    ['poster.jpg', 'preview.webp'].map(file =>
+      getSignedUrl(s3Client, new GetObjectCommand({ Bucket: S3_BUCKET, Key: `${prefix}/${file}` }), { expiresIn: 3600 })
+    )
+  );
+  return { posterUrl, previewUrl };
+}
 
 // GET /api/projects - List all projects for the tenant
 export async function GET(request: NextRequest) {
@@ -55,7 +78,7 @@ export async function GET(request: NextRequest) {
 
     const result = await docClient.send(command);
     
-    const projects = (result.Items || []).map(item => ({
+    const projects = await Promise.all((result.Items || []).map(async item => ({
       id: item.SK.replace('PROJ#', ''),
       tenantId: item.PK,
       name: item.name,
@@ -66,7 +89,10 @@ export async function GET(request: NextRequest) {
       createdAt: item.createdAt,
       updatedAt: item.updatedAt,
       errorMessage: item.errorMessage,
-    }));
+      ...(item.status === 'COMPLETE' && item.hasPreviews && S3_BUCKET
+        ? await getThumbnailUrls(formattedTenantId, item.SK.replace('PROJ#', ''))
+        : {}),
+    })));
 
     // Sort by creation date (newest first)
     projects.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
@@ -85,7 +111,7 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { name, userPrompt, selectedFiles } = body;
+    const { name, userPrompt, selectedFiles, locales = [] } = body;
 
     if (!name || !selectedFiles || selectedFiles.length === 0) {
       return NextResponse.json(
@@ -94,6 +120,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const localeErrors = validateLocales(locales);
+    if (localeErrors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid locales', localeErrors },
+        { status: 400 }
+      );
+    }
+
     // Get tenant ID from headers (in production, extract from auth token)
     const tenantId = request.headers.get('x-tenant-id') || 'TENANT#demo';
     const formattedTenantId = tenantId.startsWith('TENANT#') ? tenantId : `TENANT#${tenantId}`;
@@ -108,6 +142,7 @@ export async function POST(request: NextRequest) {
       status: 'GENERATING',  // Set to GENERATING since we trigger generation immediately
       userPrompt: userPrompt || 'Create a professional video tutorial.',
       selectedFiles,
+      locales,
       createdAt: now,
       updatedAt: now,
     };
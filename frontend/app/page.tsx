@@ -1,3 +1,4 @@
+// 19-10-26: Added Branding tab for intro/outro bumper settings
 // 10-12-25: Replaced NewProjectModal + ScriptEditor with unified ProjectWizard
 // 10-12-25: Show email instead of username in header
 // 10-12-25: Removed tenant id display from header after login
@@ -9,6 +10,7 @@
 
 import Image from 'next/image';
 import { useState } from 'react';
+import BrandingSettings from '@/components/branding-settings';
 import FileUpload from '@/components/file-upload';
 import ProjectsList from '@/components/projects-list';
 import ProjectWizard from '@/components/project-wizard';
@@ -18,7 +20,7 @@ import { useRouter } from 'next/navigation';
 export default function Home() {
   const { user, email, isLoading, isAuthenticated, logout } = useAuth();
   const router = useRouter();
-  const [activeTab, setActiveTab] = useState<'projects' | 'library'>('projects');
+  const [activeTab, setActiveTab] = useState<'projects' | 'library' | 'branding'>('projects');
   const [showWizard, setShowWizard] = useState(false);
   const [selectedProjectId, setSelectedProjectId] = useState<string | null>(null);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
@@ -131,6 +133,21 @@ export default function Home() {
                 Asset Library
               </span>
             </button>
+            <button
+              onClick={() => setActiveTab('branding')}
+              className={`px-6 py-3 text-sm font-medium border-b-2 transition-colors ${
+                activeTab === 'branding'
+                  ? 'border-neutral-900 text-neutral-900'
+                  : 'border-transparent text-neutral-500 hover:text-neutral-700'
+              }`}
+            >
+              <span className="flex items-center gap-2">
+                <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+                  <path d="M12,3A9,9 0 0,0 3,12A9,9 0 0,0 12,21A1.5,1.5 0 0,0 13.5,19.5C13.5,19.11 13.35,18.76 13.11,18.5C12.88,18.23 12.73,17.88 12.73,17.5A1.5,1.5 0 0,1 14.23,16H16A5,5 0 0,0 21,11C21,6.58 16.97,3 12,3M6.5,12A1.5,1.5 0 0,1 5,10.5A1.5,1.5 0 0,1 6.5,9A1.5,1.5 0 0,1 8,10.5A1.5,1.5 0 0,1 6.5,12M9.5,8A1.5,1.5 0 0,1 8,6.5A1.5,1.5 0 0,1 9.5,5A1.5,1.5 0 0,1 11,6.5A1.5,1.5 0 0,1 9.5,8M14.5,8A1.5,1.5 0 0,1 13,6.5A1.5,1.5 0 0,1 14.5,5A1.5,1.5 0 0,1 16,6.5A1.5,1.5 0 0,1 14.5,8M17.5,12A1.5,1.5 0 0,1 16,10.5A1.5,1.5 0 0,1 17.5,9A1.5,1.5 0 0,1 19,10.5A1.5,1.5 0 0,1 17.5,12Z" />
+                </svg>
+                Branding
+              </span>
+            </button>
           </div>
 
           {activeTab === 'projects' && (
@@ -159,6 +176,14 @@ export default function Home() {
                 refreshTrigger={refreshTrigger}
               />
             </>
+          ) : activeTab === 'branding' ? (
+            <>
+              <h2 className="text-xl font-semibold text-neutral-900 mb-2">Branding</h2>
+              <p className="text-neutral-600 mb-6">
+                Your logo, colours and call to action on the intro and outro of every video.
+              </p>
+              <BrandingSettings />
+            </>
           ) : (
             <>
               <h2 className="text-xl font-semibold text-neutral-900 mb-2">Asset Library</h2>
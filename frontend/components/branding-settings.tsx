@@ -0,0 +1,246 @@
+// 19-10-26: Created tenant branding editor for intro/outro bumpers
+'use client';
+
+import Image from 'next/image';
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { BRAND_FONTS, DEFAULT_BRANDING } from '@/lib/branding';
+import { TenantBranding } from '@/types/project';
+
+const COLOR_FIELDS: Array<{ key: 'primaryColor' | 'backgroundColor' | 'textColor'; label: string }> = [
+  { key: 'primaryColor', label: 'Accent' },
+  { key: 'backgroundColor', label: 'Background' },
+  { key: 'textColor', label: 'Text' },
+];
+
+export default function BrandingSettings() {
+  const { tenantId, isAuthenticated } = useAuth();
+  const [branding, setBranding] = useState<TenantBranding>(DEFAULT_BRANDING);
+  const [logoUrl, setLogoUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [uploadingLogo, setUploadingLogo] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    if (isAuthenticated && tenantId) {
+      fetchBranding();
+    }
+  }, [isAuthenticated, tenantId]);
+
+  const fetchBranding = async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch('/api/branding', {
+        headers: {
+          'x-tenant-id': tenantId || '',
+        },
+      });
+      if (!response.ok) {
+        throw new Error('Failed to fetch branding');
+      }
+      const data = await response.json();
+      setBranding(data.branding);
+      setLogoUrl(data.logoUrl);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load branding');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateBranding = (changes: Partial<TenantBranding>) => {
+    setBranding({ ...branding, ...changes });
+    setSaved(false);
+  };
+
+  const handleLogoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setUploadingLogo(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/upload', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fileName: file.name, fileType: file.type }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to get upload URL');
+      }
+      const { uploadUrl, fileKey } = await response.json();
+
+      // The Content-Type header MUST match what was used to generate the presigned URL
+      const uploadResponse = await fetch(uploadUrl, {
+        method: 'PUT',
+        body: file,
+        headers: { 'Content-Type': file.type },
+      });
+      if (!uploadResponse.ok) {
+        throw new Error(`Failed to upload logo: ${uploadResponse.status} ${uploadResponse.statusText}`);
+      }
+
+      updateBranding({ logoS3Key: fileKey });
+      setLogoUrl(URL.createObjectURL(file));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Logo upload failed');
+    } finally {
+      setUploadingLogo(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/branding', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-tenant-id': tenantId || '',
+        },
+        body: JSON.stringify(branding),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.brandingErrors?.join('; ') || data.error || 'Failed to save branding');
+      }
+      setBranding(data.branding);
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save branding');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid gap-8 md:grid-cols-2">
+      <div className="space-y-5">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Logo</label>
+          <div className="flex items-center gap-4">
+            <div className="flex h-16 w-32 items-center justify-center rounded-md border border-gray-200 bg-gray-50">
+              {logoUrl ? (
+                <Image src={logoUrl} alt="Logo" width={120} height={56} unoptimized className="max-h-14 w-auto object-contain" />
+              ) : (
+                <span className="text-xs text-gray-400">No logo</span>
+              )}
+            </div>
+            <input
+              type="file"
+              accept="image/png,image/jpeg"
+              onChange={handleLogoChange}
+              disabled={uploadingLogo}
+              className="text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+            />
+          </div>
+          {uploadingLogo && <p className="mt-1 text-xs text-gray-500">Uploading...</p>}
+        </div>
+
+        <div className="grid grid-cols-3 gap-3">
+          {COLOR_FIELDS.map(field => (
+            <label key={field.key} className="block text-sm text-gray-700">
+              {field.label}
+              <input
+                type="color"
+                value={branding[field.key]}
+                onChange={(e) => updateBranding({ [field.key]: e.target.value })}
+                className="mt-1 block h-10 w-full rounded-md border border-gray-300"
+              />
+            </label>
+          ))}
+        </div>
+
+        <label className="block text-sm text-gray-700">
+          Font
+          <select
+            value={branding.fontFamily}
+            onChange={(e) => updateBranding({ fontFamily: e.target.value })}
+            className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+          >
+            {BRAND_FONTS.map(font => (
+              <option key={font} value={font}>{font}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="block text-sm text-gray-700">
+          Outro call to action
+          <input
+            type="text"
+            value={branding.outroText}
+            maxLength={80}
+            onChange={(e) => updateBranding({ outroText: e.target.value })}
+            className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+          />
+        </label>
+
+        <label className="block text-sm text-gray-700">
+          Outro subtext
+          <input
+            type="text"
+            value={branding.outroSubtext || ''}
+            maxLength={80}
+            placeholder="e.g. example.com/signup"
+            onChange={(e) => updateBranding({ outroSubtext: e.target.value })}
+            className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+          />
+        </label>
+
+        <label className="flex items-center gap-3 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={branding.introNarration}
+            onChange={(e) => updateBranding({ introNarration: e.target.checked })}
+            className="h-4 w-4 rounded border-gray-300"
+          />
+          Narrate the project name over the intro
+        </label>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        <button
+          onClick={handleSave}
+          disabled={isSaving || uploadingLogo}
+          className="px-4 py-2 bg-neutral-900 text-white rounded-lg shadow-sm hover:bg-neutral-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isSaving ? 'Saving...' : saved ? 'Saved' : 'Save branding'}
+        </button>
+      </div>
+
+      {/* Approximate preview of the outro card */}
+      <div>
+        <p className="text-sm font-medium text-gray-700 mb-2">Outro preview</p>
+        <div
+          className="flex aspect-video flex-col items-center justify-center gap-3 rounded-lg shadow-inner"
+          style={{ backgroundColor: branding.backgroundColor, color: branding.textColor, fontFamily: branding.fontFamily }}
+        >
+          {logoUrl && (
+            <Image src={logoUrl} alt="" width={120} height={40} unoptimized className="max-h-10 w-auto object-contain" />
+          )}
+          <p className="text-xl font-semibold">{branding.outroText || 'Call to action'}</p>
+          <span className="h-1 w-16 rounded" style={{ backgroundColor: branding.primaryColor }} />
+          {branding.outroSubtext && <p className="text-sm opacity-80">{branding.outroSubtext}</p>}
+        </div>
+      </div>
+    </div>
+  );
+}
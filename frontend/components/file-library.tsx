@@ -1,3 +1,4 @@
+// 19-10-26: Show music files (background tracks)
 // 07-12-25: Fixed fetchFiles to pass tenantId header to API
 // 07-12-25: Created file library component for displaying and selecting files
 'use client';
@@ -62,6 +63,12 @@ export default function FileLibrary({ selectedFiles, onSelectionChange, mode }:
             <path d="M14,2H6A2,2 0 0,0 4,4V20A2,2 0 0,0 6,22H18A2,2 0 0,0 20,20V8L14,2M14,18H10V17H14V18M14,15H10V11H14V15M13,9V3.5L18.5,9H13Z" />
           </svg>
         );
+      case 'music':
+        return (
+          <svg className="w-8 h-8 text-purple-500" fill="currentColor" viewBox="0 0 24 24">
+            <path d="M12,3V13.55C11.41,13.21 10.73,13 10,13A4,4 0 0,0 6,17A4,4 0 0,0 10,21A4,4 0 0,0 14,17V7H18V3H12Z" />
+          </svg>
+        );
       case 'playwright':
         return (
           <svg className="w-8 h-8 text-green-500" fill="currentColor" viewBox="0 0 24 24">
@@ -77,8 +84,9 @@ export default function FileLibrary({ selectedFiles, onSelectionChange, mode }:
     }
   };
 
-  const getFileType = (fileName: string): 'pdf' | 'playwright' | 'other' => {
+  const getFileType = (fileName: string): 'pdf' | 'playwright' | 'music' | 'other' => {
     if (fileName.endsWith('.pdf')) return 'pdf';
+    if (/\.(mp3|wav|m4a|aac|ogg)$/i.test(fileName)) return 'music';
     if (fileName.endsWith('.spec.ts') || fileName.endsWith('.test.ts') || fileName.endsWith('.spec.js') || fileName.endsWith('.test.js')) return 'playwright';
     return 'other';
   };
@@ -103,7 +111,7 @@ export default function FileLibrary({ selectedFiles, onSelectionChange, mode }:
     return (
       <div className="text-center py-8 text-gray-500">
         <p>No files in your library yet.</p>
-        <p className="text-sm mt-1">Upload PDF guides or Playwright scripts to get started.</p>
+        <p className="text-sm mt-1">Upload PDF guides, Playwright scripts or background music to get started.</p>
       </div>
     );
   }
@@ -145,9 +153,10 @@ export default function FileLibrary({ selectedFiles, onSelectionChange, mode }:
                 mt-1 text-xs px-2 py-0.5 rounded-full
                 ${fileType === 'pdf' ? 'bg-red-100 text-red-700' : ''}
                 ${fileType === 'playwright' ? 'bg-green-100 text-green-700' : ''}
+                ${fileType === 'music' ? 'bg-purple-100 text-purple-700' : ''}
                 ${fileType === 'other' ? 'bg-gray-100 text-gray-700' : ''}
               `}>
-                {fileType === 'pdf' ? 'PDF Guide' : fileType === 'playwright' ? 'Test Script' : 'Other'}
+                {fileType === 'pdf' ? 'PDF Guide' : fileType === 'playwright' ? 'Test Script' : fileType === 'music' ? 'Music' : 'Other'}
               </span>
             </div>
           </div>
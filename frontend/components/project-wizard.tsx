@@ -1,7 +1,27 @@
+// 19-10-26: Show steps whose audio failed and let the run be retried
+// 19-10-26: Show recording option errors
+// 19-10-26: No extra renditions unless selected
+// 19-10-26: Lower thirds and step callouts start off
+// 19-10-26: Typing animation starts off
+// 19-10-26: Auto zoom starts off
+// 19-10-26: Cursor overlay starts off
+// 19-10-26: Dead-time trimming option
+// 19-10-26: Narration languages, translation review with per-locale voices and a variant switcher
+// 19-10-26: Lower-third and step callout overlay options
+// 19-10-26: Branded intro/outro option
+// 19-10-26: Poster frame on the finished video and a sprite-sheet scrub strip
+// 19-10-26: Rendition selection and rendition downloads / HLS link on the finished video
+// 19-10-26: Loudness target option and measured loudness in the video stats
+// 19-10-26: Background music bed selection with volume and fades
+// 19-10-26: Typing animation option
+// 19-10-26: Automatic zoom option
+// 19-10-26: Recording options (cursor overlay, step highlighting) on the review step
+// 19-10-26: Clickable chapter list that seeks the finished video
+// 19-10-26: Show narration captions on the finished video
 // 10-12-25: Created unified project wizard with auto-advancing steps and progress bar
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import FileLibrary from './file-library';
 import SelectedFilesList from './selected-files-list';
@@ -12,7 +32,22 @@ import {
   getStepFromProjectStatus,
   getStepIndex,
 } from '@/lib/wizard-steps';
-import { Project, AudioStep } from '@/types/project';
+import { Project, AudioStep, VideoChapter, RecordingOptions, FileItem, LoudnessReport, RenditionName, VideoRendition, VideoPreviews, LocaleVariant } from '@/types/project';
+import { SOURCE_LOCALE, SUPPORTED_LOCALES, getLocaleOption } from '@/lib/locales';
+
+const RENDITION_OPTIONS: { name: RenditionName; label: string }[] = [
+  { name: '1080p', label: '1080p' },
+  { name: '720p', label: '720p' },
+  { name: '480p', label: '480p' },
+  { name: 'vertical', label: 'Vertical 9:16' },
+];
+const DEFAULT_RENDITIONS: RenditionName[] = [];
+
+const LOUDNESS_TARGETS = [
+  { lufs: -14, label: '-14 LUFS (streaming platforms)' },
+  { lufs: -16, label: '-16 LUFS (web, default)' },
+  { lufs: -23, label: '-23 LUFS (EBU R128 broadcast)' },
+];
 
 // Voice options for Amazon Polly
 const VOICE_OPTIONS = [
@@ -44,6 +79,15 @@ export default function ProjectWizard({
   const [selectedFiles, setSelectedFiles] = useState<string[]>([]);
   const [userPrompt, setUserPrompt] = useState('');
   const [selectedVoice, setSelectedVoice] = useState('matthew');
+  const [locales, setLocales] = useState<string[]>([]);
+  const [localeVoices, setLocaleVoices] = useState<Record<string, string>>({});
+  const [isTranslating, setIsTranslating] = useState(false);
+  const [recordingOptions, setRecordingOptions] = useState<RecordingOptions>({
+    cursorOverlay: false,
+    highlightHighImportance: true,
+    autoZoom: false,
+    typingAnimation: false,
+  });
   
   // Project state
   const [projectId, setProjectId] = useState<string | null>(existingProjectId || null);
@@ -56,6 +100,16 @@ export default function ProjectWizard({
   const [isProcessing, setIsProcessing] = useState(false);
   const [editingStep, setEditingStep] = useState<number | null>(null);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [captionsUrl, setCaptionsUrl] = useState<string | null>(null);
+  const [chapters, setChapters] = useState<VideoChapter[]>([]);
+  const [loudness, setLoudness] = useState<LoudnessReport | null>(null);
+  const [renditions, setRenditions] = useState<VideoRendition[]>([]);
+  const [playlistUrl, setPlaylistUrl] = useState<string | null>(null);
+  const [previews, setPreviews] = useState<VideoPreviews | null>(null);
+  const [localeVariants, setLocaleVariants] = useState<LocaleVariant[]>([]);
+  const [activeLocale, setActiveLocale] = useState(SOURCE_LOCALE);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [musicFiles, setMusicFiles] = useState<FileItem[]>([]);
 
   // Load existing project if provided
   useEffect(() => {
@@ -65,6 +119,16 @@ export default function ProjectWizard({
     }
   }, [existingProjectId, isOpen]);
 
+  // Load background tracks for the music bed picker on the review step
+  useEffect(() => {
+    if (currentStep !== 'review' || !tenantId) return;
+
+    fetch('/api/files', { headers: { 'x-tenant-id': tenantId } })
+      .then(response => response.ok ? response.json() : { files: [] })
+      .then(data => setMusicFiles((data.files || []).filter((file: FileItem) => file.type === 'music')))
+      .catch(err => console.error('Error loading music files:', err));
+  }, [currentStep, tenantId]);
+
   // Poll for updates during processing steps
   useEffect(() => {
     if (!projectId || !isOpen) return;
@@ -99,6 +163,13 @@ export default function ProjectWizard({
           if (data.videoUrl) {
             setVideoUrl(data.videoUrl);
           }
+          setCaptionsUrl(data.captions?.vttUrl || null);
+          setChapters(data.chapters || []);
+          setLoudness(data.loudness || null);
+          setRenditions(data.renditions || []);
+          setPlaylistUrl(data.playlistUrl || null);
+          setPreviews(data.previews || null);
+          setLocaleVariants(data.localeVariants || []);
         }
       }
     } catch (err) {
@@ -118,6 +189,9 @@ export default function ProjectWizard({
       if (project.manifest) {
         setManifest(project.manifest);
       }
+      if (project.recordingOptions) {
+        setRecordingOptions(project.recordingOptions);
+      }
 
       // Auto-trigger next steps - only once per status
       const triggerKey = `${project.id}-${project.status}`;
@@ -175,6 +249,13 @@ export default function ProjectWizard({
         if (data.videoUrl) {
           setVideoUrl(data.videoUrl);
         }
+        setCaptionsUrl(data.captions?.vttUrl || null);
+        setChapters(data.chapters || []);
+        setLoudness(data.loudness || null);
+        setRenditions(data.renditions || []);
+        setPlaylistUrl(data.playlistUrl || null);
+        setPreviews(data.previews || null);
+        setLocaleVariants(data.localeVariants || []);
       }
     } catch (err) {
       console.error('Error fetching video URL:', err);
@@ -232,6 +313,7 @@ export default function ProjectWizard({
           name: projectName.trim(),
           userPrompt: userPrompt.trim() || 'Create a professional video tutorial.',
           selectedFiles,
+          locales,
         }),
       });
 
@@ -254,11 +336,43 @@ export default function ProjectWizard({
   };
 
   const handleNarrationChange = (stepId: number, newNarration: string) => {
+    // Edited narration makes its translations stale - Re-translate fills them in again
     setManifest(manifest.map(step => 
-      step.step_id === stepId ? { ...step, narration: newNarration } : step
+      step.step_id === stepId ? { ...step, narration: newNarration, translations: undefined } : step
     ));
   };
 
+  const handleRetranslate = async () => {
+    if (!projectId) return;
+
+    setIsTranslating(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/generate`, {
+        method: 'POST',
+        headers: { 
+          'Content-Type': 'application/json',
+          'x-tenant-id': tenantId || '',
+        },
+        body: JSON.stringify({ translateOnly: true, manifest }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to translate narration');
+      }
+      setManifest(data.manifest);
+      if (data.translationErrors?.length > 0) {
+        setError(data.translationErrors.join('; '));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to translate narration');
+    } finally {
+      setIsTranslating(false);
+    }
+  };
+
   const handleApproveAndGenerate = async () => {
     if (!projectId) return;
     
@@ -266,6 +380,20 @@ export default function ProjectWizard({
     setError(null);
 
     try {
+      // Save recording options used later by the video step
+      const optionsResponse = await fetch(`/api/projects/${projectId}`, {
+        method: 'PATCH',
+        headers: { 
+          'Content-Type': 'application/json',
+          'x-tenant-id': tenantId || '',
+        },
+        body: JSON.stringify({ recordingOptions }),
+      });
+      if (!optionsResponse.ok) {
+        const optionsData = await optionsResponse.json();
+        throw new Error(optionsData.recordingOptionErrors?.join('; ') || 'Failed to save recording options');
+      }
+
       // First approve the script
       const approveResponse = await fetch(`/api/projects/${projectId}/approve`, {
         method: 'POST',
@@ -302,7 +430,7 @@ export default function ProjectWizard({
           'Content-Type': 'application/json',
           'x-tenant-id': tenantId || '',
         },
-        body: JSON.stringify({ voiceId: selectedVoice }),
+        body: JSON.stringify({ voiceId: selectedVoice, localeVoices }),
       });
 
       if (!response.ok) {
@@ -316,7 +444,7 @@ export default function ProjectWizard({
     } finally {
       setIsProcessing(false);
     }
-  }, [projectId, selectedVoice, tenantId, isProcessing]);
+  }, [projectId, selectedVoice, localeVoices, tenantId, isProcessing]);
 
   const handleSyncScript = useCallback(async () => {
     if (!projectId || isProcessing) return;
@@ -381,6 +509,10 @@ export default function ProjectWizard({
     setSelectedFiles([]);
     setUserPrompt('');
     setSelectedVoice('matthew');
+    setLocales([]);
+    setLocaleVoices({});
+    setIsTranslating(false);
+    setRecordingOptions({ cursorOverlay: false, highlightHighImportance: true, autoZoom: false, typingAnimation: false });
     setProjectId(null);
     setProject(null);
     setManifest([]);
@@ -389,6 +521,14 @@ export default function ProjectWizard({
     setIsProcessing(false);
     setEditingStep(null);
     setVideoUrl(null);
+    setCaptionsUrl(null);
+    setChapters([]);
+    setLoudness(null);
+    setRenditions([]);
+    setPlaylistUrl(null);
+    setPreviews(null);
+    setLocaleVariants([]);
+    setActiveLocale(SOURCE_LOCALE);
     setAutoTriggered({});
     onClose();
   };
@@ -409,6 +549,27 @@ export default function ProjectWizard({
     }
   };
 
+  const seekTo = (ms: number) => {
+    if (!videoRef.current) return;
+    videoRef.current.currentTime = ms / 1000;
+    videoRef.current.play().catch(() => {});
+  };
+
+  const seekToChapter = (chapter: VideoChapter) => seekTo(chapter.startMs);
+
+  // The player shows the selected language variant; the source recording otherwise
+  const projectLocales = project?.locales || [];
+  const activeVariant = localeVariants.find(variant => variant.locale === activeLocale);
+  const playerVideoUrl = activeVariant?.videoUrl || videoUrl;
+  const playerCaptionsUrl = activeVariant ? activeVariant.captionsUrl : captionsUrl;
+  const playerChapters = activeVariant?.chapters || chapters;
+  // A finished run with failed steps leaves the project APPROVED; a retry only synthesizes what is missing
+  const audioFailures = project?.status === 'APPROVED' ? project.audioProgress?.failedSteps || [] : [];
+  const missingTranslationCount = projectLocales.reduce(
+    (count, locale) => count + manifest.filter(step => !step.translations?.[locale]).length,
+    0
+  );
+
   const formatDuration = (ms: number): string => {
     const seconds = Math.floor(ms / 1000);
     const minutes = Math.floor(seconds / 60);
@@ -538,6 +699,30 @@ export default function ProjectWizard({
                     className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none transition-all"
                   />
                 </div>
+
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">
+                    Additional Languages
+                  </label>
+                  <p className="text-sm text-gray-500 mb-3">
+                    The script is written in English. Each extra language gets translated narration and its own video.
+                  </p>
+                  <div className="grid grid-cols-2 gap-2">
+                    {SUPPORTED_LOCALES.map((locale) => (
+                      <label key={locale.code} className="flex items-center gap-3 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={locales.includes(locale.code)}
+                          onChange={(e) => setLocales(e.target.checked
+                            ? [...locales, locale.code]
+                            : locales.filter(code => code !== locale.code))}
+                          className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                        {locale.label}
+                      </label>
+                    ))}
+                  </div>
+                </div>
               </div>
             )}
 
@@ -580,12 +765,245 @@ export default function ProjectWizard({
                       ))}
                     </select>
                   </div>
+                  {projectLocales.map((code) => {
+                    const locale = getLocaleOption(code);
+                    if (!locale) return null;
+                    return (
+                      <div key={code} className="flex items-center justify-between mt-3">
+                        <p className="text-sm text-indigo-800">{locale.label}</p>
+                        <select
+                          value={localeVoices[code] || locale.voices[0].id}
+                          onChange={(e) => setLocaleVoices({ ...localeVoices, [code]: e.target.value })}
+                          className="px-4 py-2 border border-indigo-200 rounded-lg bg-white text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                        >
+                          {locale.voices.map((voice) => (
+                            <option key={voice.id} value={voice.id}>
+                              {voice.name}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    );
+                  })}
+                </div>
+
+                {/* Recording Options */}
+                <div className="bg-white border border-gray-200 rounded-xl p-5">
+                  <h3 className="font-semibold text-gray-900">Recording Options</h3>
+                  <div className="mt-3 space-y-2">
+                    <label className="flex items-center gap-3 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={recordingOptions.cursorOverlay}
+                        onChange={(e) => setRecordingOptions({ ...recordingOptions, cursorOverlay: e.target.checked })}
+                        className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      Show mouse cursor and click ripples
+                    </label>
+                    <label className={`flex items-center gap-3 text-sm ${recordingOptions.cursorOverlay ? 'text-gray-700' : 'text-gray-400'}`}>
+                      <input
+                        type="checkbox"
+                        checked={recordingOptions.highlightHighImportance}
+                        disabled={!recordingOptions.cursorOverlay}
+                        onChange={(e) => setRecordingOptions({ ...recordingOptions, highlightHighImportance: e.target.checked })}
+                        className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      Outline the target element on high-importance steps
+                    </label>
+                    <label className="flex items-center gap-3 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={recordingOptions.autoZoom ?? false}
+                        onChange={(e) => setRecordingOptions({ ...recordingOptions, autoZoom: e.target.checked })}
+                        className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      Zoom in on small elements automatically
+                    </label>
+                    <label className="flex items-center gap-3 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={recordingOptions.typingAnimation ?? false}
+                        onChange={(e) => setRecordingOptions({ ...recordingOptions, typingAnimation: e.target.checked })}
+                        className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      Animate typing into form fields
+                    </label>
+                    <label className="flex items-center gap-3 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={recordingOptions.lowerThirds ?? false}
+                        onChange={(e) => setRecordingOptions({ ...recordingOptions, lowerThirds: e.target.checked })}
+                        className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      Show a step title at the start of each step
+                    </label>
+                    <label className="flex items-center gap-3 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={recordingOptions.stepCallouts ?? false}
+                        onChange={(e) => setRecordingOptions({ ...recordingOptions, stepCallouts: e.target.checked })}
+                        className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      Point an arrow at the target of high-importance steps
+                    </label>
+                    <label className="flex items-center gap-3 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={recordingOptions.bumpers ?? false}
+                        onChange={(e) => setRecordingOptions({ ...recordingOptions, bumpers: e.target.checked })}
+                        className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      Add branded intro and outro (set up in the Branding tab)
+                    </label>
+                    <label className="block text-sm text-gray-700">
+                      Still stretches without narration (page loads, waits)
+                      <select
+                        value={recordingOptions.deadTime ?? 'off'}
+                        onChange={(e) => setRecordingOptions({ ...recordingOptions, deadTime: e.target.value as RecordingOptions['deadTime'] })}
+                        className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      >
+                        <option value="off">Keep as recorded</option>
+                        <option value="cut">Cut them short</option>
+                        <option value="speed">Speed them up</option>
+                      </select>
+                    </label>
+                  </div>
+                  <div className="mt-4 pt-4 border-t border-gray-100 space-y-3">
+                    <label className="block text-sm font-medium text-gray-700">
+                      Background music
+                      <select
+                        value={recordingOptions.music?.fileKey || ''}
+                        onChange={(e) => setRecordingOptions({
+                          ...recordingOptions,
+                          music: e.target.value
+                            ? { volume: 0.15, fadeInMs: 1500, fadeOutMs: 3000, ...recordingOptions.music, fileKey: e.target.value }
+                            : undefined,
+                        })}
+                        className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      >
+                        <option value="">None</option>
+                        {musicFiles.map((file) => (
+                          <option key={file.id} value={file.s3Key}>
+                            {file.name}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    {musicFiles.length === 0 && (
+                      <p className="text-xs text-gray-500">Upload an audio file to your library to use it as background music.</p>
+                    )}
+                    {recordingOptions.music && (
+                      <div className="grid grid-cols-3 gap-3">
+                        <label className="text-xs text-gray-600">
+                          Volume ({Math.round(recordingOptions.music.volume * 100)}%)
+                          <input
+                            type="range"
+                            min={0}
+                            max={100}
+                            value={Math.round(recordingOptions.music.volume * 100)}
+                            onChange={(e) => setRecordingOptions({
+                              ...recordingOptions,
+                              music: { ...recordingOptions.music!, volume: Number(e.target.value) / 100 },
+                            })}
+                            className="mt-1 w-full"
+                          />
+                        </label>
+                        <label className="text-xs text-gray-600">
+                          Fade in (s)
+                          <input
+                            type="number"
+                            min={0}
+                            max={10}
+                            step={0.5}
+                            value={recordingOptions.music.fadeInMs / 1000}
+                            onChange={(e) => setRecordingOptions({
+                              ...recordingOptions,
+                              music: { ...recordingOptions.music!, fadeInMs: Math.max(0, Number(e.target.value) * 1000) },
+                            })}
+                            className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                          />
+                        </label>
+                        <label className="text-xs text-gray-600">
+                          Fade out (s)
+                          <input
+                            type="number"
+                            min={0}
+                            max={10}
+                            step={0.5}
+                            value={recordingOptions.music.fadeOutMs / 1000}
+                            onChange={(e) => setRecordingOptions({
+                              ...recordingOptions,
+                              music: { ...recordingOptions.music!, fadeOutMs: Math.max(0, Number(e.target.value) * 1000) },
+                            })}
+                            className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                          />
+                        </label>
+                      </div>
+                    )}
+                    <p className="text-xs text-gray-500">Music loops under the video and is lowered automatically while narration plays.</p>
+                  </div>
+                  <div className="mt-4">
+                    <p className="text-sm font-medium text-gray-700">Renditions</p>
+                    <div className="mt-1 flex flex-wrap gap-4">
+                      {RENDITION_OPTIONS.map((option) => {
+                        const selected = (recordingOptions.renditions ?? DEFAULT_RENDITIONS).includes(option.name);
+                        return (
+                          <label key={option.name} className="flex items-center gap-2 text-sm text-gray-700">
+                            <input
+                              type="checkbox"
+                              checked={selected}
+                              onChange={() => {
+                                const current = recordingOptions.renditions ?? DEFAULT_RENDITIONS;
+                                setRecordingOptions({
+                                  ...recordingOptions,
+                                  renditions: selected ? current.filter(name => name !== option.name) : [...current, option.name],
+                                });
+                              }}
+                              className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                            />
+                            {option.label}
+                          </label>
+                        );
+                      })}
+                    </div>
+                    <p className="mt-1 text-xs text-gray-500">Landscape renditions are also packaged for adaptive streaming (HLS).</p>
+                  </div>
+                  <label className="mt-4 block text-sm font-medium text-gray-700">
+                    Loudness target
+                    <select
+                      value={recordingOptions.loudnessTarget ?? -16}
+                      onChange={(e) => setRecordingOptions({ ...recordingOptions, loudnessTarget: Number(e.target.value) })}
+                      className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      {LOUDNESS_TARGETS.map((target) => (
+                        <option key={target.lufs} value={target.lufs}>
+                          {target.label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
                 </div>
 
                 {/* Script Steps */}
                 <div className="space-y-4">
                   <h3 className="text-lg font-semibold text-gray-900">Script Steps ({manifest.length})</h3>
                   <p className="text-sm text-gray-500">Click on any narration to edit it before generating</p>
+                  {projectLocales.length > 0 && (
+                    <div className="flex items-center justify-between bg-amber-50 border border-amber-100 rounded-xl px-4 py-3">
+                      <p className="text-sm text-amber-800">
+                        {missingTranslationCount > 0
+                          ? `${missingTranslationCount} translation(s) missing or out of date`
+                          : 'All translations are up to date'}
+                      </p>
+                      <button
+                        onClick={handleRetranslate}
+                        disabled={isTranslating || missingTranslationCount === 0}
+                        className="px-4 py-1.5 text-sm bg-amber-600 text-white rounded-lg hover:bg-amber-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                      >
+                        {isTranslating ? 'Translating...' : 'Re-translate'}
+                      </button>
+                    </div>
+                  )}
                   
                   {manifest.map((step, index) => (
                     <div
@@ -632,6 +1050,15 @@ export default function ProjectWizard({
                             <p className="text-xs text-gray-400 mt-2">Click to edit</p>
                           </div>
                         )}
+
+                        {projectLocales.map((code) => (
+                          <div key={code} className="mt-2 text-sm">
+                            <span className="text-xs font-medium text-gray-500 uppercase mr-2">{code}</span>
+                            {step.translations?.[code]
+                              ? <span className="text-gray-600">{step.translations[code]}</span>
+                              : <span className="text-amber-700">Not translated</span>}
+                          </div>
+                        ))}
                       </div>
                     </div>
                   ))}
@@ -639,8 +1066,29 @@ export default function ProjectWizard({
               </div>
             )}
 
+            {/* Step: Generating Audio - failed steps */}
+            {currentStep === 'generating-audio' && audioFailures.length > 0 && (
+              <div className="flex flex-col items-center justify-center py-16">
+                <h3 className="text-xl font-semibold text-gray-900">Some narration could not be generated</h3>
+                <ul className="mt-4 w-full max-w-lg bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm space-y-1">
+                  {audioFailures.map(failure => (
+                    <li key={failure.stepId}>
+                      <strong>Step {failure.stepId}:</strong> {failure.error}
+                    </li>
+                  ))}
+                </ul>
+                <button
+                  onClick={handleGenerateAudio}
+                  disabled={isProcessing}
+                  className="mt-6 px-6 py-2.5 bg-blue-600 text-white rounded-xl hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all font-medium shadow-sm"
+                >
+                  Retry Audio
+                </button>
+              </div>
+            )}
+
             {/* Step: Generating Audio */}
-            {currentStep === 'generating-audio' && (
+            {currentStep === 'generating-audio' && audioFailures.length === 0 && (
               <div className="flex flex-col items-center justify-center py-16">
                 <div className="relative">
                   <div className="w-20 h-20 border-4 border-indigo-200 border-t-indigo-600 rounded-full animate-spin" />
@@ -735,15 +1183,47 @@ export default function ProjectWizard({
                       <p className="mt-2 text-gray-600">Your video tutorial has been generated successfully</p>
                     </div>
 
+                    {/* Language variants of the same recording */}
+                    {videoUrl && localeVariants.length > 0 && (
+                      <div className="flex flex-wrap gap-2">
+                        {[SOURCE_LOCALE, ...localeVariants.map(variant => variant.locale)].map((code) => (
+                          <button
+                            key={code}
+                            onClick={() => setActiveLocale(code)}
+                            className={`px-3 py-1.5 text-sm rounded-lg border transition-colors ${
+                              activeLocale === code
+                                ? 'bg-blue-600 text-white border-blue-600'
+                                : 'bg-white text-gray-700 border-gray-200 hover:border-blue-400'
+                            }`}
+                          >
+                            {code === SOURCE_LOCALE ? 'English' : getLocaleOption(code)?.label || code}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+
                     {/* Video Player */}
                     <div className="bg-gray-900 rounded-xl overflow-hidden">
                       <div className="aspect-video relative">
-                        {videoUrl ? (
+                        {playerVideoUrl ? (
                           <video
-                            src={videoUrl}
+                            key={activeLocale}
+                            ref={videoRef}
+                            src={playerVideoUrl}
                             controls
+                            poster={previews?.posterUrl}
+                            crossOrigin="anonymous"
                             className="w-full h-full"
                           >
+                            {playerCaptionsUrl && (
+                              <track
+                                kind="captions"
+                                src={playerCaptionsUrl}
+                                srcLang={activeLocale.split('-')[0]}
+                                label={activeVariant ? getLocaleOption(activeLocale)?.label || activeLocale : 'English'}
+                                default
+                              />
+                            )}
                             Your browser does not support video playback.
                           </video>
                         ) : (
@@ -763,6 +1243,75 @@ export default function ProjectWizard({
                       </div>
                     </div>
 
+                    {/* Scrub strip from the sprite sheet */}
+                    {videoUrl && previews?.sprite && (
+                      <div className="flex gap-1 overflow-x-auto pb-1">
+                        {Array.from({ length: previews.sprite.tileCount }, (_, index) => {
+                          const sprite = previews.sprite!;
+                          return (
+                            <button
+                              key={index}
+                              onClick={() => seekTo(index * sprite.intervalMs)}
+                              title={formatDuration(index * sprite.intervalMs)}
+                              className="shrink-0 rounded border border-gray-200 hover:border-blue-500 transition-colors"
+                              style={{
+                                width: sprite.tileWidth,
+                                height: sprite.tileHeight,
+                                backgroundImage: `url(${previews.spriteUrl})`,
+                                backgroundPosition: `-${(index % sprite.columns) * sprite.tileWidth}px -${Math.floor(index / sprite.columns) * sprite.tileHeight}px`,
+                              }}
+                            />
+                          );
+                        })}
+                      </div>
+                    )}
+
+                    {/* Chapters */}
+                    {videoUrl && playerChapters.length > 0 && (
+                      <div className="bg-white border border-gray-200 rounded-xl overflow-hidden">
+                        <h4 className="px-4 py-3 text-sm font-semibold text-gray-900 border-b border-gray-100">Chapters</h4>
+                        <ul className="divide-y divide-gray-100">
+                          {playerChapters.map((chapter, index) => (
+                            <li key={`${chapter.startMs}-${index}`}>
+                              <button
+                                onClick={() => seekToChapter(chapter)}
+                                className="w-full px-4 py-2.5 flex items-center gap-3 text-left hover:bg-gray-50 transition-colors"
+                              >
+                                <span className="text-xs font-mono text-blue-600 w-12 shrink-0">{formatDuration(chapter.startMs)}</span>
+                                <span className="text-sm text-gray-800 truncate">{chapter.title}</span>
+                                <span className="ml-auto text-xs text-gray-400 shrink-0">
+                                  {chapter.stepIds.length} {chapter.stepIds.length === 1 ? 'step' : 'steps'}
+                                </span>
+                              </button>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+
+                    {/* Renditions */}
+                    {videoUrl && renditions.length > 0 && (
+                      <div className="bg-white border border-gray-200 rounded-xl p-4">
+                        <h4 className="text-sm font-semibold text-gray-900">Downloads</h4>
+                        <div className="mt-2 flex flex-wrap gap-2">
+                          {renditions.map((rendition) => (
+                            <a
+                              key={rendition.name}
+                              href={rendition.url}
+                              className="px-3 py-1.5 text-sm bg-gray-100 text-gray-800 rounded-lg hover:bg-gray-200 transition-colors"
+                            >
+                              {rendition.name === 'vertical' ? 'Vertical 9:16' : rendition.name} · {rendition.width}×{rendition.height}
+                            </a>
+                          ))}
+                        </div>
+                        {playlistUrl && (
+                          <p className="mt-3 text-xs text-gray-500">
+                            HLS stream: <a href={playlistUrl} className="text-blue-600 hover:underline break-all">{playlistUrl}</a>
+                          </p>
+                        )}
+                      </div>
+                    )}
+
                     {/* Video Stats */}
                     <div className="bg-gray-50 rounded-xl p-4 flex items-center justify-around">
                       <div className="text-center">
@@ -773,6 +1322,12 @@ export default function ProjectWizard({
                         <p className="text-2xl font-bold text-gray-900">{formatDuration(getTotalDuration())}</p>
                         <p className="text-sm text-gray-500">Duration</p>
                       </div>
+                      {loudness && (
+                        <div className="text-center" title={`Target ${loudness.targetLufs} LUFS, true peak ${loudness.truePeakDb.toFixed(1)} dBTP`}>
+                          <p className="text-2xl font-bold text-gray-900">{loudness.integratedLufs.toFixed(1)}</p>
+                          <p className="text-sm text-gray-500">LUFS</p>
+                        </div>
+                      )}
                     </div>
                   </>
                 )}
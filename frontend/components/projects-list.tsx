@@ -1,8 +1,10 @@
+// 19-10-26: Poster thumbnail with animated preview on hover for completed projects
 // 07-12-25: Fixed fetchProjects to pass tenantId header to API
 // 07-12-25: Created projects list component for displaying user projects
 'use client';
 
 import { useState, useEffect } from 'react';
+import Image from 'next/image';
 import { useAuth } from '@/contexts/AuthContext';
 import { Project } from '@/types/project';
 
@@ -16,6 +18,8 @@ export default function ProjectsList({ onSelectProject, refreshTrigger }: Projec
   const [projects, setProjects] = useState<Project[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+  const [brokenThumbnails, setBrokenThumbnails] = useState<string[]>([]);
 
   useEffect(() => {
     if (isAuthenticated && tenantId) {
@@ -97,8 +101,21 @@ export default function ProjectsList({ onSelectProject, refreshTrigger }: Projec
         <div
           key={project.id}
           onClick={() => onSelectProject(project.id)}
+          onMouseEnter={() => setHoveredId(project.id)}
+          onMouseLeave={() => setHoveredId(null)}
           className="bg-white border border-gray-200 rounded-lg p-4 hover:shadow-md hover:border-blue-300 transition-all cursor-pointer"
         >
+          {project.posterUrl && !brokenThumbnails.includes(project.id) && (
+            <Image
+              src={hoveredId === project.id && project.previewUrl ? project.previewUrl : project.posterUrl}
+              alt={`${project.name} preview`}
+              width={640}
+              height={360}
+              unoptimized
+              onError={() => setBrokenThumbnails([...brokenThumbnails, project.id])}
+              className="w-full aspect-video object-cover rounded-md bg-gray-100 mb-3"
+            />
+          )}
           <div className="flex items-start justify-between mb-3">
             <h3 className="font-medium text-gray-900 truncate pr-2">{project.name}</h3>
             {getStatusBadge(project.status)}
@@ -1,3 +1,12 @@
+// 19-10-26: Added the steps whose audio failed in the last run
+// 19-10-26: Added SSML checks against the engine of the step's speaker
+// 19-10-26: Added clearing of stale translations on narration edits and a Re-translate action
+// 19-10-26: Added flags for steps whose UI changed since the previous render
+// 19-10-26: Added per-step pacing of narration against the action
+// 19-10-26: Added a cast editor and per-step speaker assignment for dialogue tutorials
+// 19-10-26: Added sensitive flag to mask typed values in the recording
+// 19-10-26: Added per-step zoom level for post-production zoom-and-pan
+// 19-10-26: Added SSML / narration markup editing with inline validation
 // 07-12-25: Added Phase 5 video recording UI
 // 07-12-25: Added Phase 4 audio generation and sync UI
 // 07-12-25: Fixed to pass tenantId header in all API calls
@@ -6,7 +15,24 @@
 
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { Project, AudioStep, VideoProgress } from '@/types/project';
+import { Project, AudioStep, VideoProgress, CastMember, PacingMode } from '@/types/project';
+import { compileNarrationMarkup, validateSsml } from '@/lib/ssml';
+import { CAST_VOICES, DEFAULT_CAST, MAX_CAST, MIN_SPEAKING_RATE, MAX_SPEAKING_RATE } from '@/lib/cast';
+
+const ZOOM_OPTIONS = [
+  { value: 'auto', label: 'Auto Zoom' },
+  { value: '1', label: 'No Zoom' },
+  { value: '1.5', label: 'Zoom 1.5x' },
+  { value: '2', label: 'Zoom 2x' },
+  { value: '2.5', label: 'Zoom 2.5x' },
+];
+
+const PACING_OPTIONS: { value: PacingMode; label: string }[] = [
+  { value: 'overlap', label: 'Together' },
+  { value: 'narrate-then-act', label: 'Narrate, then act' },
+  { value: 'act-then-narrate', label: 'Act, then narrate' },
+  { value: 'hold', label: 'Together, then hold' },
+];
 
 interface ScriptEditorProps {
   projectId: string;
@@ -27,12 +53,14 @@ export default function ScriptEditor({ projectId, onBack }: ScriptEditorProps) {
   const { tenantId } = useAuth();
   const [project, setProject] = useState<Project | null>(null);
   const [manifest, setManifest] = useState<AudioStep[]>([]);
+  const [cast, setCast] = useState<CastMember[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [isApproving, setIsApproving] = useState(false);
   const [isGeneratingAudio, setIsGeneratingAudio] = useState(false);
   const [isSyncing, setIsSyncing] = useState(false);
   const [isGeneratingVideo, setIsGeneratingVideo] = useState(false);
+  const [isTranslating, setIsTranslating] = useState(false);
   const [selectedVoice, setSelectedVoice] = useState('matthew');
   const [error, setError] = useState<string | null>(null);
   const [editingStep, setEditingStep] = useState<number | null>(null);
@@ -71,6 +99,7 @@ export default function ScriptEditor({ projectId, onBack }: ScriptEditorProps) {
       if (data.project.manifest) {
         setManifest(data.project.manifest);
       }
+      setCast(data.project.cast || []);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load project');
     } finally {
@@ -79,8 +108,68 @@ export default function ScriptEditor({ projectId, onBack }: ScriptEditorProps) {
   };
 
   const handleNarrationChange = (stepId: number, newNarration: string) => {
+    // Edited narration makes its translations stale - Re-translate fills them in again
+    setManifest(manifest.map(step => 
+      step.step_id === stepId ? { ...step, narration: newNarration, translations: undefined } : step
+    ));
+  };
+
+  const handleRetranslate = async () => {
+    setIsTranslating(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/generate`, {
+        method: 'POST',
+        headers: { 
+          'Content-Type': 'application/json',
+          'x-tenant-id': tenantId || '',
+        },
+        body: JSON.stringify({ translateOnly: true, manifest }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to translate narration');
+      }
+      setManifest(data.manifest);
+      if (data.translationErrors?.length > 0) {
+        setError(data.translationErrors.join('; '));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to translate narration');
+    } finally {
+      setIsTranslating(false);
+    }
+  };
+
+  const handleSsmlChange = (stepId: number, newSsml: string) => {
+    setManifest(manifest.map(step => 
+      step.step_id === stepId ? { ...step, ssml: newSsml } : step
+    ));
+  };
+
+  const getSsmlErrors = (step: AudioStep): string[] => {
+    if (!step.ssml || !step.ssml.trim()) return [];
+    // Steps without a speaker use the neural narrator voice
+    const engine = cast.find(member => member.speaker === step.speaker)?.engine ?? 'neural';
+    return validateSsml(compileNarrationMarkup(step.ssml), engine);
+  };
+
+  const handleZoomChange = (stepId: number, value: string) => {
+    setManifest(manifest.map(step => {
+      if (step.step_id !== stepId) return step;
+      // 'auto' removes the field so the recorder picks a zoom from the element size
+      const updated = { ...step };
+      if (value === 'auto') delete updated.zoom;
+      else updated.zoom = parseFloat(value);
+      return updated;
+    }));
+  };
+
+  const handleSensitiveChange = (stepId: number, sensitive: boolean) => {
     setManifest(manifest.map(step => 
-      step.step_id === stepId ? { ...step, narration: newNarration } : step
+      step.step_id === stepId ? { ...step, sensitive } : step
     ));
   };
 
@@ -90,6 +179,78 @@ export default function ScriptEditor({ projectId, onBack }: ScriptEditorProps) {
     ));
   };
 
+  const handlePacingChange = (stepId: number, changes: { pacing?: PacingMode; pacingMs?: string }) => {
+    setManifest(manifest.map(step => {
+      if (step.step_id !== stepId) return step;
+      // Defaults are removed rather than stored: overlap with no lead
+      const updated = { ...step };
+      if (changes.pacing !== undefined) {
+        if (changes.pacing === 'overlap') delete updated.pacing;
+        else updated.pacing = changes.pacing;
+        if (changes.pacing === 'narrate-then-act' || changes.pacing === 'act-then-narrate') delete updated.pacingMs;
+      }
+      if (changes.pacingMs !== undefined) {
+        const pacingMs = parseInt(changes.pacingMs, 10);
+        if (pacingMs > 0) updated.pacingMs = Math.min(pacingMs, 10000);
+        else delete updated.pacingMs;
+      }
+      return updated;
+    }));
+  };
+
+  const handleSpeakerChange = (stepId: number, speaker: string) => {
+    setManifest(manifest.map(step => {
+      if (step.step_id !== stepId) return step;
+      // An empty choice removes the field so the step uses the default narrator
+      const updated = { ...step };
+      if (speaker) updated.speaker = speaker;
+      else delete updated.speaker;
+      return updated;
+    }));
+  };
+
+  const handleCastChange = (index: number, changes: Partial<CastMember>) => {
+    const previous = cast[index];
+    setCast(cast.map((member, i) => i === index ? { ...member, ...changes } : member));
+    // Renaming a speaker keeps the steps assigned to it
+    if (changes.speaker !== undefined && changes.speaker !== previous.speaker) {
+      setManifest(manifest.map(step => 
+        step.speaker === previous.speaker ? { ...step, speaker: changes.speaker } : step
+      ));
+    }
+  };
+
+  const handleAddCastMember = () => {
+    const suggestion = DEFAULT_CAST.find(member => !cast.some(existing => existing.speaker === member.speaker));
+    setCast([...cast, suggestion || { ...DEFAULT_CAST[0], speaker: `Speaker ${cast.length + 1}` }]);
+  };
+
+  const handleRemoveCastMember = (index: number) => {
+    const removed = cast[index];
+    setCast(cast.filter((_, i) => i !== index));
+    setManifest(manifest.map(step => {
+      if (step.speaker !== removed.speaker) return step;
+      const updated = { ...step };
+      delete updated.speaker;
+      return updated;
+    }));
+  };
+
+  const saveCast = async () => {
+    const response = await fetch(`/api/projects/${projectId}`, {
+      method: 'PATCH',
+      headers: { 
+        'Content-Type': 'application/json',
+        'x-tenant-id': tenantId || '',
+      },
+      body: JSON.stringify({ cast }),
+    });
+    if (!response.ok) {
+      const data = await response.json();
+      throw new Error(data.castErrors?.join('; ') || data.error || 'Failed to save cast');
+    }
+  };
+
   const handleSaveDraft = async () => {
     setIsSaving(true);
     setError(null);
@@ -101,10 +262,13 @@ export default function ScriptEditor({ projectId, onBack }: ScriptEditorProps) {
           'Content-Type': 'application/json',
           'x-tenant-id': tenantId || '',
         },
-        body: JSON.stringify({ manifest }),
+        body: JSON.stringify({ manifest, cast }),
       });
 
-      if (!response.ok) throw new Error('Failed to save draft');
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.castErrors?.join('; ') || 'Failed to save draft');
+      }
       
       await fetchProject();
     } catch (err) {
@@ -119,6 +283,9 @@ export default function ScriptEditor({ projectId, onBack }: ScriptEditorProps) {
     setError(null);
 
     try {
+      // The approve endpoint only takes the manifest, so the cast is saved first
+      await saveCast();
+
       const response = await fetch(`/api/projects/${projectId}/approve`, {
         method: 'POST',
         headers: { 
@@ -154,6 +321,15 @@ export default function ScriptEditor({ projectId, onBack }: ScriptEditorProps) {
 
       if (!response.ok) {
         const data = await response.json();
+        if (data.ssmlErrors) {
+          const details = data.ssmlErrors
+            .map((e: { stepId: number; errors: string[] }) => `Step ${e.stepId}: ${e.errors.join('; ')}`)
+            .join(' | ');
+          throw new Error(`${data.error}: ${details}`);
+        }
+        if (data.speakerErrors) {
+          throw new Error(`${data.error}: ${data.speakerErrors.join(' | ')}`);
+        }
         throw new Error(data.error || 'Failed to generate audio');
       }
       
@@ -262,6 +438,12 @@ export default function ScriptEditor({ projectId, onBack }: ScriptEditorProps) {
     }
   };
 
+  const projectLocales = project?.locales || [];
+  const missingTranslationCount = projectLocales.reduce(
+    (count, locale) => count + manifest.filter(step => !step.translations?.[locale]).length,
+    0
+  );
+
   const getStatusBadge = (status: string) => {
     const badges: Record<string, { color: string; text: string }> = {
       'DRAFT': { color: 'bg-gray-100 text-gray-700', text: 'Draft' },
@@ -344,6 +526,27 @@ export default function ScriptEditor({ projectId, onBack }: ScriptEditorProps) {
         </div>
       )}
 
+      {/* Steps Whose Audio Failed - Generate Audio retries only those */}
+      {project.status === 'APPROVED' && project.audioProgress?.failedSteps && project.audioProgress.failedSteps.length > 0 && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">
+          <strong>Audio could not be generated for:</strong>
+          <ul className="mt-1 space-y-0.5">
+            {project.audioProgress.failedSteps.map(failure => (
+              <li key={failure.stepId}>Step {failure.stepId}: {failure.error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Visual Diff Against The Previous Render */}
+      {project.visualDiff && project.visualDiff.changedStepIds.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-md text-sm">
+          <strong>UI changed since the previous render:</strong>{' '}
+          {project.visualDiff.changedStepIds.length === 1 ? 'step' : 'steps'} {project.visualDiff.changedStepIds.join(', ')}.
+          Check that their narration still matches what is on screen.
+        </div>
+      )}
+
       {/* Generating State */}
       {project.status === 'GENERATING' && (
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-8 text-center">
@@ -407,10 +610,97 @@ export default function ScriptEditor({ projectId, onBack }: ScriptEditorProps) {
         </div>
       )}
 
+      {/* Cast - speakers steps can be assigned to */}
+      {project.status === 'REVIEW' && manifest.length > 0 && (
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="font-semibold text-gray-900">Cast</h3>
+              <p className="text-sm text-gray-500">
+                Give steps a speaker for dialogue-style tutorials. Steps without one use the narrator voice.
+              </p>
+            </div>
+            <button
+              onClick={handleAddCastMember}
+              disabled={cast.length >= MAX_CAST}
+              className="px-3 py-1.5 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+            >
+              Add speaker
+            </button>
+          </div>
+          {cast.length > 0 && (
+            <div className="mt-3 space-y-2">
+              {cast.map((member, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={member.speaker}
+                    maxLength={30}
+                    onChange={(e) => handleCastChange(index, { speaker: e.target.value })}
+                    className="w-36 px-2 py-1 text-sm border border-gray-300 rounded"
+                  />
+                  <select
+                    value={member.voiceId}
+                    onChange={(e) => handleCastChange(index, { voiceId: e.target.value })}
+                    className="text-sm px-2 py-1 border border-gray-300 rounded bg-white"
+                  >
+                    {CAST_VOICES.map((voice) => (
+                      <option key={voice.id} value={voice.id}>{voice.name}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={member.engine}
+                    onChange={(e) => handleCastChange(index, { engine: e.target.value as CastMember['engine'] })}
+                    className="text-sm px-2 py-1 border border-gray-300 rounded bg-white"
+                  >
+                    <option value="neural">Neural</option>
+                    <option value="standard">Standard</option>
+                  </select>
+                  <label className="flex items-center gap-2 text-xs text-gray-600">
+                    Rate
+                    <input
+                      type="range"
+                      min={MIN_SPEAKING_RATE}
+                      max={MAX_SPEAKING_RATE}
+                      step={5}
+                      value={member.rate}
+                      onChange={(e) => handleCastChange(index, { rate: parseInt(e.target.value, 10) })}
+                    />
+                    <span className="w-10">{member.rate}%</span>
+                  </label>
+                  <button
+                    onClick={() => handleRemoveCastMember(index)}
+                    className="ml-auto text-xs text-red-600 hover:text-red-700"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Script Cards */}
       {manifest.length > 0 && project.status !== 'GENERATING' && (
         <div className="space-y-4">
           <h3 className="text-lg font-semibold text-gray-900">Script Steps ({manifest.length})</h3>
+          {project.status === 'REVIEW' && projectLocales.length > 0 && (
+            <div className="flex items-center justify-between bg-amber-50 border border-amber-100 rounded-lg px-4 py-3">
+              <p className="text-sm text-amber-800">
+                {missingTranslationCount > 0
+                  ? `${missingTranslationCount} translation(s) missing or out of date`
+                  : 'All translations are up to date'}
+              </p>
+              <button
+                onClick={handleRetranslate}
+                disabled={isTranslating || missingTranslationCount === 0}
+                className="px-4 py-1.5 text-sm bg-amber-600 text-white rounded-lg hover:bg-amber-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {isTranslating ? 'Translating...' : 'Re-translate'}
+              </button>
+            </div>
+          )}
           
           {manifest.map((step, index) => (
             <div
@@ -429,6 +719,14 @@ export default function ScriptEditor({ projectId, onBack }: ScriptEditorProps) {
                     </div>
                   </div>
                   <div className="flex items-center gap-2">
+                    {project.visualDiff?.changedStepIds.includes(step.step_id) && (
+                      <span
+                        className="px-2 py-1 bg-amber-100 text-amber-700 rounded text-xs font-medium"
+                        title="The screen at this step differs from the previous render"
+                      >
+                        UI changed
+                      </span>
+                    )}
                     {step.audioGenerated && step.durationMs && (
                       <span className="flex items-center gap-1 px-2 py-1 bg-cyan-100 text-cyan-700 rounded text-xs font-medium">
                         <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 24 24">
@@ -437,6 +735,66 @@ export default function ScriptEditor({ projectId, onBack }: ScriptEditorProps) {
                         {formatDuration(step.durationMs)}
                       </span>
                     )}
+                    {cast.length > 0 && (
+                      <select
+                        value={step.speaker || ''}
+                        onChange={(e) => handleSpeakerChange(step.step_id, e.target.value)}
+                        className="text-xs px-2 py-1 border border-gray-300 rounded bg-white"
+                        disabled={project.status !== 'REVIEW'}
+                        title="Who speaks this step"
+                      >
+                        <option value="">Narrator</option>
+                        {cast.map((member) => (
+                          <option key={member.speaker} value={member.speaker}>{member.speaker}</option>
+                        ))}
+                      </select>
+                    )}
+                    <label className="flex items-center gap-1 text-xs text-gray-600" title="Mask values typed during this step">
+                      <input
+                        type="checkbox"
+                        checked={step.sensitive || false}
+                        onChange={(e) => handleSensitiveChange(step.step_id, e.target.checked)}
+                        disabled={project.status !== 'REVIEW'}
+                        className="w-3.5 h-3.5 rounded border-gray-300"
+                      />
+                      Sensitive
+                    </label>
+                    <select
+                      value={step.zoom === undefined ? 'auto' : String(step.zoom)}
+                      onChange={(e) => handleZoomChange(step.step_id, e.target.value)}
+                      className="text-xs px-2 py-1 border border-gray-300 rounded bg-white"
+                      disabled={project.status !== 'REVIEW'}
+                      title="Zoom on the step's target element in the final video"
+                    >
+                      {ZOOM_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={step.pacing || 'overlap'}
+                      onChange={(e) => handlePacingChange(step.step_id, { pacing: e.target.value as PacingMode })}
+                      className="text-xs px-2 py-1 border border-gray-300 rounded bg-white"
+                      disabled={project.status !== 'REVIEW'}
+                      title="Order of narration and action during recording"
+                    >
+                      {PACING_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                    {(!step.pacing || step.pacing === 'overlap' || step.pacing === 'hold') && (
+                      <input
+                        type="number"
+                        min={0}
+                        max={10000}
+                        step={100}
+                        value={step.pacingMs || ''}
+                        placeholder="0"
+                        onChange={(e) => handlePacingChange(step.step_id, { pacingMs: e.target.value })}
+                        className="w-20 text-xs px-2 py-1 border border-gray-300 rounded bg-white"
+                        disabled={project.status !== 'REVIEW'}
+                        title={step.pacing === 'hold' ? 'Milliseconds to hold the result on screen' : 'Milliseconds of narration before the action'}
+                      />
+                    )}
                     <select
                       value={step.importance}
                       onChange={(e) => handleImportanceChange(step.step_id, e.target.value as 'low' | 'medium' | 'high')}
@@ -459,6 +817,23 @@ export default function ScriptEditor({ projectId, onBack }: ScriptEditorProps) {
                       className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none"
                       autoFocus
                     />
+                    <label className="block text-xs font-medium text-gray-500 mt-2 mb-1">
+                      Speech markup (optional) - [pause 500ms], *emphasis*, {'{'}Name|pronunciation{'}'} or raw &lt;speak&gt; SSML
+                    </label>
+                    <textarea
+                      value={step.ssml || ''}
+                      onChange={(e) => handleSsmlChange(step.step_id, e.target.value)}
+                      rows={2}
+                      placeholder="Leave empty to speak the narration as written"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none"
+                    />
+                    {getSsmlErrors(step).length > 0 && (
+                      <ul className="mt-1 text-xs text-red-600 list-disc list-inside">
+                        {getSsmlErrors(step).map((ssmlError) => (
+                          <li key={ssmlError}>{ssmlError}</li>
+                        ))}
+                      </ul>
+                    )}
                     <div className="flex justify-end mt-2">
                       <button
                         onClick={() => setEditingStep(null)}
@@ -474,6 +849,11 @@ export default function ScriptEditor({ projectId, onBack }: ScriptEditorProps) {
                     onClick={() => project.status === 'REVIEW' && setEditingStep(step.step_id)}
                   >
                     <p className="text-gray-700">{step.narration}</p>
+                    {step.ssml && (
+                      <p className={`text-xs font-mono mt-1 ${getSsmlErrors(step).length > 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                        SSML: {step.ssml}
+                      </p>
+                    )}
                     {project.status === 'REVIEW' && (
                       <p className="text-xs text-gray-400 mt-2">Click to edit</p>
                     )}
@@ -0,0 +1,52 @@
+// 19-10-26: Created defaults and validation for tenant branding
+import { TenantBranding } from '@/types/project';
+
+// Fonts installed in the recorder image (fontconfig family names)
+export const BRAND_FONTS = ['Liberation Sans', 'Liberation Serif', 'DejaVu Sans'];
+
+export const DEFAULT_BRANDING: TenantBranding = {
+  primaryColor: '#2563eb',
+  backgroundColor: '#0f172a',
+  textColor: '#ffffff',
+  fontFamily: 'Liberation Sans',
+  outroText: 'Thanks for watching',
+  introNarration: false,
+};
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+const MAX_TEXT_LENGTH = 80;
+
+/**
+ * Validate branding before it is stored. Returns a list of problems (empty when valid).
+ */
+export function validateBranding(branding: unknown): string[] {
+  if (!branding || typeof branding !== 'object') return ['Branding must be an object'];
+
+  const errors: string[] = [];
+  const value = branding as Partial<TenantBranding>;
+
+  for (const field of ['primaryColor', 'backgroundColor', 'textColor'] as const) {
+    if (typeof value[field] !== 'string' || !HEX_COLOR.test(value[field])) {
+      errors.push(`${field} must be a #RRGGBB colour`);
+    }
+  }
+  if (typeof value.fontFamily !== 'string' || !BRAND_FONTS.includes(value.fontFamily)) {
+    errors.push(`fontFamily must be one of ${BRAND_FONTS.join(', ')}`);
+  }
+  if (typeof value.outroText !== 'string' || !value.outroText.trim()) {
+    errors.push('outroText is required');
+  } else if (value.outroText.length > MAX_TEXT_LENGTH) {
+    errors.push(`outroText must be at most ${MAX_TEXT_LENGTH} characters`);
+  }
+  if (value.outroSubtext !== undefined && (typeof value.outroSubtext !== 'string' || value.outroSubtext.length > MAX_TEXT_LENGTH)) {
+    errors.push(`outroSubtext must be at most ${MAX_TEXT_LENGTH} characters`);
+  }
+  if (value.logoS3Key !== undefined && (typeof value.logoS3Key !== 'string' || !value.logoS3Key.startsWith('lib/'))) {
+    errors.push('logoS3Key must be an uploaded file');
+  }
+  if (typeof value.introNarration !== 'boolean') {
+    errors.push('introNarration must be true or false');
+  }
+
+  return errors;
+}
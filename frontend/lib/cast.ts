@@ -0,0 +1,74 @@
+// 19-10-26: Created cast validation and the voices speakers can be given
+import type { VoiceId } from '@aws-sdk/client-polly';
+import { CastMember } from '@/types/project';
+
+export const MAX_CAST = 6;
+const MAX_SPEAKER_LENGTH = 30;
+export const MIN_SPEAKING_RATE = 75;
+export const MAX_SPEAKING_RATE = 150;
+
+// English voices available to cast members (all support both engines)
+export const CAST_VOICES: { id: VoiceId; name: string }[] = [
+  { id: 'Matthew', name: 'Matthew (Male, US)' },
+  { id: 'Joanna', name: 'Joanna (Female, US)' },
+  { id: 'Joey', name: 'Joey (Male, US)' },
+  { id: 'Kendra', name: 'Kendra (Female, US)' },
+  { id: 'Kimberly', name: 'Kimberly (Female, US)' },
+  { id: 'Salli', name: 'Salli (Female, US)' },
+  { id: 'Justin', name: 'Justin (Male, US Child)' },
+  { id: 'Ivy', name: 'Ivy (Female, US Child)' },
+  { id: 'Brian', name: 'Brian (Male, UK)' },
+  { id: 'Amy', name: 'Amy (Female, UK)' },
+];
+
+// Starting point for "presenter and user" dialogues
+export const DEFAULT_CAST: CastMember[] = [
+  { speaker: 'Presenter', voiceId: 'Matthew', engine: 'neural', rate: 100 },
+  { speaker: 'User', voiceId: 'Joanna', engine: 'neural', rate: 100 },
+];
+
+/**
+ * Validate a project's cast before it is stored. Returns a list of problems (empty when valid).
+ */
+export function validateCast(cast: unknown): string[] {
+  if (!Array.isArray(cast)) return ['Cast must be an array'];
+  if (cast.length > MAX_CAST) return [`At most ${MAX_CAST} cast members are supported`];
+
+  const errors: string[] = [];
+  const speakers = new Set<string>();
+  (cast as CastMember[]).forEach((member, index) => {
+    const label = `Cast member ${index + 1}`;
+
+    if (typeof member?.speaker !== 'string' || !member.speaker.trim()) {
+      errors.push(`${label}: speaker name is required`);
+    } else if (member.speaker.length > MAX_SPEAKER_LENGTH) {
+      errors.push(`${label}: speaker name must be at most ${MAX_SPEAKER_LENGTH} characters`);
+    } else if (speakers.has(member.speaker)) {
+      errors.push(`${label}: "${member.speaker}" is already in the cast`);
+    } else {
+      speakers.add(member.speaker);
+    }
+
+    if (!CAST_VOICES.some(voice => voice.id === member?.voiceId)) {
+      errors.push(`${label}: unsupported voice ${String(member?.voiceId)}`);
+    }
+    if (member?.engine !== 'neural' && member?.engine !== 'standard') {
+      errors.push(`${label}: engine must be neural or standard`);
+    }
+    if (typeof member?.rate !== 'number' || member.rate < MIN_SPEAKING_RATE || member.rate > MAX_SPEAKING_RATE) {
+      errors.push(`${label}: speaking rate must be between ${MIN_SPEAKING_RATE}% and ${MAX_SPEAKING_RATE}%`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Steps whose speaker is not in the cast. Returns a list of problems (empty when valid).
+ */
+export function validateSpeakers(steps: { step_id: number; speaker?: string }[], cast: CastMember[]): string[] {
+  const speakers = new Set(cast.map(member => member.speaker));
+  return steps
+    .filter(step => step.speaker && !speakers.has(step.speaker))
+    .map(step => `Step ${step.step_id}: speaker "${step.speaker}" is not in the cast`);
+}
@@ -0,0 +1,60 @@
+// 19-10-26: Created bounded concurrency and backoff helpers for background jobs
+
+export interface BackoffOptions {
+  attempts: number;                           // Total tries, including the first
+  baseDelayMs: number;                        // Doubled after every failed try
+  maxDelayMs?: number;
+  shouldRetry?: (error: unknown) => boolean;  // Defaults to retrying every error
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * AWS rate limiting (Polly's ThrottlingException, S3's SlowDown, ...) - worth waiting out
+ */
+export function isThrottlingError(error: unknown): boolean {
+  const name = (error as { name?: string } | null)?.name;
+  return name === 'ThrottlingException' || name === 'TooManyRequestsException' ||
+    name === 'SlowDown' || name === 'ProvisionedThroughputExceededException';
+}
+
+/**
+ * Run an operation, retrying with exponential backoff (plus jitter, so parallel workers
+ * don't retry in lockstep). The last error is rethrown once the attempts are used up.
+ */
+export async function retryWithBackoff<T>(operation: () => Promise<T>, options: BackoffOptions): Promise<T> {
+  const { attempts, baseDelayMs, maxDelayMs = 30000, shouldRetry = () => true } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= attempts || !shouldRetry(error)) throw error;
+      const delayMs = Math.min(baseDelayMs * 2 ** (attempt - 1), maxDelayMs);
+      await sleep(delayMs / 2 + Math.random() * delayMs / 2);
+    }
+  }
+}
+
+/**
+ * Run a worker over every item with at most `limit` in flight. Results keep the input
+ * order; a rejected worker rejects the whole run, so workers should catch their own errors.
+ */
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const lanes = Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  });
+  await Promise.all(lanes);
+
+  return results;
+}
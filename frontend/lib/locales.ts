@@ -0,0 +1,43 @@
+// 19-10-26: Created supported narration locales with matching Polly voices
+import type { VoiceId } from '@aws-sdk/client-polly';
+
+export const SOURCE_LOCALE = 'en-US';  // Narration as written in the script
+const MAX_EXTRA_LOCALES = 5;
+
+export interface LocaleOption {
+  code: string;      // BCP 47
+  label: string;
+  language: string;  // Language name used in the translation prompt
+  voices: { id: VoiceId; name: string }[];  // Neural voices, first is the default
+}
+
+// Latin-script languages only: overlays are drawn with the recorder's DejaVu fonts
+export const SUPPORTED_LOCALES: LocaleOption[] = [
+  { code: 'es-ES', label: 'Spanish (Spain)', language: 'Spanish (Spain)', voices: [{ id: 'Lucia', name: 'Lucia (Female)' }, { id: 'Sergio', name: 'Sergio (Male)' }] },
+  { code: 'es-MX', label: 'Spanish (Mexico)', language: 'Mexican Spanish', voices: [{ id: 'Mia', name: 'Mia (Female)' }, { id: 'Andres', name: 'Andres (Male)' }] },
+  { code: 'fr-FR', label: 'French', language: 'French (France)', voices: [{ id: 'Lea', name: 'Lea (Female)' }, { id: 'Remi', name: 'Remi (Male)' }] },
+  { code: 'de-DE', label: 'German', language: 'German', voices: [{ id: 'Vicki', name: 'Vicki (Female)' }, { id: 'Daniel', name: 'Daniel (Male)' }] },
+  { code: 'it-IT', label: 'Italian', language: 'Italian', voices: [{ id: 'Bianca', name: 'Bianca (Female)' }, { id: 'Adriano', name: 'Adriano (Male)' }] },
+  { code: 'pt-BR', label: 'Portuguese (Brazil)', language: 'Brazilian Portuguese', voices: [{ id: 'Camila', name: 'Camila (Female)' }, { id: 'Thiago', name: 'Thiago (Male)' }] },
+];
+
+export function getLocaleOption(code: string): LocaleOption | undefined {
+  return SUPPORTED_LOCALES.find(locale => locale.code === code);
+}
+
+/**
+ * Validate a project's extra locales. Returns a list of problems (empty when valid).
+ */
+export function validateLocales(locales: unknown): string[] {
+  if (!Array.isArray(locales)) return ['Locales must be an array'];
+  if (locales.length > MAX_EXTRA_LOCALES) return [`At most ${MAX_EXTRA_LOCALES} extra locales are supported`];
+
+  const errors: string[] = [];
+  locales.forEach(locale => {
+    if (typeof locale !== 'string' || !getLocaleOption(locale)) {
+      errors.push(`Unsupported locale: ${String(locale)}`);
+    }
+  });
+  if (new Set(locales).size !== locales.length) errors.push('Locales must not repeat');
+  return errors;
+}
@@ -0,0 +1,75 @@
+// 19-10-26: Created validation for per-project recording options
+import { RenditionName } from '@/types/project';
+
+const BOOLEAN_OPTIONS = [
+  'cursorOverlay',
+  'highlightHighImportance',
+  'autoZoom',
+  'typingAnimation',
+  'bumpers',
+  'lowerThirds',
+  'stepCallouts',
+];
+const RENDITION_NAMES: RenditionName[] = ['1080p', '720p', '480p', 'vertical'];
+const DEAD_TIME_MODES = ['off', 'cut', 'speed'];
+const MIN_LOUDNESS_LUFS = -70;   // loudnorm's accepted range
+const MAX_LOUDNESS_LUFS = -5;
+const MAX_FADE_MS = 10000;     // The wizard offers fades of up to 10 s
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Validate recording options before they are stored (they end up in the recorder's
+ * environment). Returns a list of problems (empty when valid).
+ */
+export function validateRecordingOptions(options: unknown): string[] {
+  if (typeof options !== 'object' || options === null || Array.isArray(options)) {
+    return ['Recording options must be an object'];
+  }
+
+  const errors: string[] = [];
+  for (const [key, value] of Object.entries(options)) {
+    if (BOOLEAN_OPTIONS.includes(key)) {
+      if (typeof value !== 'boolean') errors.push(`${key} must be true or false`);
+      continue;
+    }
+
+    switch (key) {
+      case 'loudnessTarget':
+        if (!isNumber(value) || value < MIN_LOUDNESS_LUFS || value > MAX_LOUDNESS_LUFS) {
+          errors.push(`loudnessTarget must be between ${MIN_LOUDNESS_LUFS} and ${MAX_LOUDNESS_LUFS} LUFS`);
+        }
+        break;
+
+      case 'renditions':
+        if (!Array.isArray(value) || !value.every(name => RENDITION_NAMES.includes(name))) {
+          errors.push(`renditions must only contain ${RENDITION_NAMES.join(', ')}`);
+        } else if (new Set(value).size !== value.length) {
+          errors.push('renditions must not repeat');
+        }
+        break;
+
+      case 'deadTime':
+        if (!DEAD_TIME_MODES.includes(value as string)) {
+          errors.push(`deadTime must be one of ${DEAD_TIME_MODES.join(', ')}`);
+        }
+        break;
+
+      case 'music': {
+        if (value === undefined || value === null) break;
+        const { fileKey, volume, fadeInMs, fadeOutMs } = value as Record<string, unknown>;
+        if (typeof fileKey !== 'string' || !fileKey.trim()) errors.push('music.fileKey is required');
+        if (!isNumber(volume) || volume < 0 || volume > 1) errors.push('music.volume must be between 0 and 1');
+        if (![fadeInMs, fadeOutMs].every(ms => isNumber(ms) && ms >= 0 && ms <= MAX_FADE_MS)) {
+          errors.push(`music fades must be between 0 and ${MAX_FADE_MS} ms`);
+        }
+        break;
+      }
+
+      default:
+        errors.push(`Unknown recording option: ${key}`);
+    }
+  }
+
+  return errors;
+}
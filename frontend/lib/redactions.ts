@@ -0,0 +1,56 @@
+// 19-10-26: Created validation for per-project redaction rules
+import { RedactionRule } from '@/types/project';
+
+const VIDEO_WIDTH = 1920;
+const VIDEO_HEIGHT = 1080;
+const MAX_RULES = 50;
+
+/**
+ * Validate redaction rules before they are stored. Returns a list of problems (empty when valid).
+ */
+export function validateRedactions(rules: unknown): string[] {
+  if (!Array.isArray(rules)) return ['Redactions must be an array'];
+  if (rules.length > MAX_RULES) return [`At most ${MAX_RULES} redaction rules are supported`];
+
+  const errors: string[] = [];
+  (rules as RedactionRule[]).forEach((rule, index) => {
+    const label = `Rule ${index + 1}`;
+
+    switch (rule?.type) {
+      case 'selector':
+        if (typeof rule.selector !== 'string' || !rule.selector.trim()) {
+          errors.push(`${label}: selector is required`);
+        }
+        break;
+
+      case 'text':
+        if (typeof rule.pattern !== 'string' || !rule.pattern) {
+          errors.push(`${label}: pattern is required`);
+          break;
+        }
+        try {
+          new RegExp(rule.pattern, rule.flags || '');
+        } catch (error) {
+          errors.push(`${label}: invalid pattern - ${error instanceof Error ? error.message : String(error)}`);
+        }
+        break;
+
+      case 'region': {
+        const { x, y, width, height } = rule;
+        if (![x, y, width, height].every(value => typeof value === 'number' && Number.isFinite(value))) {
+          errors.push(`${label}: x, y, width and height must be numbers`);
+        } else if (width <= 0 || height <= 0) {
+          errors.push(`${label}: width and height must be positive`);
+        } else if (x < 0 || y < 0 || x + width > VIDEO_WIDTH || y + height > VIDEO_HEIGHT) {
+          errors.push(`${label}: region must fit inside the ${VIDEO_WIDTH}x${VIDEO_HEIGHT} video`);
+        }
+        break;
+      }
+
+      default:
+        errors.push(`${label}: type must be selector, text or region`);
+    }
+  });
+
+  return errors;
+}
@@ -0,0 +1,137 @@
+// 19-10-26: Validate tags against the engine of the step's voice
+// 19-10-26: Wrap speech in a prosody rate for cast members with a custom speaking rate
+// 19-10-26: Created SSML compilation and validation for narration authoring
+
+// Tags supported by each Polly engine
+const COMMON_TAGS = ['speak', 'break', 'lang', 'mark', 'p', 'phoneme', 's', 'say-as', 'sub', 'w', 'prosody', 'amazon:effect'];
+const SUPPORTED_TAGS: Record<'neural' | 'standard', Set<string>> = {
+  neural: new Set([...COMMON_TAGS, 'amazon:domain']),
+  standard: new Set([...COMMON_TAGS, 'emphasis', 'amazon:auto-breaths', 'amazon:breath']),
+};
+
+const MAX_SSML_LENGTH = 6000;   // Polly limit on total input characters
+const MAX_BREAK_MS = 10000;     // Polly limit on a single <break>
+
+export interface SpeechInput {
+  text: string;
+  textType: 'text' | 'ssml';
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Compile lightweight narration markup to SSML.
+ * - `[pause 500ms]` / `[pause 2s]` -> <break>
+ * - `{SKU-42|skew forty two}`      -> <sub alias="..."> (pronunciation of product names)
+ * - `*important*`                  -> louder, slower prosody (neural voices have no <emphasis>)
+ * Input that already starts with <speak> is treated as raw SSML and returned unchanged.
+ */
+export function compileNarrationMarkup(markup: string): string {
+  const trimmed = markup.trim();
+  if (trimmed.startsWith('<speak')) return trimmed;
+
+  const body = escapeXml(trimmed)
+    .replace(/\[pause\s+(\d+(?:\.\d+)?)\s*(ms|s)\]/gi, (_m, value, unit) => `<break time="${value}${unit.toLowerCase()}"/>`)
+    .replace(/\{([^|{}]+)\|([^|{}]+)\}/g, (_m, display, spoken) => `<sub alias="${spoken.trim()}">${display.trim()}</sub>`)
+    .replace(/\*([^*]+)\*/g, (_m, text) => `<prosody volume="loud" rate="90%">${text}</prosody>`);
+
+  return `<speak>${body}</speak>`;
+}
+
+function parseBreakMs(time: string): number | null {
+  const match = time.match(/^(\d+(?:\.\d+)?)(ms|s)$/);
+  if (!match) return null;
+  const value = parseFloat(match[1]);
+  return match[2] === 's' ? value * 1000 : value;
+}
+
+/**
+ * Validate SSML before it is sent to Polly for a voice on the given engine.
+ * Returns a list of problems (empty when valid).
+ */
+export function validateSsml(ssml: string, engine: 'neural' | 'standard' = 'neural'): string[] {
+  const errors: string[] = [];
+
+  if (ssml.length > MAX_SSML_LENGTH) {
+    errors.push(`SSML is ${ssml.length} characters, the limit is ${MAX_SSML_LENGTH}`);
+  }
+  if (!/^\s*<speak[\s>]/.test(ssml)) {
+    errors.push('SSML must be wrapped in <speak>...</speak>');
+  }
+  if (/&(?!(amp|lt|gt|quot|apos|#\d+|#x[0-9a-fA-F]+);)/.test(ssml)) {
+    errors.push('Unescaped "&" - use &amp;');
+  }
+
+  const stack: string[] = [];
+  const tagPattern = /<(\/?)([a-zA-Z][\w:-]*)([^>]*?)(\/?)>/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tagPattern.exec(ssml)) !== null) {
+    const [, closing, name, attributes, selfClosing] = match;
+
+    if (!closing && !SUPPORTED_TAGS[engine].has(name)) {
+      errors.push(`<${name}> is not supported by ${engine} voices`);
+    }
+
+    if (closing) {
+      const open = stack.pop();
+      if (open !== name) {
+        errors.push(open ? `</${name}> closes <${open}>` : `</${name}> has no opening tag`);
+      }
+      continue;
+    }
+
+    if (name === 'break') {
+      const time = attributes.match(/time\s*=\s*"([^"]*)"/)?.[1];
+      if (time !== undefined) {
+        const ms = parseBreakMs(time);
+        if (ms === null) errors.push(`Invalid break time "${time}"`);
+        else if (ms > MAX_BREAK_MS) errors.push(`Break of ${time} exceeds ${MAX_BREAK_MS / 1000}s`);
+      }
+    }
+    if (name === 'sub' && !/alias\s*=\s*"[^"]+"/.test(attributes)) {
+      errors.push('<sub> requires an alias attribute');
+    }
+
+    if (!selfClosing) stack.push(name);
+  }
+
+  if (stack.length > 0) {
+    errors.push(`Unclosed tag${stack.length > 1 ? 's' : ''}: ${stack.map(t => `<${t}>`).join(', ')}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Build the Polly input for a step: its SSML when authored, otherwise plain narration
+ */
+export function buildSpeechInput(step: { narration: string; ssml?: string }): SpeechInput {
+  if (step.ssml && step.ssml.trim()) {
+    return { text: compileNarrationMarkup(step.ssml), textType: 'ssml' };
+  }
+  return { text: step.narration, textType: 'text' };
+}
+
+/**
+ * Apply a speaking rate (percent, 100 = unchanged) to a speech input. Plain text
+ * becomes SSML; existing SSML gets the whole <speak> body wrapped in <prosody>.
+ */
+export function applySpeakingRate(speech: SpeechInput, ratePercent: number): SpeechInput {
+  if (ratePercent === 100) return speech;
+
+  const open = `<prosody rate="${Math.round(ratePercent)}%">`;
+  if (speech.textType === 'text') {
+    return { text: `<speak>${open}${escapeXml(speech.text)}</prosody></speak>`, textType: 'ssml' };
+  }
+  return {
+    text: speech.text.replace(/^(\s*<speak[^>]*>)([\s\S]*)(<\/speak>\s*)$/, `$1${open}$2</prosody>$3`),
+    textType: 'ssml',
+  };
+}
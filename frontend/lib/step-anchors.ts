@@ -0,0 +1,329 @@
+// 19-10-26: Bind steps the anchors cannot place by sequential code matching
+// 19-10-26: Leave string literals alone when normalizing and store the statement as written
+// 19-10-26: Shared __STEP_META__ formatting with per-step pacing
+// 19-10-26: Created AST-based action extraction and deterministic manifest-to-script binding
+import ts from 'typescript';
+import { createHash } from 'crypto';
+import { ScriptStep, StepAnchor, StepBinding } from '@/types/project';
+
+// Setup/utility calls that never get narration
+const EXCLUDED_ACTIONS = new Set([
+  'setViewportSize',
+  'waitForTimeout',
+  'waitForLoadState',
+  'waitForSelector',
+  'waitForURL',
+  'screenshot',
+]);
+
+export interface ExtractedAction {
+  code_action: string;
+  anchor: StepAnchor;
+}
+
+interface ActionStatement {
+  node: ts.ExpressionStatement;
+  startLine: number;
+  endLine: number;
+  nodeHash: string;
+}
+
+// Quoted strings and template literals (odd-indexed parts after a split)
+const STRING_LITERAL = /('(?:\\.|[^'\\])*'|"(?:\\.|[^"\\])*"|`(?:\\.|[^`\\])*`)/;
+
+/**
+ * A statement as stored in code_action: as written, without `await` or the trailing semicolon
+ */
+function actionText(code: string): string {
+  return code
+    .replace(/^\s*await\s+/, '')
+    .replace(/;\s*$/, '')
+    .trim();
+}
+
+/**
+ * Normalize code for comparison only: drop `await`, trailing semicolons and whitespace
+ * differences. String literals are kept as written so `fill('a , b')` stays distinct.
+ */
+export function normalizeCode(code: string): string {
+  return actionText(code)
+    .split(STRING_LITERAL)
+    .map((part, index) => index % 2 === 1
+      ? part
+      : part.replace(/\s+/g, ' ').replace(/\s*([().,])\s*/g, '$1'))
+    .join('')
+    .trim();
+}
+
+function hashCode(code: string): string {
+  return createHash('sha256').update(normalizeCode(code)).digest('hex').slice(0, 16);
+}
+
+/**
+ * Walk a call chain such as `page.locator('#a').click()` down to its root
+ * identifier and return it together with the outermost method name.
+ */
+function describeCall(expression: ts.Expression): { root: string; method: string } | null {
+  if (!ts.isCallExpression(expression)) return null;
+
+  const method = ts.isPropertyAccessExpression(expression.expression)
+    ? expression.expression.name.text
+    : '';
+
+  let current: ts.Expression = expression;
+  while (ts.isCallExpression(current) || ts.isPropertyAccessExpression(current) || ts.isAwaitExpression(current)) {
+    current = current.expression;
+  }
+
+  return ts.isIdentifier(current) ? { root: current.text, method } : null;
+}
+
+/**
+ * Find every user-facing Playwright action statement in the script, in source order.
+ * Works at any nesting depth (helper functions, test.step callbacks, hooks).
+ */
+function findActionStatements(sourceFile: ts.SourceFile): ActionStatement[] {
+  const statements: ActionStatement[] = [];
+
+  const visit = (node: ts.Node) => {
+    if (ts.isExpressionStatement(node)) {
+      const expression = ts.isAwaitExpression(node.expression) ? node.expression.expression : node.expression;
+      const call = describeCall(expression);
+      if (call && (call.root === 'page' || call.root === 'expect') && !EXCLUDED_ACTIONS.has(call.method)) {
+        const start = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+        const end = sourceFile.getLineAndCharacterOfPosition(node.getEnd());
+        statements.push({
+          node,
+          startLine: start.line + 1,
+          endLine: end.line + 1,
+          nodeHash: hashCode(node.getText(sourceFile)),
+        });
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return statements;
+}
+
+function parseScript(code: string): ts.SourceFile {
+  return ts.createSourceFile('script.spec.ts', code, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+}
+
+/**
+ * Extract Playwright actions from code in ORDER, each with a stable source anchor
+ */
+export function extractActionAnchors(code: string, file: string): ExtractedAction[] {
+  const sourceFile = parseScript(code);
+
+  return findActionStatements(sourceFile).map(statement => ({
+    code_action: actionText(statement.node.getText(sourceFile)),
+    anchor: {
+      file,
+      startLine: statement.startLine,
+      endLine: statement.endLine,
+      nodeHash: statement.nodeHash,
+    },
+  }));
+}
+
+/**
+ * Attach anchors to manifest steps produced without them (e.g. by Bedrock).
+ * Steps are matched by normalized code in order; a step whose code_action does
+ * not appear verbatim in the script is left without an anchor.
+ */
+export function attachAnchors<T extends ScriptStep>(manifest: T[], actions: ExtractedAction[]): T[] {
+  const used = new Set<number>();
+  let cursor = 0;
+
+  return manifest.map(step => {
+    const target = normalizeCode(step.code_action || '');
+    const findFrom = (from: number) => actions.findIndex((action, index) =>
+      index >= from && !used.has(index) && normalizeCode(action.code_action) === target
+    );
+
+    let index = findFrom(cursor);
+    if (index === -1) index = findFrom(0);
+    if (index === -1) return step;
+
+    used.add(index);
+    cursor = index + 1;
+    return { ...step, anchor: actions[index].anchor };
+  });
+}
+
+/**
+ * Extract key identifiers from a code action for matching
+ * e.g., "page.fill('#username', 'test')" -> ['fill', 'username']
+ */
+function extractActionKeys(codeAction: string): string[] {
+  const keys: string[] = [];
+  
+  // Extract action type (goto, fill, click, etc.)
+  const actionMatch = codeAction.match(/\.(goto|fill|click|type|press|check|uncheck|select|hover|focus)\s*\(/i);
+  if (actionMatch) {
+    keys.push(actionMatch[1].toLowerCase());
+  }
+  
+  // Extract expect actions
+  const expectMatch = codeAction.match(/expect.*\.(toHaveURL|toHaveText|toBeVisible|toContain)/i);
+  if (expectMatch) {
+    keys.push('expect', expectMatch[1].toLowerCase());
+  }
+  
+  // Extract key identifiers from selectors
+  const identifiers = ['username', 'password', 'email', 'login', 'submit', 'checkout', 'cart', 
+                       'firstName', 'lastName', 'postalCode', 'continue', 'finish', 'backpack',
+                       'inventory', 'complete', 'header'];
+  for (const id of identifiers) {
+    if (codeAction.toLowerCase().includes(id.toLowerCase())) {
+      keys.push(id.toLowerCase());
+    }
+  }
+  
+  return keys;
+}
+
+/**
+ * Check if a script line matches a manifest code_action
+ */
+export function lineMatchesAction(scriptLine: string, codeAction: string): boolean {
+  const actionKeys = extractActionKeys(codeAction);
+  const lineKeys = extractActionKeys(scriptLine);
+  
+  if (actionKeys.length === 0 || lineKeys.length === 0) return false;
+  
+  // Must match action type (first key is usually the action)
+  const actionType = actionKeys[0];
+  if (!lineKeys.includes(actionType)) return false;
+  
+  // Must match at least one identifier if present
+  const actionIdentifiers = actionKeys.slice(1);
+  const lineIdentifiers = lineKeys.slice(1);
+  
+  if (actionIdentifiers.length === 0) return true; // Only action type needed
+  
+  // Check if any identifier matches
+  return actionIdentifiers.some(id => lineIdentifiers.includes(id));
+}
+
+/**
+ * The __STEP_META__ comment the recorder reads before a step's statement.
+ * Pacing is only written when set so default steps keep the original format.
+ */
+export function formatStepMeta(step: Pick<ScriptStep, 'step_id' | 'pacing' | 'pacingMs'>, audioDuration: number): string {
+  const pacing = step.pacing && step.pacing !== 'overlap' ? `, "pacing": "${step.pacing}"` : '';
+  const pacingMs = step.pacingMs ? `, "pacingMs": ${Math.round(step.pacingMs)}` : '';
+  return `// __STEP_META__: {"stepId": ${step.step_id}, "audioDuration": ${audioDuration}${pacing}${pacingMs}}`;
+}
+
+/**
+ * Bind manifest steps to the statements their anchors point at and insert
+ * __STEP_META__ comments. Steps whose statement moved are bound at the new
+ * location and reported as drifted. Steps the anchors cannot place fall back to
+ * the sequential code_action matching used for unanchored scripts and are reported
+ * as inferred; only steps that match nothing are reported as unmatched.
+ */
+export function bindStepsToScript(
+  script: string,
+  file: string,
+  manifest: ScriptStep[],
+  durationMap: Record<number, number>
+): { script: string; bindings: StepBinding[] } {
+  const sourceFile = parseScript(script);
+  const statements = findActionStatements(sourceFile);
+  const bindings: StepBinding[] = [];
+  const annotations = new Map<number, string[]>(); // start line -> meta comments
+
+  const sortedManifest = [...manifest].sort((a, b) => a.step_id - b.step_id);
+  const unresolved = new Map<number, string>();  // step id -> why its anchor could not be used
+  const boundLines = new Map<number, number>();  // step id -> bound statement line
+
+  const annotate = (step: ScriptStep, statement: ActionStatement) => {
+    const comments = annotations.get(statement.startLine) || [];
+    comments.push(formatStepMeta(step, durationMap[step.step_id] || 2000));
+    annotations.set(statement.startLine, comments);
+    boundLines.set(step.step_id, statement.startLine);
+  };
+
+  for (const step of sortedManifest) {
+    const anchor = step.anchor;
+    if (!anchor) {
+      unresolved.set(step.step_id, 'Step has no source anchor');
+      continue;
+    }
+    if (anchor.file !== file) {
+      unresolved.set(step.step_id, `Anchor points at another file (${anchor.file})`);
+      continue;
+    }
+
+    let status: StepBinding['status'] = 'matched';
+    let statement = statements.find(s => s.startLine === anchor.startLine && s.nodeHash === anchor.nodeHash);
+
+    if (!statement) {
+      const candidates = statements.filter(s => s.nodeHash === anchor.nodeHash);
+      // Closest statement with identical code wins when the script has moved
+      statement = candidates.sort((a, b) =>
+        Math.abs(a.startLine - anchor.startLine) - Math.abs(b.startLine - anchor.startLine)
+      )[0];
+      status = 'drifted';
+    }
+
+    if (!statement) {
+      unresolved.set(step.step_id, 'Anchored statement no longer exists in the script');
+      continue;
+    }
+
+    annotate(step, statement);
+
+    // DynamoDB rejects undefined attributes, so reason is only set when there is one
+    const binding: StepBinding = { stepId: step.step_id, status, anchor, boundLine: statement.startLine };
+    if (status === 'drifted') {
+      binding.reason = `Statement moved from line ${anchor.startLine} to ${statement.startLine}`;
+    }
+    bindings.push(binding);
+  }
+
+  // Remaining steps take the next free statement after the previous step whose code matches,
+  // exactly first and then by action type and selector keywords
+  let previousLine = 0;
+  for (const step of sortedManifest) {
+    const reason = unresolved.get(step.step_id);
+    if (reason === undefined) {
+      previousLine = boundLines.get(step.step_id) ?? previousLine;
+      continue;
+    }
+
+    const bound = new Set(boundLines.values());
+    const free = statements.filter(s => !bound.has(s.startLine));
+    const ordered = [...free.filter(s => s.startLine > previousLine), ...free.filter(s => s.startLine <= previousLine)];
+    const target = normalizeCode(step.code_action || '');
+    const statement = ordered.find(s => normalizeCode(s.node.getText(sourceFile)) === target) ||
+      ordered.find(s => lineMatchesAction(s.node.getText(sourceFile), step.code_action || ''));
+
+    const binding: StepBinding = { stepId: step.step_id, status: statement ? 'inferred' : 'unmatched', reason };
+    if (step.anchor) binding.anchor = step.anchor;
+    if (statement) {
+      annotate(step, statement);
+      binding.boundLine = statement.startLine;
+      binding.reason = `${reason}; bound by code match at line ${statement.startLine}`;
+      previousLine = statement.startLine;
+    }
+    bindings.push(binding);
+  }
+  bindings.sort((a, b) => a.stepId - b.stepId);
+
+  const lines = script.split('\n');
+  const annotatedLines: string[] = [];
+  lines.forEach((line, index) => {
+    const comments = annotations.get(index + 1);
+    if (comments) {
+      const indent = line.match(/^(\s*)/)?.[1] || '';
+      annotatedLines.push(...comments.map(comment => `${indent}${comment}`));
+    }
+    annotatedLines.push(line);
+  });
+
+  return { script: annotatedLines.join('\n'), bindings };
+}
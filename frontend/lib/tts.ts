@@ -0,0 +1,208 @@
+// 19-10-26: Back off and retry Polly calls that are throttled
+// 19-10-26: Content hash of a synthesis request for incremental regeneration
+// 19-10-26: Created the text-to-speech provider interface with Polly and a local espeak-ng engine
+import { spawn } from 'child_process';
+import { createHash } from 'crypto';
+import { PollyClient, SynthesizeSpeechCommand, VoiceId } from '@aws-sdk/client-polly';
+import { getMp3DurationMs } from '@/lib/mp3-duration';
+import { isThrottlingError, retryWithBackoff } from '@/lib/job-queue';
+import { SpeechInput } from '@/lib/ssml';
+import { SpeechMark } from '@/types/project';
+
+export interface TtsRequest extends SpeechInput {
+  voiceId: string;                 // Polly voice name; local engines map it to their own voices
+  engine: 'neural' | 'standard';
+  languageCode?: string;           // BCP 47, defaults to en-US
+  withSpeechMarks?: boolean;       // Defaults to true
+}
+
+export interface TtsResult {
+  audio: Uint8Array;               // MP3
+  speechMarks: SpeechMark[];       // Sentence and word marks (plus <mark> tags when available)
+}
+
+export interface TtsProvider {
+  name: 'polly' | 'local';
+  synthesize(request: TtsRequest): Promise<TtsResult>;
+}
+
+/**
+ * Content hash of a synthesis request. The same text, markup, voice and engine on the
+ * same provider produce the same audio, so an unchanged hash means the stored clip is reusable.
+ */
+export function ttsRequestHash(providerName: TtsProvider['name'], request: TtsRequest): string {
+  return createHash('sha256')
+    .update(JSON.stringify([
+      providerName,
+      request.textType,
+      request.text,
+      request.voiceId,
+      request.engine,
+      request.languageCode || 'en-US',
+    ]))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+// Polly's transaction limit is shared by every synthesis running at once
+const POLLY_BACKOFF = { attempts: 6, baseDelayMs: 500, shouldRetry: isThrottlingError };
+
+/**
+ * Amazon Polly: MP3 and speech marks come from two calls with the same input
+ */
+export function createPollyTtsProvider(client: PollyClient): TtsProvider {
+  const send = (command: SynthesizeSpeechCommand) => retryWithBackoff(() => client.send(command), POLLY_BACKOFF);
+
+  return {
+    name: 'polly',
+    async synthesize(request) {
+      const response = await send(new SynthesizeSpeechCommand({
+        Engine: request.engine,
+        OutputFormat: 'mp3',
+        Text: request.text,
+        VoiceId: request.voiceId as VoiceId,
+        TextType: request.textType,
+      }));
+      if (!response.AudioStream) {
+        throw new Error('No audio stream returned from Polly');
+      }
+      const audio = await response.AudioStream.transformToByteArray();
+      if (request.withSpeechMarks === false) return { audio, speechMarks: [] };
+
+      const marksResponse = await send(new SynthesizeSpeechCommand({
+        Engine: request.engine,
+        OutputFormat: 'json',
+        Text: request.text,
+        VoiceId: request.voiceId as VoiceId,
+        TextType: request.textType,
+        SpeechMarkTypes: request.textType === 'ssml' ? ['sentence', 'word', 'ssml'] : ['sentence', 'word'],
+      }));
+      if (!marksResponse.AudioStream) {
+        throw new Error('No speech marks returned from Polly');
+      }
+
+      // Polly returns newline-delimited JSON
+      const raw = await marksResponse.AudioStream.transformToString();
+      const speechMarks = raw
+        .split('\n')
+        .filter(line => line.trim())
+        .map(line => JSON.parse(line) as SpeechMark);
+      return { audio, speechMarks };
+    },
+  };
+}
+
+// espeak-ng voices for the narration locales; British Polly voices map to en-gb
+const ESPEAK_LANGUAGES: Record<string, string> = {
+  'en-US': 'en-us',
+  'en-GB': 'en-gb',
+  'es-ES': 'es',
+  'es-MX': 'es-419',
+  'fr-FR': 'fr-fr',
+  'de-DE': 'de',
+  'it-IT': 'it',
+  'pt-BR': 'pt-br',
+};
+const BRITISH_VOICES = new Set(['Brian', 'Amy']);
+const FEMALE_VOICES = new Set([
+  'Joanna', 'Ivy', 'Kendra', 'Kimberly', 'Salli', 'Amy',
+  'Lucia', 'Mia', 'Lea', 'Vicki', 'Bianca', 'Camila',
+]);
+
+function espeakVoice(request: TtsRequest): string {
+  const languageCode = BRITISH_VOICES.has(request.voiceId) ? 'en-GB' : request.languageCode || 'en-US';
+  const language = ESPEAK_LANGUAGES[languageCode] || 'en-us';
+  return `${language}+${FEMALE_VOICES.has(request.voiceId) ? 'f3' : 'm3'}`;
+}
+
+// Run a process with optional stdin and collect stdout; rejects with stderr on failure
+function runProcess(command: string, args: string[], input?: Buffer | string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args);
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    child.stdout.on('data', chunk => stdout.push(chunk));
+    child.stderr.on('data', chunk => stderr.push(chunk));
+    child.on('error', reject);
+    child.stdin.on('error', reject);   // EPIPE when the process exits before reading its input
+    child.on('close', code => {
+      if (code === 0) resolve(Buffer.concat(stdout));
+      else reject(new Error(`${command} exited with code ${code}: ${Buffer.concat(stderr).toString().slice(-500)}`));
+    });
+    child.stdin.end(input);
+  });
+}
+
+function speechText(request: TtsRequest): string {
+  if (request.textType === 'text') return request.text;
+  return request.text
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * espeak-ng reports no timings, so word marks are spread over the clip in proportion
+ * to word length. Offsets index the spoken text (tags stripped). Close enough for
+ * captions and word-synced actions in development.
+ */
+export function estimateSpeechMarks(text: string, durationMs: number): SpeechMark[] {
+  const words = [...text.matchAll(/\S+/g)];
+  const totalChars = words.reduce((sum, word) => sum + word[0].length, 0);
+  if (totalChars === 0) return [];
+
+  const marks: SpeechMark[] = [];
+  let spokenChars = 0;
+  let sentenceStart = true;
+  for (const word of words) {
+    const time = Math.round((spokenChars / totalChars) * durationMs);
+    const start = word.index ?? 0;
+    if (sentenceStart) {
+      const sentenceEnd = text.slice(start).search(/[.!?](\s|$)/);
+      const end = sentenceEnd === -1 ? text.length : start + sentenceEnd + 1;
+      marks.push({ time, type: 'sentence', start, end, value: text.slice(start, end) });
+    }
+    marks.push({ time, type: 'word', start, end: start + word[0].length, value: word[0] });
+    spokenChars += word[0].length;
+    sentenceStart = /[.!?]$/.test(word[0]);
+  }
+  return marks;
+}
+
+/**
+ * Local engine for development and CI: espeak-ng renders WAV (SSML via -m, which
+ * covers <prosody>, <break> and <say-as>) and ffmpeg encodes it to MP3.
+ * Needs both binaries on the PATH or passed in.
+ */
+export function createLocalTtsProvider(options: { espeakPath?: string; ffmpegPath?: string } = {}): TtsProvider {
+  const espeakPath = options.espeakPath || 'espeak-ng';
+  const ffmpegPath = options.ffmpegPath || 'ffmpeg';
+
+  return {
+    name: 'local',
+    async synthesize(request) {
+      const wav = await runProcess(espeakPath, [
+        '-v', espeakVoice(request),
+        ...(request.textType === 'ssml' ? ['-m'] : []),
+        '--stdout',
+        '--stdin',
+      ], request.text);
+      const audio = await runProcess(ffmpegPath, [
+        '-hide_banner', '-loglevel', 'error',
+        '-f', 'wav', '-i', 'pipe:0',
+        '-codec:a', 'libmp3lame', '-b:a', '64k', '-ar', '22050', '-ac', '1',
+        '-f', 'mp3', 'pipe:1',
+      ], wav);
+
+      const speechMarks = request.withSpeechMarks === false
+        ? []
+        : estimateSpeechMarks(speechText(request), getMp3DurationMs(audio));
+      return { audio: new Uint8Array(audio), speechMarks };
+    },
+  };
+}
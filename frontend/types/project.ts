@@ -1,3 +1,26 @@
+// 19-10-26: Added per-step failures and regenerated steps to the audio progress
+// 19-10-26: Added the flag recording whether the last render produced previews
+// 19-10-26: Added the inferred step binding status
+// 19-10-26: Added the visual diff of step screenshots against the previous render
+// 19-10-26: Added dead-time trimming to the recording options
+// 19-10-26: Added per-step pacing modes for the synced runner
+// 19-10-26: Added the audio content hash used to skip unchanged steps
+// 19-10-26: Added per-step speakers and the project cast mapping them to voices
+// 19-10-26: Added extra narration locales, translations and localized video variants
+// 19-10-26: Added lower-third and step callout overlay options
+// 19-10-26: Added tenant branding and the bumpers recording option
+// 19-10-26: Added poster/preview URLs and sprite sheet layout
+// 19-10-26: Added output renditions and HLS playlist URL
+// 19-10-26: Added loudness target and measured loudness report
+// 19-10-26: Added music file type and background music bed settings
+// 19-10-26: Added per-project redaction rules
+// 19-10-26: Added typing animation option and sensitive steps
+// 19-10-26: Added per-step zoom level and automatic zoom option
+// 19-10-26: Added per-project recording options (cursor overlay)
+// 19-10-26: Added video chapters
+// 19-10-26: Added signed caption track URLs to video status
+// 19-10-26: Added optional SSML narration and speech marks location
+// 19-10-26: Added source anchors on script steps and sync binding report
 // 07-12-25: Added Phase 5 video recording types
 // 07-12-25: Added Phase 4 audio generation types
 // 07-12-25: Created project types for Phase 3
@@ -5,28 +28,98 @@
 export interface FileItem {
   id: string;
   name: string;
-  type: 'pdf' | 'playwright' | 'other';
+  type: 'pdf' | 'playwright' | 'music' | 'other';
   s3Key: string;
   uploadedAt: string;
 }
 
+// Location of the script statement a step was extracted from
+export interface StepAnchor {
+  file: string;       // S3 key of the test script
+  startLine: number;  // 1-based, inclusive
+  endLine: number;
+  nodeHash: string;   // Hash of the normalized statement source
+}
+
 export interface ScriptStep {
   step_id: number;
   code_action: string;
   narration: string;
   importance: 'low' | 'medium' | 'high';
+  anchor?: StepAnchor;
+  ssml?: string; // Optional SSML or narration markup, takes precedence over narration for synthesis
+  zoom?: number; // Zoom on the target element: 1 = off, unset = automatic
+  sensitive?: boolean; // Values typed during this step are masked in the recording
+  translations?: Record<string, string>; // Narration per extra locale (plain text)
+  speaker?: string; // Cast member who speaks this step, unset = default narrator
+  pacing?: PacingMode; // How narration and the action are ordered, unset = overlap
+  pacingMs?: number; // Overlap: lead before the action; hold: minimum time on screen after it
+}
+
+// overlap: narration starts and the action follows; narrate-then-act: the action waits for the
+// narration; act-then-narrate: narration starts once the action has finished; hold: the action
+// runs with the narration, then the result stays on screen for at least pacingMs
+export type PacingMode = 'overlap' | 'narrate-then-act' | 'act-then-narrate' | 'hold';
+
+// One voice in a project's cast, e.g. "Presenter" and "User" in a dialogue tutorial
+export interface CastMember {
+  speaker: string;
+  voiceId: string;                  // Polly voice, e.g. 'Joanna'
+  engine: 'neural' | 'standard';
+  rate: number;                     // Speaking rate in percent, 100 = normal
+}
+
+// Outcome of binding a manifest step to the script during sync
+export interface StepBinding {
+  stepId: number;
+  status: 'matched' | 'drifted' | 'inferred' | 'unmatched';  // inferred = placed by code match, not by its anchor
+  anchor?: StepAnchor;
+  boundLine?: number;
+  reason?: string;
 }
 
 export interface AudioStep extends ScriptStep {
   audioS3Key?: string;
   durationMs?: number;
   audioGenerated?: boolean;
+  speechMarksS3Key?: string; // Word/sentence speech marks stored next to the MP3
+  audioHash?: string; // Content hash of the synthesis input; unchanged = audio is reused
+  localizedAudio?: Record<string, LocalizedAudio>; // Per extra locale
+}
+
+export interface LocalizedAudio {
+  audioS3Key: string;        // audio/<tenant>/<project>/<locale>/step_N.mp3
+  durationMs: number;
+  speechMarksS3Key?: string;
+  audioHash?: string;
+}
+
+// Polly speech mark (one per word/sentence/ssml mark)
+export interface SpeechMark {
+  time: number; // ms from the start of the clip
+  type: 'word' | 'sentence' | 'ssml' | 'viseme';
+  start: number;
+  end: number;
+  value: string;
 }
 
 export interface AudioDurationMap {
   [stepId: number]: number; // step_id -> duration in ms
 }
 
+export interface AudioProgress {
+  total: number;
+  completed: number;
+  currentStep?: number;
+  failedSteps?: AudioStepFailure[]; // Steps still failing after their retries
+  regeneratedSteps?: number[];      // Steps synthesized by the last run; the rest reused their clip
+}
+
+export interface AudioStepFailure {
+  stepId: number;
+  error: string;
+}
+
 export interface VideoProgress {
   stage: 'STARTING' | 'RUNNING' | 'PROCESSING' | 'UPLOADING' | 'COMPLETE' | 'ERROR';
   taskArn?: string;
@@ -43,25 +136,89 @@ export interface Project {
   userPrompt: string;
   selectedFiles: string[]; // File IDs
   manifest?: AudioStep[];
-  audioProgress?: {
-    total: number;
-    completed: number;
-    currentStep?: number;
-  };
+  locales?: string[]; // Extra narration locales, one video variant each
+  cast?: CastMember[]; // Speakers assignable to steps
+  audioProgress?: AudioProgress;
   durationMap?: AudioDurationMap;
   syncedScriptS3Key?: string; // S3 key for synced_runner.ts
+  syncReport?: StepBinding[]; // Per-step binding result from the last sync
   videoS3Key?: string; // S3 key for final video
   videoProgress?: VideoProgress;
+  visualDiff?: VisualDiffReport; // Steps whose UI changed since the previous render
+  recordingOptions?: RecordingOptions;
+  redactions?: RedactionRule[]; // Data hidden in the recording
+  hasPreviews?: boolean; // The last render uploaded a poster and animated preview
+  posterUrl?: string;  // Signed poster frame URL (projects list only)
+  previewUrl?: string; // Signed animated preview URL (projects list only)
   taskToken?: string; // Step Functions task token for approval
   createdAt: string;
   updatedAt: string;
   errorMessage?: string;
 }
 
+export interface RecordingOptions {
+  cursorOverlay: boolean;            // Animated pointer and click ripples
+  highlightHighImportance: boolean;  // Outline the target element of high-importance steps
+  autoZoom?: boolean;                // Zoom on steps without an explicit zoom level
+  typingAnimation?: boolean;         // Type fill() values key by key
+  music?: MusicBedSettings;          // Background track ducked under the narration
+  loudnessTarget?: number;           // Integrated loudness of the mastered audio (LUFS)
+  renditions?: RenditionName[];      // Extra encodes; landscape ones are packaged as HLS
+  bumpers?: boolean;                 // Tenant-branded intro and outro cards
+  lowerThirds?: boolean;             // "Step 3 of 12 — ..." title at the start of each step
+  stepCallouts?: boolean;            // Arrow pointing at the target of high-importance steps
+  deadTime?: 'off' | 'cut' | 'speed'; // Static stretches without narration (page loads, waits)
+}
+
+/**
+ * Tenant-level branding used for the intro/outro cards (one item per tenant)
+ */
+export interface TenantBranding {
+  logoS3Key?: string;       // PNG/JPEG uploaded through /api/upload
+  primaryColor: string;     // #RRGGBB accent
+  backgroundColor: string;  // #RRGGBB card background
+  textColor: string;        // #RRGGBB
+  fontFamily: string;       // One of BRAND_FONTS (installed in the recorder)
+  outroText: string;        // Call to action on the outro card
+  outroSubtext?: string;    // e.g. a URL under the call to action
+  introNarration: boolean;  // Speak the project name over the intro card
+  updatedAt?: string;
+}
+
+export type RenditionName = '1080p' | '720p' | '480p' | 'vertical';
+
+export interface VideoRendition {
+  name: RenditionName;
+  width: number;
+  height: number;
+  url: string;        // Signed MP4 download URL
+  streamable: boolean; // Part of the HLS ladder
+}
+
+export interface MusicBedSettings {
+  fileKey: string;    // S3 key of a `music` file from the library
+  volume: number;     // 0-1, before ducking
+  fadeInMs: number;
+  fadeOutMs: number;
+}
+
+/**
+ * Sensitive data to hide in the recording:
+ * - selector: matching elements are blurred in the page while recording
+ * - text: text and input values matching the regex are blurred while recording
+ * - region: a rectangle in video pixels (1920x1080) blurred in post-processing,
+ *   optionally only from the start of one step until the end of another
+ */
+export type RedactionRule =
+  | { type: 'selector'; selector: string }
+  | { type: 'text'; pattern: string; flags?: string }
+  | { type: 'region'; x: number; y: number; width: number; height: number; fromStepId?: number; toStepId?: number };
+
 export interface CreateProjectRequest {
   name: string;
   userPrompt: string;
   selectedFiles: string[];
+  locales?: string[];
 }
 
 export interface ApproveScriptRequest {
@@ -83,12 +240,80 @@ export interface AudioGenerationResult {
 export interface StartVideoRecordingRequest {
   projectId: string;
   useSimpleRecording?: boolean; // Use Playwright's built-in recording vs FFmpeg
+  burnCaptions?: boolean;
+  chapterGrouping?: ChapterGrouping;
+}
+
+// 'auto' groups by test.step titles when the script has them, otherwise by high-importance steps
+export type ChapterGrouping = 'auto' | 'test-step' | 'importance';
+
+export interface VideoChapter {
+  title: string;
+  startMs: number;
+  endMs: number;
+  stepIds: number[];
+}
+
+// Measured loudness of the mastered audio (EBU R128)
+export interface LoudnessReport {
+  targetLufs: number;
+  integratedLufs: number;
+  truePeakDb: number;           // dBTP
+  loudnessRange: number;        // LU
+  inputIntegratedLufs: number;  // Before normalisation
+}
+
+// Per-step screenshot comparison with the previous successful render
+export interface VisualDiffReport {
+  renderId: string;
+  baselineRenderId?: string;    // Unset on the first render
+  threshold: number;            // Difference above which a step is flagged
+  comparedAt: string;
+  steps: { stepId: number; difference: number | null; changed: boolean }[];  // difference = 1 - SSIM
+  changedStepIds: number[];
+}
+
+// Layout of the scrubbing sprite sheet written by the recorder
+export interface SpriteSheetInfo {
+  posterTimestampMs: number;
+  posterStepId?: number;
+  intervalMs: number;  // Video time between tiles
+  tileCount: number;
+  columns: number;
+  rows: number;
+  tileWidth: number;
+  tileHeight: number;
+}
+
+export interface VideoPreviews {
+  posterUrl: string;
+  previewUrl: string;
+  spriteUrl: string;
+  sprite: SpriteSheetInfo | null;
+}
+
+// Localized copy of the finished video (signed URLs)
+export interface LocaleVariant {
+  locale: string;
+  videoUrl: string;
+  captionsUrl?: string;
+  chapters?: VideoChapter[];
 }
 
 export interface VideoStatusResponse {
   status: string;
   videoS3Key?: string;
   videoUrl?: string;
+  captions?: {
+    vttUrl: string;
+    srtUrl: string;
+  } | null;
+  chapters?: VideoChapter[];
+  loudness?: LoudnessReport | null;
+  playlistUrl?: string | null; // HLS master playlist
+  renditions?: VideoRendition[];
+  previews?: VideoPreviews | null;
+  localeVariants?: LocaleVariant[];
   videoProgress?: VideoProgress;
   taskStatus?: {
     lastStatus: string;